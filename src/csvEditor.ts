@@ -0,0 +1,123 @@
+import { CsvTable, CsvTextFormat } from './utils/csvText';
+import {
+  applyCsvEdit,
+  CsvEdit,
+  deleteColumnEdit,
+  deleteRowsEdit,
+  insertColumnEdit,
+  insertRowEdit,
+  newColumnName,
+  renameColumnEdit,
+  setCellEdit,
+} from './utils/csvEdits';
+import { EditableGrid } from './views/editableGrid';
+
+declare const acquireVsCodeApi: any;
+const vscode = acquireVsCodeApi();
+
+const container = document.getElementById('editor-container') as HTMLElement;
+const fileInfo = document.getElementById('file-info');
+const addRowButton = document.getElementById('add-row') as HTMLButtonElement;
+const deleteRowButton = document.getElementById('delete-row') as HTMLButtonElement;
+const addColumnButton = document.getElementById('add-column') as HTMLButtonElement;
+const renameColumnButton = document.getElementById('rename-column') as HTMLButtonElement;
+const deleteColumnButton = document.getElementById('delete-column') as HTMLButtonElement;
+const openViewerButton = document.getElementById('open-viewer') as HTMLButtonElement;
+
+const DELIMITER_NAMES: Record<string, string> = { ',': 'comma', ';': 'semicolon', '\t': 'tab', '|': 'pipe' };
+const LINE_ENDING_NAMES: Record<string, string> = { '\r\n': 'CRLF', '\n': 'LF', '\r': 'CR' };
+
+// The extension holds the document; this copy changes only through the edits it sends back.
+let table: CsvTable = { columns: [], rows: [] };
+let format: CsvTextFormat | null = null;
+// After adding a column, its name is edited as soon as it shows up.
+let renameNewColumn: number | null = null;
+
+const grid = new EditableGrid(container, {
+  onEditCell: (row, column, value) => requestEdit(setCellEdit(table, row, column, value)),
+  onRenameColumn: (column, name) => {
+    if (name.trim()) {
+      requestEdit(renameColumnEdit(table, column, name));
+    }
+  },
+  onSelect: () => updateToolbar(),
+});
+
+window.addEventListener('message', (event: any) => {
+  const message = event.data;
+  if (message.command === 'load') {
+    table = message.table;
+    format = message.format;
+    grid.setTable(table);
+    updateToolbar();
+  } else if (message.command === 'applyEdit') {
+    const edit = message.edit as CsvEdit;
+    applyCsvEdit(table, edit);
+    grid.setTable(table);
+    if (edit.kind === 'insertRows' || edit.kind === 'insertColumn') {
+      grid.select(edit.kind === 'insertRows' ? { row: edit.index, column: grid.selected.column } : { row: -1, column: edit.index });
+    }
+    if (edit.kind === 'insertColumn' && renameNewColumn === edit.index) {
+      renameNewColumn = null;
+      grid.startEditing();
+    }
+    updateToolbar();
+  }
+});
+
+addRowButton.addEventListener('click', () => {
+  const { row } = grid.selected;
+  requestEdit(insertRowEdit(table, table.rows.length === 0 ? 0 : row + 1));
+});
+
+deleteRowButton.addEventListener('click', () => {
+  const { row } = grid.selected;
+  if (row >= 0 && row < table.rows.length) {
+    requestEdit(deleteRowsEdit(table, row));
+  }
+});
+
+addColumnButton.addEventListener('click', () => {
+  const index = table.columns.length === 0 ? 0 : grid.selected.column + 1;
+  renameNewColumn = index;
+  requestEdit(insertColumnEdit(table, index, newColumnName(table)));
+});
+
+renameColumnButton.addEventListener('click', () => {
+  grid.select({ row: -1, column: grid.selected.column });
+  grid.startEditing();
+});
+
+deleteColumnButton.addEventListener('click', () => {
+  if (table.columns.length > 0) {
+    requestEdit(deleteColumnEdit(table, grid.selected.column));
+  }
+});
+
+openViewerButton.addEventListener('click', () => {
+  vscode.postMessage({ command: 'openInViewer' });
+});
+
+function requestEdit(edit: CsvEdit) {
+  vscode.postMessage({ command: 'edit', edit });
+}
+
+function updateToolbar() {
+  const { row } = grid.selected;
+  const hasColumns = table.columns.length > 0;
+  addRowButton.disabled = !hasColumns;
+  deleteRowButton.disabled = row < 0 || row >= table.rows.length;
+  renameColumnButton.disabled = !hasColumns;
+  deleteColumnButton.disabled = !hasColumns;
+  if (fileInfo && format) {
+    const delimiter = DELIMITER_NAMES[format.delimiter] ?? `"${format.delimiter}"`;
+    fileInfo.textContent = [
+      `${table.rows.length.toLocaleString()} rows × ${table.columns.length} columns`,
+      `${delimiter}-delimited`,
+      format.encoding.toUpperCase(),
+      LINE_ENDING_NAMES[format.lineEnding],
+    ].join(' • ');
+  }
+}
+
+vscode.postMessage({ command: 'ready' });
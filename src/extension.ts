@@ -1,19 +1,71 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as os from 'os';
+import * as fs from 'fs';
+import { QueryHistoryStore, StoredHistoryEntry } from './host/queryHistoryStore';
+import { CsvOptionsStore } from './host/csvOptionsStore';
+import { FileRangeServer } from './host/fileRangeServer';
+import { ExportWriter } from './host/exportWriter';
+import { FileReloadWatcher } from './host/fileReloadWatcher';
+import { CsvEditorProvider } from './host/csvEditorProvider';
+import { SqlCodeLensProvider } from './host/sqlCodeLensProvider';
+import { findFileReferences, splitSqlStatements, statementAt } from './utils/sqlStatements';
+import { listSavedQueries, parseSavedQuery, SAVED_QUERIES_FOLDER, writeSavedQuery } from './host/savedQueries';
 
 const COMMAND_ID = 'duckdb-viewer.viewFile';
+const ADD_FILE_COMMAND_ID = 'duckdb-viewer.addFile';
+const EDIT_CSV_COMMAND_ID = 'duckdb-viewer.editCsv';
+const COMPARE_COMMAND_ID = 'duckdb-viewer.compareWith';
+const RUN_SQL_COMMAND_ID = 'duckdb-viewer.runSql';
 const VIEW_TYPE = 'duckdb-viewer.dataViewer';
+// Same viewer, offered through "Open With…" only, for .txt files that may hold delimited data.
+const TEXT_VIEW_TYPE = 'duckdb-viewer.textDataViewer';
+// Writable editor for delimited text, also offered through "Open With…".
+const CSV_EDITOR_VIEW_TYPE = 'duckdb-viewer.csvEditor';
+const CONFIG_SECTION = 'duckdb-viewer';
+// Streamed files send this much up front so the webview can tell their format.
+const FILE_HEAD_BYTES = 1024 * 1024;
+const BYTES_PER_MB = 1024 * 1024;
+const VIEWABLE_EXPORT_FORMATS = new Set(['csv', 'parquet', 'arrow', 'json', 'ndjson']);
+const SUPPORTED_EXTENSIONS = [
+  'csv', 'tsv', 'psv', 'txt', 'parquet', 'parq', 'arrow', 'ipc', 'feather', 'json', 'jsonl', 'ndjson',
+  'duckdb', 'ddb', 'sqlite', 'sqlite3', 'db',
+  'csv.gz', 'tsv.gz', 'psv.gz', 'json.gz', 'jsonl.gz', 'ndjson.gz',
+  'csv.zst', 'tsv.zst', 'psv.zst', 'json.zst', 'jsonl.zst', 'ndjson.zst',
+];
 
 export function activate(context: vscode.ExtensionContext) {
   // Register the custom editor provider for auto-opening files
   const provider = new DuckDBEditorProvider(context);
+  context.subscriptions.push(provider);
+  for (const viewType of [VIEW_TYPE, TEXT_VIEW_TYPE]) {
+    context.subscriptions.push(
+      vscode.window.registerCustomEditorProvider(viewType, provider, {
+        webviewOptions: {
+          retainContextWhenHidden: true,
+        },
+        supportsMultipleEditorsPerDocument: false,
+      })
+    );
+  }
+
+  const csvEditorProvider = new CsvEditorProvider(
+    context.extensionUri,
+    new CsvOptionsStore(context.workspaceState),
+    (webview) => getWebviewHtml(context, webview, 'csvEditor'),
+    VIEW_TYPE
+  );
   context.subscriptions.push(
-    vscode.window.registerCustomEditorProvider(VIEW_TYPE, provider, {
-      webviewOptions: {
-        retainContextWhenHidden: true,
-      },
+    vscode.window.registerCustomEditorProvider(CSV_EDITOR_VIEW_TYPE, csvEditorProvider, {
       supportsMultipleEditorsPerDocument: false,
+    }),
+    vscode.commands.registerCommand(EDIT_CSV_COMMAND_ID, async (uri?: vscode.Uri) => {
+      const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!target) {
+        vscode.window.showWarningMessage('Right-click a CSV file in the explorer to edit it.');
+        return;
+      }
+      await vscode.commands.executeCommand('vscode.openWith', target, CSV_EDITOR_VIEW_TYPE);
     })
   );
 
@@ -28,10 +80,172 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   context.subscriptions.push(disposable);
+
+  // Register another file on the active viewer's DuckDB connection
+  context.subscriptions.push(
+    vscode.commands.registerCommand(ADD_FILE_COMMAND_ID, async (uri?: vscode.Uri) => {
+      await provider.addFilesToActiveSession(uri ? [uri] : undefined);
+    })
+  );
+
+  // Compare a file from the explorer with another one, in the viewer of the first
+  context.subscriptions.push(
+    vscode.commands.registerCommand(COMPARE_COMMAND_ID, async (uri?: vscode.Uri) => {
+      if (!uri) {
+        vscode.window.showWarningMessage('Right-click a data file in the explorer to compare it with another one.');
+        return;
+      }
+      const other = await pickFileToCompare(uri);
+      if (other) {
+        await provider.compareFiles(uri, other);
+      }
+    })
+  );
+
+  // Run SQL from .sql editors in an open viewer, from the editor or a CodeLens per statement
+  context.subscriptions.push(
+    vscode.languages.registerCodeLensProvider({ language: 'sql' }, new SqlCodeLensProvider(RUN_SQL_COMMAND_ID)),
+    vscode.commands.registerCommand(RUN_SQL_COMMAND_ID, async (uri?: vscode.Uri, range?: vscode.Range) => {
+      const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+      if (!document) {
+        vscode.window.showWarningMessage('Open a .sql file to run its SQL in the DuckDB Data Viewer.');
+        return;
+      }
+      const sql = getSqlToRun(document, range);
+      if (!sql) {
+        vscode.window.showWarningMessage('There is no SQL statement to run here.');
+        return;
+      }
+      await provider.runSql(sql, document.uri);
+    })
+  );
+}
+
+// A file named by path in SQL run from a .sql editor.
+interface ReferencedFile {
+  // The path as written in the SQL, which the file is registered under.
+  name: string;
+  uri: vscode.Uri;
+  mtime: number;
 }
 
-class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
-  constructor(private readonly context: vscode.ExtensionContext) { }
+// What the provider can ask of an open viewer panel.
+interface ViewerSession {
+  currentFile: () => vscode.Uri;
+  addFile: (fileUri: vscode.Uri) => Promise<void>;
+  // Adds the file to the session and offers to compare it with the current one.
+  compareWith: (fileUri: vscode.Uri) => Promise<void>;
+  runSql: (sql: string, files: ReferencedFile[]) => Promise<void>;
+}
+
+class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider, vscode.Disposable {
+  // Every open viewer panel, with what it can do for commands run outside of it.
+  private readonly sessions = new Map<vscode.WebviewPanel, ViewerSession>();
+  // Files to compare with, keyed by the file whose viewer is still opening.
+  private readonly pendingComparisons = new Map<string, vscode.Uri>();
+  private activePanel: vscode.WebviewPanel | null = null;
+  private readonly historyStore: QueryHistoryStore;
+  private readonly csvOptionsStore: CsvOptionsStore;
+  private readonly savedQueryWatcher: vscode.FileSystemWatcher;
+  private readonly rangeServer = new FileRangeServer();
+
+  constructor(private readonly context: vscode.ExtensionContext) {
+    this.historyStore = new QueryHistoryStore(context.workspaceState);
+    this.csvOptionsStore = new CsvOptionsStore(context.workspaceState);
+    this.historyStore.onDidChange((entries) => this.broadcast({ command: 'history', entries }));
+
+    // Saved queries live in the workspace, so pick up edits, git pulls and deletions
+    this.savedQueryWatcher = vscode.workspace.createFileSystemWatcher(`**/${SAVED_QUERIES_FOLDER}/**/*.sql`);
+    const refreshSavedQueries = () => this.broadcastSavedQueries();
+    this.savedQueryWatcher.onDidCreate(refreshSavedQueries);
+    this.savedQueryWatcher.onDidChange(refreshSavedQueries);
+    this.savedQueryWatcher.onDidDelete(refreshSavedQueries);
+  }
+
+  dispose() {
+    this.historyStore.dispose();
+    this.savedQueryWatcher.dispose();
+    this.rangeServer.dispose();
+  }
+
+  private broadcast(message: any) {
+    for (const panel of this.sessions.keys()) {
+      panel.webview.postMessage(message);
+    }
+  }
+
+  private async broadcastSavedQueries() {
+    try {
+      this.broadcast({ command: 'savedQueries', queries: await listSavedQueries() });
+    } catch (e) {
+      console.error('Failed to list saved queries:', e);
+    }
+  }
+
+  async addFilesToActiveSession(uris?: vscode.Uri[]) {
+    const panel = this.activePanel;
+    const session = panel ? this.sessions.get(panel) : undefined;
+    if (!panel || !session) {
+      vscode.window.showWarningMessage('Open a file in the DuckDB Data Viewer before adding more files to its session.');
+      return;
+    }
+
+    const targets = uris ?? await vscode.window.showOpenDialog({
+      title: 'Add files to the DuckDB session',
+      canSelectMany: true,
+      openLabel: 'Add to Session',
+      // Dialog filters match the last extension only, so data.csv.gz is offered through "gz".
+      filters: { 'Data files': Array.from(new Set(SUPPORTED_EXTENSIONS.map((ext) => ext.split('.').pop() ?? ext))) },
+    });
+    if (!targets) {
+      return;
+    }
+    for (const target of targets) {
+      await session.addFile(target);
+    }
+  }
+
+  // Opens (or shows) the viewer of `baseUri` and compares it with `otherUri` there.
+  async compareFiles(baseUri: vscode.Uri, otherUri: vscode.Uri) {
+    for (const [panel, session] of this.sessions) {
+      if (session.currentFile().toString() === baseUri.toString()) {
+        panel.reveal();
+        await session.compareWith(otherUri);
+        return;
+      }
+    }
+    this.pendingComparisons.set(baseUri.toString(), otherUri);
+    await vscode.commands.executeCommand('vscode.openWith', baseUri, VIEW_TYPE);
+  }
+
+  // Runs SQL from a .sql editor in a viewer, asking which one when several are open.
+  async runSql(sql: string, documentUri: vscode.Uri) {
+    // The viewer used last is offered first.
+    const open = Array.from(this.sessions)
+      .sort(([a], [b]) => Number(b === this.activePanel) - Number(a === this.activePanel));
+    if (open.length === 0) {
+      vscode.window.showWarningMessage('Open a data file in the DuckDB Data Viewer to run SQL against its session.');
+      return;
+    }
+    let target = open[0];
+    if (open.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        open.map(([panel, session]) => ({
+          label: panel.title,
+          description: vscode.workspace.asRelativePath(session.currentFile(), false),
+          target: [panel, session] as [vscode.WebviewPanel, ViewerSession],
+        })),
+        { title: 'Run in DuckDB Viewer', placeHolder: 'The viewer to run the SQL in' }
+      );
+      if (!picked) {
+        return;
+      }
+      target = picked.target;
+    }
+    const [panel, session] = target;
+    panel.reveal(undefined, true);
+    await session.runSql(sql, await resolveFileReferences(sql, documentUri));
+  }
 
   async openCustomDocument(
     uri: vscode.Uri,
@@ -53,13 +267,77 @@ class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
     const fileName = path.basename(uri.fsPath);
 
     webviewPanel.title = `DuckDB: ${fileName}`;
+    // Without the range server every file is posted whole, as small files always are.
+    const rangeServerPort = await this.rangeServer.start().catch((e) => {
+      console.error('Failed to start the file range server:', e);
+      return null;
+    });
     webviewPanel.webview.options = {
       enableScripts: true,
       localResourceRoots: [vscode.Uri.joinPath(this.context.extensionUri, 'dist')],
+      portMapping: rangeServerPort ? [{ webviewPort: rangeServerPort, extensionHostPort: rangeServerPort }] : [],
     };
 
-    let pendingFile: { uri: vscode.Uri; fileName: string } | null = { uri, fileName };
+    // URLs of the files this panel streams, with the file names progress is reported for.
+    const streamedFiles = new Map<string, string>();
+    // A file read again, when it is reloaded or named by SQL, keeps the URL it was first served under.
+    const streamedUrls = new Map<string, string>();
+    const readFileData = async (fileUri: vscode.Uri) => {
+      const threshold = getStreamingThresholdBytes();
+      if (rangeServerPort && fileUri.scheme === 'file' && threshold !== null) {
+        const { size } = await vscode.workspace.fs.stat(fileUri);
+        if (size > 0 && size >= threshold) {
+          let url = streamedUrls.get(fileUri.fsPath);
+          if (!url) {
+            url = (await this.rangeServer.serve(fileUri)).url;
+            streamedUrls.set(fileUri.fsPath, url);
+            streamedFiles.set(url, path.basename(fileUri.fsPath));
+          }
+          return { fileUrl: url, fileSize: size, fileHead: await readFileHead(fileUri.fsPath) };
+        }
+      }
+      const fileBytes = await vscode.workspace.fs.readFile(fileUri);
+      return { fileData: fileBytes, fileSize: fileBytes.length };
+    };
+    const progressListener = this.rangeServer.onDidReadFile((progress) => {
+      const streamedName = streamedFiles.get(progress.url);
+      if (streamedName) {
+        webviewPanel.webview.postMessage({ command: 'fileProgress', fileName: streamedName, ...progress });
+      }
+    });
+
+    const activeExports = new Map<string, ActiveExport>();
+
+    // Files shown in this panel are reloaded when they change on disk.
+    const reloadWatcher = new FileReloadWatcher(
+      async (fileUri) => {
+        try {
+          const fileData = await readFileData(fileUri);
+          webviewPanel.webview.postMessage({
+            command: 'reloadFile',
+            fileName: path.basename(fileUri.fsPath),
+            ...fileData,
+            fileUri: fileUri.toString(),
+          });
+        } catch (e) {
+          // The file may be gone or half written; the next change tries again.
+          console.error('Failed to reload file:', e);
+        }
+      },
+      (fileUri) => {
+        webviewPanel.webview.postMessage({
+          command: 'reloadPending',
+          fileName: path.basename(fileUri.fsPath),
+          fileUri: fileUri.toString(),
+        });
+      }
+    );
+
+    let pendingFile: { uri: vscode.Uri; fileName: string; query?: string } | null = { uri, fileName };
+    let currentFileUri = uri;
     let duckdbReady = false;
+    let pendingComparison = this.pendingComparisons.get(uri.toString()) ?? null;
+    this.pendingComparisons.delete(uri.toString());
 
     webviewPanel.webview.html = await getWebviewHtml(this.context, webviewPanel.webview);
 
@@ -68,14 +346,19 @@ class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
         return;
       }
 
-      const { uri: fileUri, fileName: pendingFileName } = pendingFile;
+      const { uri: fileUri, fileName: pendingFileName, query } = pendingFile;
 
       try {
-        const fileBytes = await vscode.workspace.fs.readFile(fileUri);
+        const fileData = await readFileData(fileUri);
+        currentFileUri = fileUri;
+        reloadWatcher.watch(fileUri);
         webviewPanel.webview.postMessage({
           command: 'loadFile',
           fileName: pendingFileName,
-          fileData: fileBytes,
+          ...fileData,
+          fileUri: fileUri.toString(),
+          csvOptions: this.csvOptionsStore.get(fileUri),
+          query,
         });
       } catch (e) {
         const message = e instanceof Error ? `Failed to read file: ${e.message}` : String(e);
@@ -89,12 +372,98 @@ class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
       }
     };
 
+    // `compareWith` is the file the added one is to be compared with.
+    const addFileToSession = async (fileUri: vscode.Uri, compareWith?: vscode.Uri) => {
+      if (!duckdbReady) {
+        vscode.window.showWarningMessage('DuckDB is still starting. Try adding the file again in a moment.');
+        return;
+      }
+      try {
+        const fileData = await readFileData(fileUri);
+        reloadWatcher.watch(fileUri);
+        webviewPanel.webview.postMessage({
+          command: 'addFile',
+          fileName: path.basename(fileUri.fsPath),
+          ...fileData,
+          fileUri: fileUri.toString(),
+          csvOptions: this.csvOptionsStore.get(fileUri),
+          compareWith: compareWith?.toString(),
+        });
+      } catch (e) {
+        const message = e instanceof Error ? `Failed to read file: ${e.message}` : String(e);
+        vscode.window.showErrorMessage(message);
+      }
+    };
+
+    const compareWithFile = async (fileUri: vscode.Uri) => {
+      if (!duckdbReady) {
+        pendingComparison = fileUri;
+        return;
+      }
+      await addFileToSession(fileUri, currentFileUri);
+    };
+
+    // Files read by SQL from .sql editors, with the version last sent to the webview.
+    const referencedFiles = new Map<string, string>();
+    const runSql = async (sql: string, files: ReferencedFile[]) => {
+      if (!duckdbReady) {
+        vscode.window.showWarningMessage('DuckDB is still starting. Try running the SQL again in a moment.');
+        return;
+      }
+      try {
+        const changed = [];
+        for (const file of files) {
+          const version = `${file.uri.toString()}@${file.mtime}`;
+          if (referencedFiles.get(file.name) !== version) {
+            changed.push({ name: file.name, ...(await readFileData(file.uri)) });
+            referencedFiles.set(file.name, version);
+          }
+        }
+        webviewPanel.webview.postMessage({ command: 'runSql', sql, files: changed });
+      } catch (e) {
+        const message = e instanceof Error ? `Failed to read file: ${e.message}` : String(e);
+        vscode.window.showErrorMessage(message);
+      }
+    };
+
+    this.sessions.set(webviewPanel, {
+      currentFile: () => currentFileUri,
+      addFile: (fileUri) => addFileToSession(fileUri),
+      compareWith: compareWithFile,
+      runSql,
+    });
+    if (webviewPanel.active) {
+      this.activePanel = webviewPanel;
+    }
+    webviewPanel.onDidChangeViewState(() => {
+      if (webviewPanel.active) {
+        this.activePanel = webviewPanel;
+      }
+    });
+    const configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration(CONFIG_SECTION)) {
+        webviewPanel.webview.postMessage({ command: 'settings', settings: getViewerSettings() });
+      }
+    });
+    webviewPanel.onDidDispose(() => {
+      configurationListener.dispose();
+      progressListener.dispose();
+      reloadWatcher.dispose();
+      activeExports.forEach((activeExport) => endExport(activeExport, false));
+      activeExports.clear();
+      streamedFiles.forEach((_, url) => this.rangeServer.release(url));
+      this.sessions.delete(webviewPanel);
+      if (this.activePanel === webviewPanel) {
+        this.activePanel = null;
+      }
+    });
+
     webviewPanel.webview.onDidReceiveMessage(
       async (message) => {
         if (message.command === 'ready') {
           try {
             const bundles = await prepareDuckDBBundles(this.context, webviewPanel.webview);
-            webviewPanel.webview.postMessage({ command: 'init', bundles });
+            webviewPanel.webview.postMessage({ command: 'init', bundles, settings: getViewerSettings() });
           } catch (e) {
             webviewPanel.webview.postMessage({
               command: 'error',
@@ -107,6 +476,17 @@ class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
         if (message.command === 'duckdb-ready') {
           duckdbReady = true;
           await deliverPendingFile();
+          if (pendingComparison) {
+            await addFileToSession(pendingComparison, currentFileUri);
+            pendingComparison = null;
+          }
+
+          webviewPanel.webview.postMessage({ command: 'history', entries: this.historyStore.getEntries() });
+          try {
+            webviewPanel.webview.postMessage({ command: 'savedQueries', queries: await listSavedQueries() });
+          } catch (e) {
+            console.error('Failed to list saved queries:', e);
+          }
 
           // Send the list of all compatible files in the workspace
           try {
@@ -121,8 +501,18 @@ class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
           return;
         }
 
-        if (message.command === 'export-data') {
-          await handleExportMessage(message, webviewPanel);
+        if (message.command === 'exportStart') {
+          await startExport(message, webviewPanel, activeExports);
+          return;
+        }
+
+        if (message.command === 'exportChunk' || message.command === 'exportEnd' || message.command === 'exportAbort') {
+          await continueExport(message, webviewPanel, activeExports);
+          return;
+        }
+
+        if (message.command === 'setAutoReload') {
+          reloadWatcher.setPaused(Boolean(message.paused));
           return;
         }
 
@@ -133,6 +523,76 @@ class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
           await deliverPendingFile();
           return;
         }
+
+        if (message.command === 'addFileFromList') {
+          await addFileToSession(vscode.Uri.file(message.filePath));
+          return;
+        }
+
+        if (message.command === 'compareFileFromList') {
+          await addFileToSession(vscode.Uri.file(message.filePath), currentFileUri);
+          return;
+        }
+
+        if (message.command === 'pickSessionFiles') {
+          this.activePanel = webviewPanel;
+          await this.addFilesToActiveSession();
+          return;
+        }
+
+        if (message.command === 'recordHistory') {
+          const entry = message.entry as StoredHistoryEntry;
+          await this.historyStore.add({ ...entry, file: vscode.workspace.asRelativePath(currentFileUri, false) });
+          return;
+        }
+
+        if (message.command === 'pinHistory') {
+          await this.historyStore.setPinned(String(message.id), Boolean(message.pinned));
+          return;
+        }
+
+        if (message.command === 'clearHistory') {
+          await this.historyStore.clear();
+          return;
+        }
+
+        if (message.command === 'saveCsvOptions') {
+          await this.csvOptionsStore.set(vscode.Uri.parse(message.fileUri), message.options);
+          return;
+        }
+
+        if (message.command === 'saveQuery') {
+          await saveQueryToWorkspace(String(message.sql ?? ''), currentFileUri);
+          await this.broadcastSavedQueries();
+          return;
+        }
+
+        if (message.command === 'deleteSavedQuery') {
+          await deleteSavedQuery(vscode.Uri.parse(message.uri));
+          await this.broadcastSavedQueries();
+          return;
+        }
+
+        if (message.command === 'openSavedQuery') {
+          try {
+            const queryUri = vscode.Uri.parse(message.uri);
+            const saved = parseSavedQuery(
+              new TextDecoder().decode(await vscode.workspace.fs.readFile(queryUri)),
+              path.basename(queryUri.fsPath, '.sql')
+            );
+            const datasetUri = resolveSavedQueryDataset(queryUri, saved.dataset);
+            if (datasetUri && datasetUri.toString() !== currentFileUri.toString()) {
+              pendingFile = { uri: datasetUri, fileName: path.basename(datasetUri.fsPath), query: saved.sql };
+              await deliverPendingFile();
+            } else {
+              webviewPanel.webview.postMessage({ command: 'runQuery', sql: saved.sql });
+            }
+          } catch (e) {
+            const errMsg = e instanceof Error ? e.message : String(e);
+            vscode.window.showErrorMessage(`Failed to open saved query: ${errMsg}`);
+          }
+          return;
+        }
       },
       undefined,
       this.context.subscriptions
@@ -140,47 +600,197 @@ class DuckDBEditorProvider implements vscode.CustomReadonlyEditorProvider {
   }
 }
 
-async function handleExportMessage(message: any, panel: vscode.WebviewPanel) {
+async function saveQueryToWorkspace(sql: string, datasetUri: vscode.Uri) {
+  if (!sql.trim()) {
+    vscode.window.showWarningMessage('Write a SQL query before saving it.');
+    return;
+  }
+  const folder = vscode.workspace.getWorkspaceFolder(datasetUri) ?? vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    vscode.window.showWarningMessage(`Open a workspace folder to save queries in ${SAVED_QUERIES_FOLDER}.`);
+    return;
+  }
+  const name = await vscode.window.showInputBox({
+    title: 'Save DuckDB query',
+    prompt: `Saved to ${SAVED_QUERIES_FOLDER} in ${folder.name}`,
+    placeHolder: 'Query name',
+    validateInput: (value) => (value.trim() ? undefined : 'Enter a name for the query.'),
+  });
+  if (!name) {
+    return;
+  }
+  // Datasets inside the folder are stored relative to it so the file works for everyone.
+  const relativeDataset = path.relative(folder.uri.fsPath, datasetUri.fsPath);
+  const dataset = relativeDataset.startsWith('..') || path.isAbsolute(relativeDataset)
+    ? datasetUri.fsPath
+    : relativeDataset.split(path.sep).join('/');
   try {
-    const buffer = message.buffer as ArrayBuffer | number[] | Uint8Array | undefined;
-    if (!buffer) {
-      throw new Error('No export data supplied.');
-    }
-    const bytes = buffer instanceof Uint8Array
-      ? buffer
-      : buffer instanceof ArrayBuffer
-        ? new Uint8Array(buffer)
-        : new Uint8Array(buffer);
-    const fileName = typeof message.fileName === 'string' ? message.fileName : 'duckdb_export';
-    const format = typeof message.format === 'string' ? message.format.toLowerCase() : 'file';
-    const filters = getExportFilters(format);
-    const defaultUri = getDefaultExportUri(fileName);
-    const targetUri = await vscode.window.showSaveDialog({
-      title: 'Save DuckDB export',
-      defaultUri,
-      filters,
-      saveLabel: 'Save',
-    });
+    const targetUri = await writeSavedQuery(folder, { name: name.trim(), sql, dataset });
     if (!targetUri) {
       return;
     }
-    await vscode.workspace.fs.writeFile(targetUri, bytes);
+    vscode.window.showInformationMessage(`Saved query to ${vscode.workspace.asRelativePath(targetUri)}`);
+  } catch (e) {
+    const errMsg = e instanceof Error ? e.message : String(e);
+    vscode.window.showErrorMessage(`Failed to save query: ${errMsg}`);
+  }
+}
 
-    const choice = await vscode.window.showInformationMessage(
-      `DuckDB export saved to ${targetUri.fsPath}`,
-      'Open File',
-      'Open in DuckDB Viewer'
-    );
+async function deleteSavedQuery(queryUri: vscode.Uri) {
+  const choice = await vscode.window.showWarningMessage(
+    `Delete saved query ${path.basename(queryUri.fsPath)}?`,
+    { modal: true },
+    'Delete'
+  );
+  if (choice === 'Delete') {
+    await vscode.workspace.fs.delete(queryUri);
+  }
+}
+
+// Dataset paths are relative to the workspace folder holding the saved query.
+function resolveSavedQueryDataset(queryUri: vscode.Uri, dataset: string | undefined): vscode.Uri | undefined {
+  if (!dataset) {
+    return undefined;
+  }
+  if (path.isAbsolute(dataset)) {
+    return vscode.Uri.file(dataset);
+  }
+  const folder = vscode.workspace.getWorkspaceFolder(queryUri);
+  return folder ? vscode.Uri.joinPath(folder.uri, dataset) : undefined;
+}
+
+// An export being written, between the webview's exportStart and exportEnd.
+interface ActiveExport {
+  writer: ExportWriter;
+  format: string;
+  cancelled: boolean;
+  progress: vscode.Progress<{ message?: string }>;
+  // Closes the progress notification.
+  done: () => void;
+}
 
-    if (choice === 'Open File') {
-      await vscode.commands.executeCommand('vscode.open', targetUri);
-    } else if (choice === 'Open in DuckDB Viewer') {
-      await vscode.commands.executeCommand(COMMAND_ID, targetUri);
+// Picks the target file before the webview produces any bytes, then shows progress
+// (with a Cancel button) until the export ends.
+async function startExport(message: any, panel: vscode.WebviewPanel, activeExports: Map<string, ActiveExport>) {
+  const exportId = String(message.exportId);
+  const reply = (fields: Record<string, unknown>) => panel.webview.postMessage({ command: 'exportReply', exportId, ...fields });
+  const fileName = typeof message.fileName === 'string' ? message.fileName : 'duckdb_export';
+  const format = typeof message.format === 'string' ? message.format.toLowerCase() : 'file';
+  const targetUri = await vscode.window.showSaveDialog({
+    title: 'Save DuckDB export',
+    defaultUri: getDefaultExportUri(fileName),
+    filters: getExportFilters(format),
+    saveLabel: 'Save',
+  });
+  if (!targetUri) {
+    reply({ accepted: false });
+    return;
+  }
+
+  let writer: ExportWriter;
+  try {
+    writer = await ExportWriter.open(targetUri);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    reply({ error: `Cannot write ${targetUri.fsPath}: ${errMsg}` });
+    return;
+  }
+
+  vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Exporting ${path.basename(targetUri.fsPath)}`,
+      cancellable: true,
+    },
+    (progress, token) => new Promise<void>((resolve) => {
+      const activeExport: ActiveExport = { writer, format, cancelled: false, progress, done: resolve };
+      token.onCancellationRequested(() => {
+        activeExport.cancelled = true;
+        panel.webview.postMessage({ command: 'exportCancel', exportId });
+      });
+      activeExports.set(exportId, activeExport);
+      reply({ accepted: true });
+    })
+  );
+}
+
+async function continueExport(message: any, panel: vscode.WebviewPanel, activeExports: Map<string, ActiveExport>) {
+  const exportId = String(message.exportId);
+  const reply = (fields: Record<string, unknown>) => panel.webview.postMessage({ command: 'exportReply', exportId, ...fields });
+  const activeExport = activeExports.get(exportId);
+  if (!activeExport) {
+    if (message.command !== 'exportAbort') {
+      reply({ error: 'This export is no longer running.' });
     }
+    return;
+  }
+
+  if (message.command === 'exportAbort') {
+    activeExports.delete(exportId);
+    await endExport(activeExport, false);
+    return;
+  }
+
+  try {
+    if (message.command === 'exportChunk') {
+      if (!activeExport.cancelled) {
+        await activeExport.writer.write(toExportBytes(message.chunk));
+        activeExport.progress.report({ message: `${formatMegabytes(activeExport.writer.bytesWritten)} written` });
+      }
+      reply({ cancelled: activeExport.cancelled });
+      return;
+    }
+
+    activeExports.delete(exportId);
+    await endExport(activeExport, true);
+    reply({});
+    await showExportSaved(activeExport);
   } catch (error) {
+    activeExports.delete(exportId);
+    await endExport(activeExport, false);
     const errMsg = error instanceof Error ? error.message : String(error);
-    vscode.window.showErrorMessage(`DuckDB export failed: ${errMsg}`);
+    reply({ error: `DuckDB export failed: ${errMsg}` });
+  }
+}
+
+// Closes the file, or removes it when the export did not complete.
+async function endExport(activeExport: ActiveExport, completed: boolean) {
+  try {
+    if (completed) {
+      await activeExport.writer.close();
+    } else {
+      await activeExport.writer.discard();
+    }
+  } finally {
+    activeExport.done();
+  }
+}
+
+async function showExportSaved(activeExport: ActiveExport) {
+  const targetUri = activeExport.writer.targetUri;
+  // Chart images, workbooks and text tables cannot be opened in the viewer.
+  const canView = VIEWABLE_EXPORT_FORMATS.has(activeExport.format);
+  const choice = await vscode.window.showInformationMessage(
+    `DuckDB export saved to ${targetUri.fsPath}`,
+    ...(canView ? ['Open File', 'Open in DuckDB Viewer'] : ['Open File'])
+  );
+
+  if (choice === 'Open File') {
+    await vscode.commands.executeCommand('vscode.open', targetUri);
+  } else if (choice === 'Open in DuckDB Viewer') {
+    await vscode.commands.executeCommand(COMMAND_ID, targetUri);
+  }
+}
+
+function toExportBytes(chunk: ArrayBuffer | Uint8Array | number[] | undefined): Uint8Array {
+  if (!chunk) {
+    throw new Error('No export data supplied.');
   }
+  return chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / BYTES_PER_MB).toFixed(1)} MB`;
 }
 
 function getDefaultExportUri(fileName: string): vscode.Uri | undefined {
@@ -209,9 +819,61 @@ function getExportFilters(format: string): Record<string, string[]> | undefined
   if (format === 'arrow') {
     return { Arrow: ['arrow'] };
   }
+  if (format === 'json') {
+    return { JSON: ['json'] };
+  }
+  if (format === 'ndjson') {
+    return { 'Newline-delimited JSON': ['ndjson', 'jsonl'] };
+  }
+  if (format === 'xlsx') {
+    return { 'Excel Workbook': ['xlsx'] };
+  }
+  if (format === 'md') {
+    return { Markdown: ['md'] };
+  }
+  if (format === 'html') {
+    return { HTML: ['html', 'htm'] };
+  }
+  if (format === 'sql') {
+    return { SQL: ['sql'] };
+  }
+  if (format === 'png') {
+    return { 'PNG Image': ['png'] };
+  }
+  if (format === 'svg') {
+    return { 'SVG Image': ['svg'] };
+  }
   return undefined;
 }
 
+// Viewer settings forwarded to the webview
+function getViewerSettings() {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  return {
+    pageSize: config.get<number>('pageSize', 10000),
+    queryTimeoutSeconds: config.get<number>('queryTimeoutSeconds', 300),
+    previewThresholdMB: config.get<number>('previewThresholdMB', 512),
+  };
+}
+
+// Null when streaming is turned off.
+function getStreamingThresholdBytes(): number | null {
+  const thresholdMB = vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>('streamingThresholdMB', 64);
+  return thresholdMB < 0 ? null : thresholdMB * BYTES_PER_MB;
+}
+
+// The first bytes of a file, enough to sniff its format.
+async function readFileHead(fsPath: string): Promise<Uint8Array> {
+  const handle = await fs.promises.open(fsPath, 'r');
+  try {
+    const head = new Uint8Array(FILE_HEAD_BYTES);
+    const { bytesRead } = await handle.read(head, 0, FILE_HEAD_BYTES, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
 // Helper to read a worker file from dist into a string
 async function readWorkerSource(context: vscode.ExtensionContext, fileName: string): Promise<string> {
   const workerUri = vscode.Uri.joinPath(context.extensionUri, 'dist', fileName);
@@ -239,11 +901,12 @@ async function prepareDuckDBBundles(context: vscode.ExtensionContext, webview: v
 }
 
 // Reads the HTML template from disk
-async function getWebviewHtml(context: vscode.ExtensionContext, webview: vscode.Webview): Promise<string> {
-  const htmlPath = vscode.Uri.joinPath(context.extensionUri, 'src', 'webview.html');
+// `page` names both the HTML template in src and its script bundle in dist.
+async function getWebviewHtml(context: vscode.ExtensionContext, webview: vscode.Webview, page = 'webview'): Promise<string> {
+  const htmlPath = vscode.Uri.joinPath(context.extensionUri, 'src', `${page}.html`);
   const template = await vscode.workspace.fs.readFile(htmlPath);
   const nonce = generateNonce();
-  const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(context.extensionUri, 'dist', 'webview.js'));
+  const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(context.extensionUri, 'dist', `${page}.js`));
   const toolkitUri = webview.asWebviewUri(vscode.Uri.joinPath(context.extensionUri, 'dist', 'toolkit.js'));
 
   return new TextDecoder().decode(template)
@@ -262,12 +925,73 @@ function generateNonce(): string {
   return text;
 }
 
+// The range a CodeLens runs, else the selection, else the statement under the cursor.
+function getSqlToRun(document: vscode.TextDocument, range?: vscode.Range): string {
+  if (range) {
+    return document.getText(range).trim();
+  }
+  const editor = vscode.window.visibleTextEditors.find((candidate) => candidate.document === document);
+  if (editor && !editor.selection.isEmpty) {
+    return document.getText(editor.selection).trim();
+  }
+  const offset = editor ? document.offsetAt(editor.selection.active) : 0;
+  return statementAt(splitSqlStatements(document.getText()), offset)?.text ?? '';
+}
+
+// Data files the SQL names by path. Relative paths are looked up in the workspace folder
+// of the .sql file, then next to it; paths that match no file are left to DuckDB.
+async function resolveFileReferences(sql: string, documentUri: vscode.Uri): Promise<ReferencedFile[]> {
+  const folder = vscode.workspace.getWorkspaceFolder(documentUri) ?? vscode.workspace.workspaceFolders?.[0];
+  const files: ReferencedFile[] = [];
+  for (const name of findFileReferences(sql, SUPPORTED_EXTENSIONS)) {
+    const candidates = path.isAbsolute(name)
+      ? [vscode.Uri.file(name)]
+      : [
+        ...(folder ? [vscode.Uri.joinPath(folder.uri, name)] : []),
+        ...(documentUri.scheme === 'file' ? [vscode.Uri.file(path.join(path.dirname(documentUri.fsPath), name))] : []),
+      ];
+    for (const candidate of candidates) {
+      const stat = await Promise.resolve(vscode.workspace.fs.stat(candidate)).catch(() => null);
+      if (stat && stat.type & vscode.FileType.File) {
+        files.push({ name, uri: candidate, mtime: stat.mtime });
+        break;
+      }
+    }
+  }
+  return files;
+}
+
+// Offers the workspace's data files, or any file through the open dialog.
+async function pickFileToCompare(baseUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+  const browse = '$(folder-opened) Browse…';
+  const files = (await discoverCompatibleFiles()).filter((file) => file.path !== baseUri.fsPath);
+  const picked = await vscode.window.showQuickPick(
+    [
+      ...files.map((file) => ({ label: file.relativePath, description: file.type, filePath: file.path })),
+      { label: browse, description: '', filePath: '' },
+    ],
+    { title: `Compare ${path.basename(baseUri.fsPath)} with…`, placeHolder: 'The file with the newer data', matchOnDescription: true }
+  );
+  if (!picked) {
+    return undefined;
+  }
+  if (picked.filePath) {
+    return vscode.Uri.file(picked.filePath);
+  }
+  const chosen = await vscode.window.showOpenDialog({
+    title: `Compare ${path.basename(baseUri.fsPath)} with…`,
+    canSelectMany: false,
+    openLabel: 'Compare',
+    filters: { 'Data files': Array.from(new Set(SUPPORTED_EXTENSIONS.map((ext) => ext.split('.').pop() ?? ext))) },
+  });
+  return chosen?.[0];
+}
+
 // Discover all compatible files in the workspace
 async function discoverCompatibleFiles(): Promise<Array<{ path: string; relativePath: string; type: string }>> {
-  const supportedExtensions = ['csv', 'parquet', 'parq', 'arrow', 'ipc'];
   const files: Array<{ path: string; relativePath: string; type: string }> = [];
 
-  for (const ext of supportedExtensions) {
+  for (const ext of SUPPORTED_EXTENSIONS) {
     const foundFiles = await vscode.workspace.findFiles(
       `**/*.${ext}`,
       '**/node_modules/**',
@@ -283,7 +1007,7 @@ async function discoverCompatibleFiles(): Promise<Array<{ path: string; relative
       files.push({
         path: fileUri.fsPath,
         relativePath: relativePath,
-        type: ext === 'parq' ? 'parquet' : ext,
+        type: getFileTypeLabel(ext),
       });
     }
   }
@@ -294,4 +1018,25 @@ async function discoverCompatibleFiles(): Promise<Array<{ path: string; relative
   return files;
 }
 
+function getFileTypeLabel(ext: string): string {
+  // Compressed files keep their suffix, e.g. "ndjson.gz".
+  const [baseExt, compression] = ext.split('.');
+  if (compression) {
+    return `${getFileTypeLabel(baseExt)}.${compression}`;
+  }
+  if (ext === 'parq') {
+    return 'parquet';
+  }
+  if (ext === 'jsonl' || ext === 'ndjson') {
+    return 'ndjson';
+  }
+  if (ext === 'ddb') {
+    return 'duckdb';
+  }
+  if (ext === 'sqlite3' || ext === 'db') {
+    return 'sqlite';
+  }
+  return ext;
+}
+
 export function deactivate() { }
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  CsvTable,
+  CsvTextFormat,
+  decodeCsvBytes,
+  detectCsvTextFormat,
+  encodeCsvText,
+  parseCsvText,
+  serializeCsvText,
+} from '../utils/csvText';
+import { applyCsvEdit, CsvEdit, describeCsvEdit, invertCsvEdit, rebaseCsvEdit } from '../utils/csvEdits';
+
+// Format choices remembered from the viewer's import options.
+export interface CsvPreferences {
+  delimiter?: string;
+  quote?: string;
+  encoding?: string;
+}
+
+// What a backup holds: the table as edited and the format to write it in.
+interface CsvBackup {
+  format: CsvTextFormat;
+  table: CsvTable;
+}
+
+// A CSV file open in the editor. The table is the source of truth; the webview
+// keeps a copy that it updates from the edits the document reports.
+export class CsvDocument implements vscode.CustomDocument {
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.CustomDocumentEditEvent<CsvDocument>>();
+  // Fires with each edit applied (undo and redo included), or null when the whole table was replaced.
+  private readonly contentEmitter = new vscode.EventEmitter<CsvEdit | null>();
+  readonly onDidChange = this.changeEmitter.event;
+  readonly onDidChangeContent = this.contentEmitter.event;
+
+  private constructor(
+    readonly uri: vscode.Uri,
+    private table: CsvTable,
+    private format: CsvTextFormat,
+    private readonly preferred: CsvPreferences
+  ) { }
+
+  // `preferred` holds the delimiter, quote and encoding remembered from the viewer's import options, if any.
+  static async open(
+    uri: vscode.Uri,
+    backupId: string | undefined,
+    preferred: CsvPreferences
+  ): Promise<CsvDocument> {
+    if (backupId) {
+      const backup = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.parse(backupId)))) as CsvBackup;
+      return new CsvDocument(uri, backup.table, backup.format, preferred);
+    }
+    const { table, format } = await readCsvFile(uri, preferred);
+    return new CsvDocument(uri, table, format, preferred);
+  }
+
+  get content(): { table: CsvTable; format: CsvTextFormat } {
+    return { table: this.table, format: this.format };
+  }
+
+  // Edits are applied in the order they arrive, each to the table as the ones before left it.
+  makeEdit(requested: CsvEdit) {
+    const edit = rebaseCsvEdit(this.table, requested);
+    this.apply(edit);
+    this.changeEmitter.fire({
+      document: this,
+      label: describeCsvEdit(edit),
+      undo: () => this.apply(invertCsvEdit(edit)),
+      redo: () => this.apply(edit),
+    });
+  }
+
+  async save(cancellation: vscode.CancellationToken) {
+    await this.saveAs(this.uri, cancellation);
+  }
+
+  async saveAs(targetUri: vscode.Uri, cancellation: vscode.CancellationToken) {
+    const bytes = encodeCsvText(serializeCsvText(this.table, this.format), this.format.encoding);
+    if (cancellation.isCancellationRequested) {
+      return;
+    }
+    await vscode.workspace.fs.writeFile(targetUri, bytes);
+  }
+
+  async revert(_cancellation: vscode.CancellationToken) {
+    const { table, format } = await readCsvFile(this.uri, this.preferred);
+    this.table = table;
+    this.format = format;
+    this.contentEmitter.fire(null);
+  }
+
+  async backup(destination: vscode.Uri, cancellation: vscode.CancellationToken): Promise<vscode.CustomDocumentBackup> {
+    const backup: CsvBackup = { format: this.format, table: this.table };
+    if (!cancellation.isCancellationRequested) {
+      await vscode.workspace.fs.writeFile(destination, new TextEncoder().encode(JSON.stringify(backup)));
+    }
+    return {
+      id: destination.toString(),
+      delete: async () => {
+        try {
+          await vscode.workspace.fs.delete(destination);
+        } catch {
+          // Already gone.
+        }
+      },
+    };
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+    this.contentEmitter.dispose();
+  }
+
+  private apply(edit: CsvEdit) {
+    applyCsvEdit(this.table, edit);
+    this.contentEmitter.fire(edit);
+  }
+}
+
+async function readCsvFile(
+  uri: vscode.Uri,
+  preferred: CsvPreferences
+): Promise<{ table: CsvTable; format: CsvTextFormat }> {
+  const { text, encoding } = decodeCsvBytes(await vscode.workspace.fs.readFile(uri), preferred.encoding);
+  const format = detectCsvTextFormat(text, path.posix.basename(uri.path), { ...preferred, encoding });
+  return { table: parseCsvText(text, format), format };
+}
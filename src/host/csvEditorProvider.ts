@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CsvDocument, CsvPreferences } from './csvDocument';
+import { CsvOptionsStore } from './csvOptionsStore';
+
+// Editable view of a CSV file: cells, rows and columns can be changed, with undo,
+// redo, save and revert handled by VS Code through the document's edits.
+export class CsvEditorProvider implements vscode.CustomEditorProvider<CsvDocument> {
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.CustomDocumentEditEvent<CsvDocument>>();
+  readonly onDidChangeCustomDocument = this.changeEmitter.event;
+
+  constructor(
+    private readonly extensionUri: vscode.Uri,
+    private readonly csvOptionsStore: CsvOptionsStore,
+    private readonly renderHtml: (webview: vscode.Webview) => Promise<string>,
+    // View type of the read-only viewer, offered from the editor's toolbar.
+    private readonly viewerViewType: string
+  ) { }
+
+  async openCustomDocument(
+    uri: vscode.Uri,
+    openContext: vscode.CustomDocumentOpenContext,
+    _token: vscode.CancellationToken
+  ): Promise<CsvDocument> {
+    // A delimiter, quote or encoding set in the viewer's import options is used here too.
+    const options = this.csvOptionsStore.get(uri) as CsvPreferences | undefined;
+    const document = await CsvDocument.open(uri, openContext.backupId, {
+      delimiter: options?.delimiter,
+      quote: options?.quote,
+      encoding: options?.encoding,
+    });
+    document.onDidChange((event) => this.changeEmitter.fire(event));
+    return document;
+  }
+
+  async resolveCustomEditor(
+    document: CsvDocument,
+    webviewPanel: vscode.WebviewPanel,
+    _token: vscode.CancellationToken
+  ): Promise<void> {
+    const fileName = path.posix.basename(document.uri.path);
+    webviewPanel.title = `Edit: ${fileName}`;
+    webviewPanel.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [vscode.Uri.joinPath(this.extensionUri, 'dist')],
+    };
+
+    const sendContent = () => {
+      webviewPanel.webview.postMessage({ command: 'load', fileName, ...document.content });
+    };
+    const contentListener = document.onDidChangeContent((edit) => {
+      if (edit) {
+        webviewPanel.webview.postMessage({ command: 'applyEdit', edit });
+      } else {
+        sendContent();
+      }
+    });
+    webviewPanel.onDidDispose(() => contentListener.dispose());
+
+    webviewPanel.webview.onDidReceiveMessage(async (message) => {
+      if (message.command === 'ready') {
+        sendContent();
+        return;
+      }
+      if (message.command === 'edit') {
+        document.makeEdit(message.edit);
+        return;
+      }
+      if (message.command === 'openInViewer') {
+        await vscode.commands.executeCommand('vscode.openWith', document.uri, this.viewerViewType);
+      }
+    });
+
+    webviewPanel.webview.html = await this.renderHtml(webviewPanel.webview);
+  }
+
+  saveCustomDocument(document: CsvDocument, cancellation: vscode.CancellationToken): Thenable<void> {
+    return document.save(cancellation);
+  }
+
+  saveCustomDocumentAs(document: CsvDocument, destination: vscode.Uri, cancellation: vscode.CancellationToken): Thenable<void> {
+    return document.saveAs(destination, cancellation);
+  }
+
+  revertCustomDocument(document: CsvDocument, cancellation: vscode.CancellationToken): Thenable<void> {
+    return document.revert(cancellation);
+  }
+
+  backupCustomDocument(
+    document: CsvDocument,
+    context: vscode.CustomDocumentBackupContext,
+    cancellation: vscode.CancellationToken
+  ): Thenable<vscode.CustomDocumentBackup> {
+    return document.backup(context.destination, cancellation);
+  }
+}
@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+
+const STATE_KEY = 'duckdb-viewer.csvImportOptions';
+
+// CSV import options chosen in the viewer, remembered per file in workspace state.
+// The webview owns their shape; the extension only stores them.
+export class CsvOptionsStore {
+  constructor(private readonly state: vscode.Memento) { }
+
+  get(fileUri: vscode.Uri): unknown {
+    return this.getAll()[fileUri.toString()];
+  }
+
+  // Empty options mean "back to defaults" and drop the file's entry.
+  async set(fileUri: vscode.Uri, options: unknown) {
+    const all = { ...this.getAll() };
+    if (options && typeof options === 'object' && Object.keys(options).length > 0) {
+      all[fileUri.toString()] = options;
+    } else {
+      delete all[fileUri.toString()];
+    }
+    await this.state.update(STATE_KEY, all);
+  }
+
+  private getAll(): Record<string, unknown> {
+    return this.state.get<Record<string, unknown>>(STATE_KEY, {});
+  }
+}
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+// Writes an export as its chunks arrive. Local files are streamed to disk; other
+// file systems only take whole files, so their chunks are kept until the end.
+export class ExportWriter {
+  private bytes = 0;
+  private readonly heldChunks: Uint8Array[] = [];
+
+  private constructor(
+    readonly targetUri: vscode.Uri,
+    private readonly stream: fs.WriteStream | null
+  ) { }
+
+  static async open(targetUri: vscode.Uri): Promise<ExportWriter> {
+    if (targetUri.scheme !== 'file') {
+      return new ExportWriter(targetUri, null);
+    }
+    const stream = fs.createWriteStream(targetUri.fsPath);
+    await new Promise<void>((resolve, reject) => {
+      stream.once('open', () => resolve());
+      stream.once('error', reject);
+    });
+    return new ExportWriter(targetUri, stream);
+  }
+
+  get bytesWritten(): number {
+    return this.bytes;
+  }
+
+  async write(chunk: Uint8Array) {
+    this.bytes += chunk.byteLength;
+    const stream = this.stream;
+    if (!stream) {
+      this.heldChunks.push(chunk);
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      stream.write(chunk, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async close() {
+    const stream = this.stream;
+    if (!stream) {
+      await vscode.workspace.fs.writeFile(this.targetUri, concatChunks(this.heldChunks, this.bytes));
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      stream.once('error', reject);
+      stream.end(() => resolve());
+    });
+  }
+
+  // Removes whatever was written of an export that did not finish.
+  async discard() {
+    this.heldChunks.length = 0;
+    if (!this.stream) {
+      return;
+    }
+    this.stream.destroy();
+    await fs.promises.rm(this.targetUri.fsPath, { force: true });
+  }
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes;
+}
@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+
+// How often read progress is reported per file.
+const PROGRESS_INTERVAL_MS = 250;
+
+export interface ServedFile {
+  url: string;
+  size: number;
+}
+
+export interface FileReadProgress {
+  url: string;
+  // Furthest byte read so far; scans read front to back, so this is how far they got.
+  position: number;
+  size: number;
+}
+
+interface ServedEntry {
+  url: string;
+  fsPath: string;
+  // Modification time of the file the read progress is about; a rewritten file starts over.
+  modified: number;
+  position: number;
+  lastReported: number;
+}
+
+// Serves local files to the webview over HTTP range requests on 127.0.0.1, so DuckDB
+// reads only the bytes a query needs instead of the whole file being posted to it.
+// Each file gets an unguessable URL that stops working once it is released. The file is
+// looked up on every request, so a URL keeps serving a file that was rewritten in place.
+export class FileRangeServer implements vscode.Disposable {
+  private readonly files = new Map<string, ServedEntry>();
+  private readonly progressEmitter = new vscode.EventEmitter<FileReadProgress>();
+  private server: http.Server | null = null;
+  private listening: Promise<number> | null = null;
+
+  readonly onDidReadFile = this.progressEmitter.event;
+
+  // Starts the server on first use; resolves to the port it listens on.
+  start(): Promise<number> {
+    if (!this.listening) {
+      this.listening = new Promise((resolve, reject) => {
+        const server = http.createServer((request, response) => this.handleRequest(request, response));
+        server.once('error', (error) => {
+          this.listening = null;
+          reject(error);
+        });
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+        this.server = server;
+      });
+    }
+    return this.listening;
+  }
+
+  async serve(fileUri: vscode.Uri): Promise<ServedFile> {
+    const port = await this.start();
+    const { size, mtimeMs } = await fs.promises.stat(fileUri.fsPath);
+    const token = crypto.randomBytes(16).toString('hex');
+    // Keep the file name at the end of the path; DuckDB only uses it in messages.
+    const url = `http://127.0.0.1:${port}/${token}/${encodeURIComponent(fileUri.path.split('/').pop() ?? 'file')}`;
+    this.files.set(new URL(url).pathname, { url, fsPath: fileUri.fsPath, modified: mtimeMs, position: 0, lastReported: 0 });
+    return { url, size };
+  }
+
+  release(url: string) {
+    this.files.delete(new URL(url).pathname);
+  }
+
+  dispose() {
+    this.files.clear();
+    this.progressEmitter.dispose();
+    this.server?.close();
+    this.server = null;
+    this.listening = null;
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+    // The webview's origin differs from the server's.
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Range');
+    response.setHeader('Access-Control-Expose-Headers', 'Content-Range, Content-Length, Accept-Ranges');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+
+    const pathname = new URL(request.url ?? '/', 'http://127.0.0.1').pathname;
+    const entry = this.files.get(pathname);
+    if (!entry) {
+      response.writeHead(404).end();
+      return;
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405, { Allow: 'GET, HEAD, OPTIONS' }).end();
+      return;
+    }
+    fs.promises.stat(entry.fsPath).then(
+      (stats) => this.sendFile(request, response, entry, stats),
+      () => response.writeHead(404).end()
+    );
+  }
+
+  private sendFile(request: http.IncomingMessage, response: http.ServerResponse, entry: ServedEntry, stats: fs.Stats) {
+    const size = stats.size;
+    if (stats.mtimeMs !== entry.modified) {
+      entry.modified = stats.mtimeMs;
+      entry.position = 0;
+    }
+    const range = parseRange(request.headers.range, size);
+    if (range === 'unsatisfiable') {
+      response.writeHead(416, { 'Content-Range': `bytes */${size}` }).end();
+      return;
+    }
+    const start = range?.start ?? 0;
+    const end = range?.end ?? size - 1;
+    response.writeHead(range ? 206 : 200, {
+      'Accept-Ranges': 'bytes',
+      'Content-Length': String(Math.max(0, end - start + 1)),
+      'Content-Type': 'application/octet-stream',
+      // The same URL serves the file again after it changes.
+      'Cache-Control': 'no-store',
+      ...(range ? { 'Content-Range': `bytes ${start}-${end}/${size}` } : {}),
+    });
+    if (request.method === 'HEAD' || end < start) {
+      response.end();
+      return;
+    }
+
+    const stream = fs.createReadStream(entry.fsPath, { start, end });
+    stream.on('error', () => response.destroy());
+    stream.on('end', () => this.reportRead(entry, end + 1, size));
+    stream.pipe(response);
+  }
+
+  private reportRead(entry: ServedEntry, position: number, size: number) {
+    entry.position = Math.max(entry.position, position);
+    const now = Date.now();
+    if (now - entry.lastReported < PROGRESS_INTERVAL_MS && entry.position < size) {
+      return;
+    }
+    entry.lastReported = now;
+    this.progressEmitter.fire({ url: entry.url, position: entry.position, size });
+  }
+}
+
+// Supports the single `bytes=start-end` / `bytes=start-` / `bytes=-suffix` ranges DuckDB sends.
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  // An empty file has no bytes to range over, so it is sent whole.
+  if (!match || (match[1] === '' && match[2] === '') || size === 0) {
+    return null;
+  }
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// Writers often touch a file several times in a row; reload once they are done.
+const RELOAD_DELAY_MS = 500;
+
+// Watches the files open in one viewer and asks for a reload when one changes on disk.
+// While paused, changes are only noted and reloaded on resume.
+export class FileReloadWatcher implements vscode.Disposable {
+  private readonly watchers = new Map<string, vscode.FileSystemWatcher>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly changedWhilePaused = new Map<string, vscode.Uri>();
+  private paused = false;
+
+  constructor(
+    private readonly onReload: (fileUri: vscode.Uri) => void,
+    private readonly onChangeWhilePaused: (fileUri: vscode.Uri) => void
+  ) { }
+
+  watch(fileUri: vscode.Uri) {
+    const key = fileUri.toString();
+    if (this.watchers.has(key)) {
+      return;
+    }
+    const pattern = new vscode.RelativePattern(vscode.Uri.joinPath(fileUri, '..'), path.posix.basename(fileUri.path));
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, false, true);
+    // Some writers replace the file instead of rewriting it, which shows up as a create.
+    watcher.onDidChange(() => this.scheduleReload(fileUri));
+    watcher.onDidCreate(() => this.scheduleReload(fileUri));
+    this.watchers.set(key, watcher);
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+    if (!paused) {
+      this.changedWhilePaused.forEach((fileUri) => this.onReload(fileUri));
+      this.changedWhilePaused.clear();
+    }
+  }
+
+  dispose() {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    this.watchers.clear();
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private scheduleReload(fileUri: vscode.Uri) {
+    const key = fileUri.toString();
+    const pending = this.timers.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.timers.set(key, setTimeout(() => {
+      this.timers.delete(key);
+      if (this.paused) {
+        this.changedWhilePaused.set(key, fileUri);
+        this.onChangeWhilePaused(fileUri);
+      } else {
+        this.onReload(fileUri);
+      }
+    }, RELOAD_DELAY_MS));
+  }
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+
+export type QueryStatus = 'success' | 'error' | 'cancelled' | 'timedOut';
+
+export interface StoredHistoryEntry {
+  id: string;
+  sql: string;
+  timestamp: number;
+  durationMs: number;
+  rowCount: number;
+  status: QueryStatus;
+  error?: string;
+  // Workspace-relative path of the dataset the query ran against.
+  file?: string;
+  pinned?: boolean;
+  // Chart the webview drew for this query; the extension only stores it.
+  chart?: unknown;
+}
+
+const STATE_KEY = 'duckdb-viewer.queryHistory';
+// Unpinned entries beyond this are dropped, oldest first.
+const MAX_UNPINNED_ENTRIES = 500;
+
+// Query history persisted per workspace, newest first.
+export class QueryHistoryStore {
+  private readonly changeEmitter = new vscode.EventEmitter<StoredHistoryEntry[]>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) { }
+
+  getEntries(): StoredHistoryEntry[] {
+    return this.state.get<StoredHistoryEntry[]>(STATE_KEY, []);
+  }
+
+  // A known id updates that entry in place (e.g. when a chart is saved with it).
+  async add(entry: StoredHistoryEntry) {
+    const existing = this.getEntries();
+    const entries = existing.some((candidate) => candidate.id === entry.id)
+      ? existing.map((candidate) => (candidate.id === entry.id ? { ...entry, pinned: candidate.pinned } : candidate))
+      : [entry, ...existing];
+    let unpinned = 0;
+    await this.update(entries.filter((candidate) => candidate.pinned || ++unpinned <= MAX_UNPINNED_ENTRIES));
+  }
+
+  async setPinned(id: string, pinned: boolean) {
+    await this.update(this.getEntries().map((entry) => (entry.id === id ? { ...entry, pinned } : entry)));
+  }
+
+  // Removes every entry that is not pinned.
+  async clear() {
+    await this.update(this.getEntries().filter((entry) => entry.pinned));
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+
+  private async update(entries: StoredHistoryEntry[]) {
+    await this.state.update(STATE_KEY, entries);
+    this.changeEmitter.fire(entries);
+  }
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+
+export interface SavedQuery {
+  uri: string;
+  name: string;
+  sql: string;
+  // Workspace-relative path of the dataset the query targets.
+  dataset?: string;
+}
+
+export const SAVED_QUERIES_FOLDER = '.duckdb-viewer/queries';
+
+const HEADER_LINE = /^--\s*(name|dataset):\s*(.*)$/i;
+
+// Saved queries are plain .sql files so a team can review and share them in git:
+//
+//   -- name: Top customers
+//   -- dataset: data/orders.parquet
+//   SELECT …
+export function parseSavedQuery(text: string, fallbackName: string): Omit<SavedQuery, 'uri'> {
+  const lines = text.split(/\r?\n/);
+  let name = fallbackName;
+  let dataset: string | undefined;
+  let bodyStart = 0;
+  for (; bodyStart < lines.length; bodyStart++) {
+    const match = HEADER_LINE.exec(lines[bodyStart].trim());
+    if (!match) {
+      break;
+    }
+    if (match[1].toLowerCase() === 'name') {
+      name = match[2].trim() || fallbackName;
+    } else {
+      dataset = match[2].trim() || undefined;
+    }
+  }
+  return { name, dataset, sql: lines.slice(bodyStart).join('\n').trim() };
+}
+
+export function formatSavedQuery(query: Omit<SavedQuery, 'uri'>): string {
+  const header = [`-- name: ${query.name}`];
+  if (query.dataset) {
+    header.push(`-- dataset: ${query.dataset}`);
+  }
+  return `${header.join('\n')}\n${query.sql.trim()}\n`;
+}
+
+export async function listSavedQueries(): Promise<SavedQuery[]> {
+  const files = await vscode.workspace.findFiles(`${SAVED_QUERIES_FOLDER}/**/*.sql`, undefined, 1000);
+  const queries = await Promise.all(files.map(async (fileUri) => {
+    const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(fileUri));
+    const fallbackName = fileUri.path.split('/').pop()?.replace(/\.sql$/i, '') ?? 'query';
+    return { uri: fileUri.toString(), ...parseSavedQuery(text, fallbackName) };
+  }));
+  return queries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Writes the query into the workspace folder's saved-queries directory, named after the query.
+// Names that slug the same would share a file, so an existing one is replaced only when the
+// user says so; otherwise the query is saved next to it as "-2", "-3", …. Null when cancelled.
+export async function writeSavedQuery(
+  folder: vscode.WorkspaceFolder,
+  query: Omit<SavedQuery, 'uri'>
+): Promise<vscode.Uri | null> {
+  const slug = query.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'query';
+  const queriesUri = vscode.Uri.joinPath(folder.uri, SAVED_QUERIES_FOLDER);
+  let targetUri = vscode.Uri.joinPath(queriesUri, `${slug}.sql`);
+  if (await fileExists(targetUri)) {
+    const choice = await vscode.window.showWarningMessage(
+      `${vscode.workspace.asRelativePath(targetUri)} already exists. Replace the query saved in it?`,
+      { modal: true },
+      'Replace',
+      'Keep Both'
+    );
+    if (choice === undefined) {
+      return null;
+    }
+    if (choice === 'Keep Both') {
+      let suffix = 2;
+      while (await fileExists(targetUri)) {
+        targetUri = vscode.Uri.joinPath(queriesUri, `${slug}-${suffix++}.sql`);
+      }
+    }
+  }
+  await vscode.workspace.fs.writeFile(targetUri, new TextEncoder().encode(formatSavedQuery(query)));
+  return targetUri;
+}
+
+async function fileExists(fileUri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(fileUri);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+import { splitSqlStatements } from '../utils/sqlStatements';
+
+// Puts a "Run in DuckDB Viewer" link above each statement of a .sql file.
+export class SqlCodeLensProvider implements vscode.CodeLensProvider {
+  constructor(private readonly commandId: string) { }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    return splitSqlStatements(document.getText()).map((statement) => {
+      const range = new vscode.Range(document.positionAt(statement.start), document.positionAt(statement.end));
+      return new vscode.CodeLens(range, {
+        title: 'Run in DuckDB Viewer',
+        tooltip: 'Run this statement in an open DuckDB Data Viewer',
+        command: this.commandId,
+        arguments: [document.uri, range],
+      });
+    });
+  }
+}
@@ -0,0 +1,32 @@
+// DuckDB reads uncompressed Arrow IPC streams only, and the apache-arrow release it
+// ships with cannot decode compressed record batches. Arrow files, Feather v2 files
+// and compressed streams are therefore decoded with a newer apache-arrow and
+// re-encoded as a plain stream before they are handed to DuckDB.
+import { compressionRegistry, CompressionType, Schema, tableFromIPC, tableToIPC } from 'apache-arrow-21';
+import { decompress as decompressLz4 } from 'lz4js';
+import { decompress as decompressZstd } from 'fzstd';
+import { hasMagic } from './detectFormat';
+
+compressionRegistry.set(CompressionType.LZ4_FRAME, { decode: (data) => decompressLz4(data) });
+compressionRegistry.set(CompressionType.ZSTD, { decode: (data) => decompressZstd(data) });
+
+// Feather v1 predates the Arrow IPC format and has its own layout.
+export const FEATHER_V1_MAGIC = 'FEA1';
+
+export interface ArrowIpcData {
+  stream: Uint8Array;
+  schema: Schema;
+}
+
+export function readArrowIpc(fileBytes: Uint8Array): ArrowIpcData {
+  if (hasMagic(fileBytes, FEATHER_V1_MAGIC)) {
+    throw new Error('Feather v1 files are not supported. Re-save the file as Feather v2 (Arrow IPC), e.g. with pyarrow.feather.write_feather.');
+  }
+  const table = tableFromIPC(fileBytes);
+  return { stream: tableToIPC(table, 'stream'), schema: table.schema };
+}
+
+// Arrow keeps key/value metadata on the schema and on each field.
+export function metadataRecord(metadata: Map<string, string>): Record<string, string> | undefined {
+  return metadata.size > 0 ? Object.fromEntries(metadata) : undefined;
+}
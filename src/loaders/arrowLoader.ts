@@ -1,22 +1,37 @@
 import { DataLoader } from './types';
+import { hasMagic } from './detectFormat';
+import { FEATHER_V1_MAGIC, metadataRecord, readArrowIpc } from './arrowIpc';
 import { deriveRelationName, formatIdentifierForSql } from '../utils/sqlHelpers';
 
-const ARROW_EXTENSIONS = /\.(arrow|ipc)$/i;
+const ARROW_EXTENSIONS = /\.(arrow|ipc|feather)$/i;
+// Arrow IPC files (and Feather v2) start with "ARROW1"; streams start with a message
+// behind the 0xFFFFFFFF continuation marker. Feather v1 is recognized to explain it cannot be read.
+const ARROW_FILE_MAGIC = 'ARROW1';
+const ARROW_CONTINUATION = [0xff, 0xff, 0xff, 0xff];
 
 export const arrowLoader: DataLoader = {
   id: 'arrow',
   canLoad(fileName: string) {
     return ARROW_EXTENSIONS.test(fileName);
   },
+  sniff(fileBytes) {
+    return [ARROW_FILE_MAGIC, ARROW_CONTINUATION, FEATHER_V1_MAGIC].some((magic) => hasMagic(fileBytes, magic))
+      ? 'certain'
+      : 'no';
+  },
   async load(fileName, fileBytes, context) {
     const { connection, updateStatus } = context;
 
-    const relationName = deriveRelationName(fileName);
+    const relationName = context.relationName ?? deriveRelationName(fileName);
     const relationIdentifier = formatIdentifierForSql(relationName);
 
+    updateStatus('Decoding Arrow IPC data…');
+    // Arrow files are decoded whole, so a streamed one is fetched in full first.
+    const { stream, schema: arrowSchema } = readArrowIpc(await context.readFile());
+
     updateStatus('Loading Arrow IPC data…');
     await connection.query(`DROP TABLE IF EXISTS ${relationIdentifier};`);
-    await connection.insertArrowFromIPCStream(fileBytes, {
+    await connection.insertArrowFromIPCStream(stream, {
       name: relationName,
       create: true,
     });
@@ -27,10 +42,16 @@ export const arrowLoader: DataLoader = {
     const columns = infoRows
       .map((row: any) => row.name)
       .filter((name: any): name is string => typeof name === 'string' && name.length > 0);
+    const fieldMetadata = new Map(arrowSchema.fields.map((field) => [field.name, metadataRecord(field.metadata)]));
     const schema = infoRows.map((row: any) => {
       const name = typeof row.name === 'string' ? row.name : 'column';
       const typeValue = typeof row.type === 'string' ? row.type : 'unknown';
-      return { name, type: typeValue };
+      return {
+        name,
+        type: typeValue,
+        nullable: typeof row.notnull === 'boolean' ? !row.notnull : undefined,
+        metadata: fieldMetadata.get(name),
+      };
     });
 
     if (columns.length === 0) {
@@ -42,6 +63,7 @@ export const arrowLoader: DataLoader = {
       relationIdentifier,
       columns,
       schema,
+      metadata: metadataRecord(arrowSchema.metadata),
     };
   },
 };
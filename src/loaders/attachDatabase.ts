@@ -0,0 +1,78 @@
+import { LoadedRelation, LoaderContext, LoadResult } from './types';
+import { describeColumns } from './describe';
+import { deriveRelationName, formatIdentifierForSql, formatStringForSql } from '../utils/sqlHelpers';
+
+// Catalog names DuckDB reserves for itself; an attached file may not reuse them.
+const RESERVED_CATALOGS = new Set(['memory', 'main', 'temp', 'system']);
+
+export interface AttachOptions {
+  // Human readable name of the database flavour, used in status messages.
+  label: string;
+  // Extra ATTACH options, e.g. `TYPE sqlite`. READ_ONLY is always added.
+  attachOptions?: string[];
+  // Report the schema of each relation so the picker can group them.
+  includeSchemaNames?: boolean;
+}
+
+// Attaches a registered database file read-only and describes every table and view in it.
+export async function attachDatabaseFile(
+  fileName: string,
+  context: LoaderContext,
+  options: AttachOptions
+): Promise<LoadResult> {
+  const { connection, updateStatus } = context;
+
+  updateStatus(`Registering ${options.label} database…`);
+  await context.registerFile(fileName);
+
+  let catalogName = context.relationName ?? deriveRelationName(fileName);
+  if (RESERVED_CATALOGS.has(catalogName.toLowerCase())) {
+    catalogName = `${catalogName}_db`;
+  }
+  const catalogIdentifier = formatIdentifierForSql(catalogName);
+  const attachOptions = [...(options.attachOptions ?? []), 'READ_ONLY'].join(', ');
+
+  updateStatus(`Attaching '${catalogName}'…`);
+  await connection.query(`DETACH DATABASE IF EXISTS ${catalogIdentifier};`);
+  await connection.query(
+    `ATTACH ${formatStringForSql(fileName)} AS ${catalogIdentifier} (${attachOptions});`
+  );
+
+  updateStatus(`Listing ${options.label} tables and views…`);
+  const tablesResult = await connection.query(`
+    SELECT table_schema, table_name, table_type
+    FROM information_schema.tables
+    WHERE table_catalog = ${formatStringForSql(catalogName)}
+    ORDER BY table_schema, table_name;
+  `);
+
+  const relations: LoadedRelation[] = [];
+  for (const row of tablesResult.toArray() as any[]) {
+    if (typeof row.table_name !== 'string' || !row.table_name) {
+      continue;
+    }
+    const schemaName = typeof row.table_schema === 'string' ? row.table_schema : 'main';
+    const relationIdentifier = [catalogName, schemaName, row.table_name]
+      .map(formatIdentifierForSql)
+      .join('.');
+    updateStatus(`Inspecting '${schemaName}.${row.table_name}'…`);
+    const { columns, schema } = await describeColumns(connection, `DESCRIBE ${relationIdentifier};`);
+    relations.push({
+      relationName: row.table_name,
+      relationIdentifier,
+      columns,
+      schema,
+      kind: row.table_type === 'VIEW' ? 'view' : 'table',
+      schemaName: options.includeSchemaNames ? schemaName : undefined,
+    });
+  }
+
+  if (relations.length === 0) {
+    throw new Error(`No tables or views were found in this ${options.label} database.`);
+  }
+
+  return {
+    ...relations[0],
+    relations,
+  };
+}
@@ -1,59 +1,63 @@
-import { DataLoader } from './types';
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { DataLoader, LoadResult } from './types';
+import { describeColumns } from './describe';
+import { buildReadCsvCall, CsvImportOptions } from './csvOptions';
+import { looksLikeText } from './detectFormat';
 import { deriveRelationName, formatIdentifierForSql } from '../utils/sqlHelpers';
 
-const CSV_EXTENSIONS = /\.csv$/i;
+// Delimited text, optionally gzip or zstd compressed: data.csv, data.tsv.gz, data.psv.zst, …
+const CSV_EXTENSIONS = /\.(csv|tsv|psv|txt)(\.(gz|zst))?$/i;
 
 export const csvLoader: DataLoader = {
   id: 'csv',
   canLoad(fileName: string) {
     return CSV_EXTENSIONS.test(fileName);
   },
+  // Any text could be delimited; JSON is recognized by its own loader first.
+  sniff(fileBytes) {
+    return looksLikeText(fileBytes) ? 'possible' : 'no';
+  },
   async load(fileName, fileBytes, context) {
-    const { db, connection, updateStatus } = context;
+    const { connection, updateStatus } = context;
 
     updateStatus('Registering CSV file…');
-    await db.registerFileBuffer(fileName, fileBytes);
-
-    const escapedFileName = fileName.replace(/'/g, "''");
-    const describeQuery = `DESCRIBE SELECT * FROM read_csv('${escapedFileName}', header=true);`;
-    updateStatus('Inspecting CSV columns…');
-    const describeResult = await connection.query(describeQuery);
-    const describeRows = describeResult.toArray();
-    const columns = describeRows
-      .map((row: any) => row.column_name)
-      .filter((name: any): name is string => typeof name === 'string' && name.length > 0);
-    const schema = describeRows.map((row: any) => {
-      const name = typeof row.column_name === 'string' ? row.column_name : 'column';
-      const typeValue =
-        typeof row.column_type === 'string'
-          ? row.column_type
-          : typeof row.column_type === 'number'
-            ? String(row.column_type)
-            : typeof row.type === 'string'
-              ? row.type
-              : 'unknown';
-      return { name, type: typeValue };
-    });
-
-    if (columns.length === 0) {
-      throw new Error('No columns were detected in this CSV file.');
-    }
-
-    const relationName = deriveRelationName(fileName);
-    const relationIdentifier = formatIdentifierForSql(relationName);
-
-    updateStatus(`Creating '${relationName}' view…`);
-    const createViewQuery = `
-      CREATE OR REPLACE TEMP VIEW ${relationIdentifier} AS 
-      SELECT * FROM read_csv('${escapedFileName}', header=true);
-    `;
-    await connection.query(createViewQuery);
-
-    return {
-      relationName,
-      relationIdentifier,
-      columns,
-      schema,
-    };
+    await context.registerFile(fileName);
+
+    const relationName = context.relationName ?? deriveRelationName(fileName);
+    return createCsvView(connection, fileName, relationName, context.csvOptions, updateStatus);
   },
 };
+
+// (Re)creates the view over an already registered CSV file, e.g. after the import options change.
+// The existing view is only replaced once the file reads with the new options.
+export async function createCsvView(
+  connection: duckdb.AsyncDuckDBConnection,
+  fileName: string,
+  relationName: string,
+  options: CsvImportOptions | undefined,
+  updateStatus: (message: string) => void
+): Promise<LoadResult> {
+  const readCsv = buildReadCsvCall(fileName, options);
+  updateStatus('Inspecting CSV columns…');
+  const { columns, schema } = await describeColumns(connection, `DESCRIBE SELECT * FROM ${readCsv};`);
+
+  if (columns.length === 0) {
+    throw new Error('No columns were detected in this CSV file.');
+  }
+
+  const relationIdentifier = formatIdentifierForSql(relationName);
+
+  updateStatus(`Creating '${relationName}' view…`);
+  const createViewQuery = `
+    CREATE OR REPLACE VIEW ${relationIdentifier} AS
+    SELECT * FROM ${readCsv};
+  `;
+  await connection.query(createViewQuery);
+
+  return {
+    relationName,
+    relationIdentifier,
+    columns,
+    schema,
+  };
+}
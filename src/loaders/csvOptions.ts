@@ -0,0 +1,115 @@
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { detectCompression, formatStringForSql, stripCompressionSuffix } from '../utils/sqlHelpers';
+
+// Options passed to read_csv. Anything left undefined is sniffed by DuckDB,
+// except `header`, which defaults to true, and the delimiter of .tsv and .psv files.
+export interface CsvImportOptions {
+  delimiter?: string;
+  header?: boolean;
+  quote?: string;
+  escape?: string;
+  skipRows?: number;
+  decimalSeparator?: string;
+  dateFormat?: string;
+  timestampFormat?: string;
+  encoding?: string;
+  // Column name to DuckDB type, e.g. { zip: 'VARCHAR' }.
+  columnTypes?: Record<string, string>;
+  ignoreErrors?: boolean;
+  sampleSize?: number;
+}
+
+// What DuckDB's sniffer settled on, shown next to the options left on auto.
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+  escape: string;
+  skipRows: number;
+  header: boolean;
+  dateFormat: string | null;
+  timestampFormat: string | null;
+}
+
+export const CSV_ENCODINGS = ['utf-8', 'utf-16', 'latin-1'];
+
+const EXTENSION_DELIMITERS: Record<string, string> = { tsv: '\t', psv: '|' };
+
+// The delimiter implied by the file extension (ignoring .gz / .zst), if any.
+function delimiterForFileName(fileName: string): string | undefined {
+  const extension = /\.([^./\\]+)$/.exec(stripCompressionSuffix(fileName))?.[1].toLowerCase();
+  return extension ? EXTENSION_DELIMITERS[extension] : undefined;
+}
+
+export function buildReadCsvCall(fileName: string, options: CsvImportOptions = {}): string {
+  return `read_csv(${buildCsvArguments(fileName, options).join(', ')})`;
+}
+
+// Runs DuckDB's CSV sniffer with the same options, to show what it detected for the rest.
+export async function sniffCsv(
+  connection: duckdb.AsyncDuckDBConnection,
+  fileName: string,
+  options: CsvImportOptions = {}
+): Promise<CsvDialect | null> {
+  const result = await connection.query(`SELECT * FROM sniff_csv(${buildCsvArguments(fileName, options).join(', ')});`);
+  const row = result.toArray()[0]?.toJSON();
+  if (!row) {
+    return null;
+  }
+  // The sniffer reports unset characters as "(empty)".
+  const character = (value: unknown) => (typeof value === 'string' && value !== '(empty)' ? value : '');
+  return {
+    delimiter: character(row.Delimiter),
+    quote: character(row.Quote),
+    escape: character(row.Escape),
+    skipRows: Number(row.SkipRows ?? 0),
+    header: Boolean(row.HasHeader),
+    dateFormat: typeof row.DateFormat === 'string' ? row.DateFormat : null,
+    timestampFormat: typeof row.TimestampFormat === 'string' ? row.TimestampFormat : null,
+  };
+}
+
+function buildCsvArguments(fileName: string, options: CsvImportOptions): string[] {
+  const args = [formatStringForSql(fileName), `header=${options.header ?? true}`];
+  const delimiter = options.delimiter || delimiterForFileName(fileName);
+  if (delimiter) {
+    args.push(`delim=${formatStringForSql(delimiter)}`);
+  }
+  const compression = detectCompression(fileName);
+  if (compression) {
+    args.push(`compression='${compression}'`);
+  }
+  if (options.quote !== undefined) {
+    args.push(`quote=${formatStringForSql(options.quote)}`);
+  }
+  if (options.escape !== undefined) {
+    args.push(`escape=${formatStringForSql(options.escape)}`);
+  }
+  if (options.skipRows !== undefined) {
+    args.push(`skip=${Math.max(0, Math.floor(options.skipRows))}`);
+  }
+  if (options.decimalSeparator) {
+    args.push(`decimal_separator=${formatStringForSql(options.decimalSeparator)}`);
+  }
+  if (options.dateFormat) {
+    args.push(`dateformat=${formatStringForSql(options.dateFormat)}`);
+  }
+  if (options.timestampFormat) {
+    args.push(`timestampformat=${formatStringForSql(options.timestampFormat)}`);
+  }
+  if (options.encoding) {
+    args.push(`encoding=${formatStringForSql(options.encoding)}`);
+  }
+  const columnTypes = Object.entries(options.columnTypes ?? {}).filter(([, type]) => type.trim());
+  if (columnTypes.length > 0) {
+    // Types are spliced in as written so that parameterized ones like DECIMAL(10, 2) work.
+    const entries = columnTypes.map(([name, type]) => `${formatStringForSql(name)}: ${formatStringForSql(type.trim())}`);
+    args.push(`types={${entries.join(', ')}}`);
+  }
+  if (options.ignoreErrors) {
+    args.push('ignore_errors=true');
+  }
+  if (options.sampleSize !== undefined) {
+    args.push(`sample_size=${Math.floor(options.sampleSize)}`);
+  }
+  return args;
+}
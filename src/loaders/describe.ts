@@ -0,0 +1,28 @@
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { ColumnSchema } from './types';
+
+// Runs a DESCRIBE statement and maps its rows to column names, DuckDB types and nullability.
+export async function describeColumns(
+  connection: duckdb.AsyncDuckDBConnection,
+  describeQuery: string
+): Promise<{ columns: string[]; schema: ColumnSchema[] }> {
+  const describeResult = await connection.query(describeQuery);
+  const describeRows = describeResult.toArray();
+  const columns = describeRows
+    .map((row: any) => row.column_name)
+    .filter((name: any): name is string => typeof name === 'string' && name.length > 0);
+  const schema = describeRows.map((row: any) => {
+    const name = typeof row.column_name === 'string' ? row.column_name : 'column';
+    const typeValue =
+      typeof row.column_type === 'string'
+        ? row.column_type
+        : typeof row.column_type === 'number'
+          ? String(row.column_type)
+          : typeof row.type === 'string'
+            ? row.type
+            : 'unknown';
+    const nullable = row.null === 'YES' ? true : row.null === 'NO' ? false : undefined;
+    return { name, type: typeValue, nullable };
+  });
+  return { columns, schema };
+}
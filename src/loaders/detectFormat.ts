@@ -0,0 +1,125 @@
+import { DataLoader, SniffResult } from './types';
+import { detectCompression } from '../utils/sqlHelpers';
+
+// Enough decompressed bytes to recognize text formats inside a .gz file,
+// and more than enough compressed input to produce them.
+const DECOMPRESSED_SNIFF_BYTES = 64 * 1024;
+const COMPRESSED_SNIFF_BYTES = 1024 * 1024;
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+export interface FormatDetection {
+  // Null when the content does not settle it and the user should choose.
+  loader: DataLoader | null;
+  // Loaders worth offering, most likely first.
+  candidates: DataLoader[];
+  // Compression found in the bytes themselves.
+  compression?: 'gzip' | 'zstd';
+}
+
+// True when `bytes` holds `magic` (a string of ASCII or a list of bytes) at `offset`.
+export function hasMagic(bytes: Uint8Array, magic: string | number[], offset = 0): boolean {
+  const expected = typeof magic === 'string' ? Array.from(magic, (char) => char.charCodeAt(0)) : magic;
+  if (bytes.length < offset + expected.length) {
+    return false;
+  }
+  return expected.every((byte, index) => bytes[offset + index] === byte);
+}
+
+// Text has no NUL bytes and decodes as UTF-8 (a character cut off at the end is fine).
+export function looksLikeText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, DECOMPRESSED_SNIFF_BYTES);
+  if (sample.length === 0 || sample.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample.subarray(0, lastCompleteCharacter(sample)));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Picks a loader from the file's content first and its name second.
+// A format recognized by its magic bytes wins over the extension. When no sniffer
+// recognizes the content at all, e.g. a latin-1 or UTF-16 CSV that is not UTF-8
+// text, the extension decides; when neither settles it, the caller asks the user.
+export async function detectFormat(
+  loaders: DataLoader[],
+  fileName: string,
+  fileBytes: Uint8Array
+): Promise<FormatDetection> {
+  const compression = hasMagic(fileBytes, GZIP_MAGIC)
+    ? 'gzip'
+    : hasMagic(fileBytes, ZSTD_MAGIC) ? 'zstd' : undefined;
+  // zstd cannot be decompressed here, so only the name can say what is inside.
+  const content = compression === 'gzip'
+    ? await decompressPrefix(fileBytes)
+    : compression ? null : fileBytes;
+
+  const results = loaders.map((loader): { loader: DataLoader; match: SniffResult } => ({
+    loader,
+    match: content ? loader.sniff(content) : 'possible',
+  }));
+
+  const certain = results.find((result) => result.match === 'certain');
+  const byName = results.find((result) => result.match !== 'no' && result.loader.canLoad(fileName));
+  const possible = results.filter((result) => result.match !== 'no');
+  const loader = certain?.loader
+    ?? byName?.loader
+    ?? (possible.length === 1 ? possible[0].loader : null)
+    ?? (possible.length === 0 ? loaders.find((candidate) => candidate.canLoad(fileName)) : null)
+    ?? null;
+
+  const candidates = possible.length > 0 ? possible.map((result) => result.loader) : loaders;
+  return { loader, candidates, compression };
+}
+
+// Loaders pick the compression from the file name, so a compressed file named
+// without .gz / .zst is registered under a name that has it.
+export function withCompressionSuffix(fileName: string, compression: 'gzip' | 'zstd' | undefined): string {
+  if (!compression || detectCompression(fileName)) {
+    return fileName;
+  }
+  return `${fileName}${compression === 'gzip' ? '.gz' : '.zst'}`;
+}
+
+async function decompressPrefix(fileBytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([fileBytes.slice(0, COMPRESSED_SNIFF_BYTES)]).stream().pipeThrough(new DecompressionStream('gzip'));
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    while (length < DECOMPRESSED_SNIFF_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      length += value.length;
+    }
+    await reader.cancel();
+    const prefix = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      prefix.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return prefix;
+  } catch {
+    return null;
+  }
+}
+
+// Length of `bytes` without a trailing, incomplete UTF-8 sequence.
+function lastCompleteCharacter(bytes: Uint8Array): number {
+  let start = bytes.length - 1;
+  // Step back over continuation bytes (10xxxxxx) to the lead byte of the last character.
+  while (start > 0 && bytes.length - start < 4 && (bytes[start] & 0xc0) === 0x80) {
+    start--;
+  }
+  const lead = bytes[start];
+  const expected = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return bytes.length - start < expected ? start : bytes.length;
+}
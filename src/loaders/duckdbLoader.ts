@@ -0,0 +1,24 @@
+import { DataLoader } from './types';
+import { attachDatabaseFile } from './attachDatabase';
+import { hasMagic } from './detectFormat';
+
+const DUCKDB_EXTENSIONS = /\.(duckdb|ddb)$/i;
+// The main header follows an 8-byte checksum.
+const DUCKDB_MAGIC = 'DUCK';
+const DUCKDB_MAGIC_OFFSET = 8;
+
+export const duckdbLoader: DataLoader = {
+  id: 'duckdb',
+  canLoad(fileName: string) {
+    return DUCKDB_EXTENSIONS.test(fileName);
+  },
+  sniff(fileBytes) {
+    return hasMagic(fileBytes, DUCKDB_MAGIC, DUCKDB_MAGIC_OFFSET) ? 'certain' : 'no';
+  },
+  async load(fileName, fileBytes, context) {
+    return attachDatabaseFile(fileName, context, {
+      label: 'DuckDB',
+      includeSchemaNames: true,
+    });
+  },
+};
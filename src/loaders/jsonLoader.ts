@@ -0,0 +1,106 @@
+import { DataLoader, SniffResult } from './types';
+import { describeColumns } from './describe';
+import { looksLikeText } from './detectFormat';
+import { deriveRelationName, detectCompression, formatIdentifierForSql, formatStringForSql } from '../utils/sqlHelpers';
+
+const JSON_EXTENSIONS = /\.(json|jsonl|ndjson)(\.(gz|zst))?$/i;
+const NEWLINE_DELIMITED_EXTENSIONS = /\.(jsonl|ndjson)(\.(gz|zst))?$/i;
+
+// Enough bytes to see the opening token and the first couple of records.
+const SNIFF_BYTES = 64 * 1024;
+
+type JsonLayout = 'array' | 'newline_delimited' | 'auto';
+
+export const jsonLoader: DataLoader = {
+  id: 'json',
+  canLoad(fileName: string) {
+    return JSON_EXTENSIONS.test(fileName);
+  },
+  sniff(fileBytes) {
+    if (!looksLikeText(fileBytes)) {
+      return 'no';
+    }
+    return jsonStart(fileBytes);
+  },
+  async load(fileName, fileBytes, context) {
+    const { connection, updateStatus } = context;
+
+    const layout = detectJsonLayout(fileName, fileBytes);
+
+    updateStatus('Registering JSON file…');
+    await context.registerFile(fileName);
+
+    const compression = detectCompression(fileName);
+    const compressionArgument = compression ? `, compression='${compression}'` : '';
+    const readExpression = `read_json_auto(${formatStringForSql(fileName)}, format='${layout}'${compressionArgument})`;
+    updateStatus(layout === 'array' ? 'Inspecting JSON array…' : 'Inspecting JSON records…');
+    const { columns, schema } = await describeColumns(connection, `DESCRIBE SELECT * FROM ${readExpression};`);
+
+    if (columns.length === 0) {
+      throw new Error('No columns were detected in this JSON file.');
+    }
+
+    const relationName = context.relationName ?? deriveRelationName(fileName);
+    const relationIdentifier = formatIdentifierForSql(relationName);
+
+    updateStatus(`Creating '${relationName}' view…`);
+    const createViewQuery = `
+      CREATE OR REPLACE VIEW ${relationIdentifier} AS 
+      SELECT * FROM ${readExpression};
+    `;
+    await connection.query(createViewQuery);
+
+    // DESCRIBE already spells nested columns as STRUCT(...) and LIST types (T[]),
+    // so the schema carries the full nested structure.
+    return {
+      relationName,
+      relationIdentifier,
+      columns,
+      schema,
+    };
+  },
+};
+
+// Records and arrays open with a bracket; an object opening with a key or an
+// array opening with a value is JSON, any other bracket might be text.
+function jsonStart(fileBytes: Uint8Array): SniffResult {
+  const text = new TextDecoder().decode(fileBytes.subarray(0, 1024)).replace(/^\uFEFF/, '');
+  const start = /^\s*([[{])\s*(\S)?/.exec(text);
+  if (!start) {
+    return 'no';
+  }
+  const opensValue = start[1] === '{' ? /["}]/ : /[[{"\]\-0-9tfn]/;
+  return start[2] === undefined || opensValue.test(start[2]) ? 'certain' : 'possible';
+}
+
+// A top-level '[' means an array of objects. Otherwise one complete JSON value
+// per line means newline-delimited records; anything else is left to DuckDB.
+function detectJsonLayout(fileName: string, fileBytes: Uint8Array): JsonLayout {
+  if (NEWLINE_DELIMITED_EXTENSIONS.test(fileName)) {
+    return 'newline_delimited';
+  }
+  // Compressed bytes cannot be peeked at here.
+  if (detectCompression(fileName)) {
+    return 'auto';
+  }
+
+  const text = new TextDecoder().decode(fileBytes.subarray(0, SNIFF_BYTES));
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[')) {
+    return 'array';
+  }
+  if (!trimmed.startsWith('{')) {
+    return 'auto';
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    return 'auto';
+  }
+  try {
+    JSON.parse(lines[0]);
+    return 'newline_delimited';
+  } catch {
+    return 'auto';
+  }
+}
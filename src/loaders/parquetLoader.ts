@@ -1,4 +1,6 @@
 import { DataLoader } from './types';
+import { describeColumns } from './describe';
+import { hasMagic } from './detectFormat';
 import { deriveRelationName, formatIdentifierForSql } from '../utils/sqlHelpers';
 
 // 1. Define Parquet file extensions
@@ -10,12 +12,15 @@ export const parquetLoader: DataLoader = {
     // 2. Check against Parquet extensions
     return PARQUET_EXTENSIONS.test(fileName);
   },
+  sniff(fileBytes) {
+    return hasMagic(fileBytes, 'PAR1') ? 'certain' : 'no';
+  },
   async load(fileName, fileBytes, context) {
-    const { db, connection, updateStatus } = context;
+    const { connection, updateStatus } = context;
 
     updateStatus('Registering Parquet file…');
-    // 3. Register the file buffer just like the CSV loader
-    await db.registerFileBuffer(fileName, fileBytes);
+    // 3. Register the file just like the CSV loader; streamed, only the footer and the row groups a query needs are read
+    await context.registerFile(fileName);
 
     // 4. Escape the file name for use in SQL
     const escapedFileName = fileName.replace(/'/g, "''");
@@ -24,38 +29,22 @@ export const parquetLoader: DataLoader = {
     // Parquet files are self-describing, so no 'header=true' is needed.
     const describeQuery = `DESCRIBE SELECT * FROM read_parquet('${escapedFileName}');`;
     updateStatus('Inspecting Parquet schema…');
-    const describeResult = await connection.query(describeQuery);
-    const describeRows = describeResult.toArray();
-    
-    // 6. Get the column names from the describe result
-    const columns = describeRows
-      .map((row: any) => row.column_name)
-      .filter((name: any): name is string => typeof name === 'string' && name.length > 0);
-    const schema = describeRows.map((row: any) => {
-      const name = typeof row.column_name === 'string' ? row.column_name : 'column';
-      const typeValue =
-        typeof row.column_type === 'string'
-          ? row.column_type
-          : typeof row.column_type === 'number'
-            ? String(row.column_type)
-            : typeof row.type === 'string'
-              ? row.type
-              : 'unknown';
-      return { name, type: typeValue };
-    });
+
+    // 6. Get the column names and types from the describe result
+    const { columns, schema } = await describeColumns(connection, describeQuery);
 
     if (columns.length === 0) {
       throw new Error('No columns were detected in this Parquet file.');
     }
 
     // 7. Derive the name for the view
-    const relationName = deriveRelationName(fileName);
+    const relationName = context.relationName ?? deriveRelationName(fileName);
     const relationIdentifier = formatIdentifierForSql(relationName);
 
     // 8. Create the temporary view using 'read_parquet'
     updateStatus(`Creating '${relationName}' view…`);
     const createViewQuery = `
-      CREATE OR REPLACE TEMP VIEW ${relationIdentifier} AS 
+      CREATE OR REPLACE VIEW ${relationIdentifier} AS 
       SELECT * FROM read_parquet('${escapedFileName}');
     `;
     await connection.query(createViewQuery);
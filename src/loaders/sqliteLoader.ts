@@ -0,0 +1,22 @@
+import { DataLoader } from './types';
+import { attachDatabaseFile } from './attachDatabase';
+import { hasMagic } from './detectFormat';
+
+const SQLITE_EXTENSIONS = /\.(sqlite|sqlite3|db)$/i;
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+
+export const sqliteLoader: DataLoader = {
+  id: 'sqlite',
+  canLoad(fileName: string) {
+    return SQLITE_EXTENSIONS.test(fileName);
+  },
+  sniff(fileBytes) {
+    return hasMagic(fileBytes, SQLITE_HEADER) ? 'certain' : 'no';
+  },
+  async load(fileName, fileBytes, context) {
+    return attachDatabaseFile(fileName, context, {
+      label: 'SQLite',
+      attachOptions: ['TYPE sqlite'],
+    });
+  },
+};
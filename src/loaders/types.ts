@@ -1,21 +1,57 @@
 import * as duckdb from '@duckdb/duckdb-wasm';
+import { CsvImportOptions } from './csvOptions';
 
 export interface LoaderContext {
   db: duckdb.AsyncDuckDB;
   connection: duckdb.AsyncDuckDBConnection;
   updateStatus: (message: string) => void;
+  // Name to register the relation (or attached catalog) under instead of the
+  // one derived from the file name; set when the derived name is already taken.
+  relationName?: string;
+  // read_csv options remembered for this file; only the CSV loader reads them.
+  csvOptions?: CsvImportOptions;
+  // Registers the file with DuckDB under `fileName`: its bytes, or for a large file
+  // the URL DuckDB reads byte ranges from.
+  registerFile: (fileName: string) => Promise<void>;
+  // The whole file, fetched from the extension when only its head was sent.
+  readFile: () => Promise<Uint8Array>;
 }
 
-export interface LoadResult {
+export interface ColumnSchema {
+  name: string;
+  type: string;
+  // Undefined when the source does not say.
+  nullable?: boolean;
+  // Key/value metadata the source attaches to the column (Arrow field metadata).
+  metadata?: Record<string, string>;
+}
+
+export interface LoadedRelation {
   relationName: string;
   relationIdentifier: string;
   columns: string[];
-  schema: { name: string; type: string }[];
+  schema: ColumnSchema[];
+  kind?: 'table' | 'view';
+  schemaName?: string;
+  // Key/value metadata of the whole relation (Arrow schema metadata).
+  metadata?: Record<string, string>;
 }
 
+// The top-level fields describe the relation opened by default. Loaders for
+// multi-relation sources (databases) also list every relation they exposed.
+export interface LoadResult extends LoadedRelation {
+  relations?: LoadedRelation[];
+}
+
+// How sure a loader is, from the first bytes of a file, that it can read it.
+export type SniffResult = 'certain' | 'possible' | 'no';
+
 export interface DataLoader {
   id: string;
   canLoad: (fileName: string) => boolean;
+  sniff: (fileBytes: Uint8Array) => SniffResult;
+  // `fileBytes` is the whole file, or only its head when the file is streamed;
+  // register the file through the context rather than from these bytes.
   load: (
     fileName: string,
     fileBytes: Uint8Array,
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { tableFromArrays } from 'apache-arrow';
+import { buildChartData } from '../utils/chartData';
+
+suite('chartData', () => {
+  const table = tableFromArrays({
+    region: ['north', 'south', 'north', 'south', 'north'],
+    product: ['a', 'a', 'b', 'b', 'a'],
+    sales: Float64Array.from([1, 2, 3, 4, 5]),
+    units: Float64Array.from([10, 20, 30, 40, 50]),
+  });
+
+  test('repeated X values are summed per Y column', () => {
+    const data = buildChartData(table, { type: 'bar', x: 'region', y: ['sales', 'units'] });
+    assert.strictEqual(data.xKind, 'categorical');
+    assert.deepStrictEqual(data.series, [
+      { name: 'sales', points: [{ x: 'north', y: 9 }, { x: 'south', y: 6 }] },
+      { name: 'units', points: [{ x: 'north', y: 90 }, { x: 'south', y: 60 }] },
+    ]);
+  });
+
+  test('without Y columns bars count rows, one series per series value', () => {
+    const data = buildChartData(table, { type: 'bar', x: 'region', y: [], series: 'product' });
+    assert.deepStrictEqual(data.series, [
+      { name: 'a', points: [{ x: 'north', y: 2 }, { x: 'south', y: 1 }] },
+      { name: 'b', points: [{ x: 'north', y: 1 }, { x: 'south', y: 1 }] },
+    ]);
+  });
+
+  test('numeric X values are sorted and scatter plots keep every point', () => {
+    const line = buildChartData(table, { type: 'line', x: 'units', y: ['sales'] });
+    assert.deepStrictEqual(line.series[0].points.map((point) => point.x), [10, 20, 30, 40, 50]);
+    const scatter = buildChartData(table, { type: 'scatter', x: 'sales', y: ['units'], series: 'region' });
+    assert.deepStrictEqual(scatter.series.map((series) => [series.name, series.points.length]), [['north', 3], ['south', 2]]);
+  });
+
+  test('histograms count values in equal-width bins', () => {
+    const data = buildChartData(table, { type: 'histogram', x: 'sales', y: [] });
+    const bins = data.bins ?? [];
+    assert.strictEqual(bins.length, 20);
+    assert.deepStrictEqual([bins[0].lower, bins[19].upper], [1, 5]);
+    assert.strictEqual(bins.reduce((total, bin) => total + bin.count, 0), 5);
+    assert.strictEqual(bins[19].count, 1);
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import {
+  buildComparisonCountsSql,
+  buildComparisonSql,
+  buildKeyCandidatesSql,
+  commonColumns,
+  compareSchemas,
+  suggestKeyColumns,
+  uniqueColumns,
+} from '../utils/compareSql';
+
+suite('compareSql', () => {
+  const left = [{ name: 'id', type: 'INTEGER' }, { name: 'price', type: 'INTEGER' }, { name: 'old', type: 'VARCHAR' }];
+  const right = [{ name: 'id', type: 'INTEGER' }, { name: 'price', type: 'DOUBLE' }, { name: 'new', type: 'DATE' }];
+
+  test('schema differences list removed, retyped and added columns', () => {
+    assert.deepStrictEqual(compareSchemas(left, right), [
+      { column: 'price', change: 'typeChanged', leftType: 'INTEGER', rightType: 'DOUBLE' },
+      { column: 'old', change: 'removed', leftType: 'VARCHAR' },
+      { column: 'new', change: 'added', rightType: 'DATE' },
+    ]);
+    assert.deepStrictEqual(commonColumns(left, right), ['id', 'price']);
+  });
+
+  test('with keys, rows are joined on them and retyped columns compare as text', () => {
+    const sql = buildComparisonSql({ left: 'a', right: 'b', leftSchema: left, rightSchema: right, keyColumns: ['id'] });
+    assert.ok(sql.includes('FULL OUTER JOIN (SELECT id, price, true AS __present FROM b) r ON l.id IS NOT DISTINCT FROM r.id'));
+    assert.ok(sql.includes('l.price::VARCHAR IS DISTINCT FROM r.price::VARCHAR'));
+    assert.ok(!sql.includes('EXCEPT ALL'));
+  });
+
+  test('without keys, rows are matched on all their values', () => {
+    const plan = { left: 'a', right: 'b', leftSchema: left, rightSchema: right, keyColumns: [] };
+    const sql = buildComparisonSql(plan);
+    assert.ok(sql.includes('SELECT id, price::VARCHAR AS price FROM a EXCEPT ALL SELECT id, price::VARCHAR AS price FROM b'));
+    assert.ok(sql.includes('SELECT id, price::VARCHAR AS price FROM b EXCEPT ALL SELECT id, price::VARCHAR AS price FROM a'));
+    // Unchanged rows are not in the comparison, so they are counted from the left side.
+    assert.ok(buildComparisonCountsSql(plan, '(cmp)').includes('(SELECT COUNT(*) FROM a) - (SELECT COUNT(*) FROM (cmp) WHERE _change = \'removed\')'));
+  });
+
+  test('key candidates are columns with as many distinct values as rows', () => {
+    assert.strictEqual(
+      buildKeyCandidatesSql('a', ['id', 'name']),
+      'SELECT COUNT(*) AS n, COUNT(DISTINCT id) AS d0, COUNT(id) AS v0, COUNT(DISTINCT name) AS d1, COUNT(name) AS v1 FROM a'
+    );
+    // "name" has a NULL, so it is not a key even though its values are distinct.
+    assert.deepStrictEqual(uniqueColumns(['id', 'name'], { n: 3, d0: 3, v0: 3, d1: 2, v1: 2 }), ['id']);
+  });
+
+  test('key-like names are suggested first', () => {
+    assert.deepStrictEqual(suggestKeyColumns(['name', 'customer_id', 'ID']), ['ID']);
+    assert.deepStrictEqual(suggestKeyColumns(['name', 'orderId']), ['orderId']);
+    assert.deepStrictEqual(suggestKeyColumns(['name']), ['name']);
+    assert.deepStrictEqual(suggestKeyColumns([]), []);
+  });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import {
+  applyCsvEdit,
+  deleteColumnEdit,
+  deleteRowsEdit,
+  insertColumnEdit,
+  insertRowEdit,
+  invertCsvEdit,
+  newColumnName,
+  rebaseCsvEdit,
+  setCellEdit,
+} from '../utils/csvEdits';
+import { detectCsvTextFormat, parseCsvText, serializeCsvText } from '../utils/csvText';
+
+suite('csvEdits', () => {
+  test('each edit is undone by its inverse', () => {
+    const text = 'a,b\n1,2\n3,4\n';
+    const format = detectCsvTextFormat(text, 'data.csv');
+    const table = parseCsvText(text, format);
+    const edits = [
+      setCellEdit(table, 0, 1, 'x'),
+      insertRowEdit(table, 1),
+      deleteRowsEdit(table, 0),
+      insertColumnEdit(table, 2, newColumnName(table)),
+      deleteColumnEdit(table, 0),
+    ];
+    edits.forEach((edit) => {
+      applyCsvEdit(table, edit);
+      applyCsvEdit(table, invertCsvEdit(edit));
+      assert.strictEqual(serializeCsvText(table, format), text);
+    });
+  });
+
+  test('a new column keeps short rows and blank lines as they were', () => {
+    const text = 'a,b\n1\n\n3,4\n';
+    const format = detectCsvTextFormat(text, 'data.csv');
+    const table = parseCsvText(text, format);
+    applyCsvEdit(table, insertColumnEdit(table, 2, 'c'));
+    assert.strictEqual(serializeCsvText(table, format), 'a,b,c\n1\n\n3,4,\n');
+  });
+
+  test('a rebased edit takes what it replaces from the table it applies to', () => {
+    const text = 'a\n1\n';
+    const format = detectCsvTextFormat(text, 'data.csv');
+    const table = parseCsvText(text, format);
+    // Both edits were built from the same copy, before the first one came back.
+    const first = setCellEdit(table, 0, 0, 'x');
+    const second = setCellEdit(table, 0, 0, 'y');
+    applyCsvEdit(table, rebaseCsvEdit(table, first));
+    const rebased = rebaseCsvEdit(table, second);
+    assert.deepStrictEqual(rebased, { kind: 'setCell', row: 0, column: 0, value: 'y', previous: 'x' });
+    applyCsvEdit(table, rebased);
+    applyCsvEdit(table, invertCsvEdit(rebased));
+    assert.strictEqual(serializeCsvText(table, format), 'a\nx\n');
+  });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { buildReadCsvCall } from '../loaders/csvOptions';
+
+suite('csvOptions', () => {
+  test('options left unset are left to the sniffer', () => {
+    assert.strictEqual(buildReadCsvCall('data.csv'), "read_csv('data.csv', header=true)");
+    assert.strictEqual(
+      buildReadCsvCall('data.csv', { header: false, decimalSeparator: '', dateFormat: '', columnTypes: { zip: ' ' } }),
+      "read_csv('data.csv', header=false)"
+    );
+  });
+
+  test('the extension picks the delimiter and compression unless one is chosen', () => {
+    assert.strictEqual(
+      buildReadCsvCall('data.tsv.gz'),
+      "read_csv('data.tsv.gz', header=true, delim='\t', compression='gzip')"
+    );
+    assert.strictEqual(buildReadCsvCall('data.PSV', { delimiter: ';' }), "read_csv('data.PSV', header=true, delim=';')");
+  });
+
+  test('quotes in names and values are escaped', () => {
+    assert.strictEqual(
+      buildReadCsvCall("it's.csv", {
+        quote: "'",
+        escape: '',
+        skipRows: 2.7,
+        dateFormat: "%d/%m/%Y",
+        columnTypes: { "o'clock": 'DECIMAL(10, 2) ', zip: 'VARCHAR' },
+        ignoreErrors: true,
+        sampleSize: -1,
+      }),
+      "read_csv('it''s.csv', header=true, quote='''', escape='', skip=2, dateformat='%d/%m/%Y', "
+        + "types={'o''clock': 'DECIMAL(10, 2)', 'zip': 'VARCHAR'}, ignore_errors=true, sample_size=-1)"
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { decodeCsvBytes, detectCsvTextFormat, encodeCsvText, parseCsvText, serializeCsvText } from '../utils/csvText';
+
+suite('csvText', () => {
+  function roundTrip(text: string, fileName = 'data.csv') {
+    const format = detectCsvTextFormat(text, fileName);
+    return serializeCsvText(parseCsvText(text, format), format);
+  }
+
+  test('unedited files are written back byte for byte', () => {
+    [
+      'a,b\n1,2\n',
+      'a,b\n1,2',
+      'a,b\n1,2\n\n',
+      'a,b\n\n1,2\n',
+      'a,b,c\n1,2\n3,4,5\n',
+      'a,b\n1,2,3\n',
+      'a;b\r\n"x;y";2\r\n"";\r\n',
+      '\uFEFF"a","b"\n"1","say ""hi"""\n',
+      'a\tb\n1\t2\n',
+    ].forEach((text) => assert.strictEqual(roundTrip(text), text));
+  });
+
+  test('short rows and blank lines are padded to the table width', () => {
+    const text = 'a,b,c\n1,2\n\n';
+    const table = parseCsvText(text, detectCsvTextFormat(text, 'data.csv'));
+    assert.deepStrictEqual(table.rows.map((row) => row.map((field) => field.value)), [['1', '2', ''], ['', '', '']]);
+  });
+
+  test('an edited padding field is written with the fields before it', () => {
+    const text = 'a,b,c\n1\n';
+    const format = detectCsvTextFormat(text, 'data.csv');
+    const table = parseCsvText(text, format);
+    table.rows[0][2].value = 'x';
+    assert.strictEqual(serializeCsvText(table, format), 'a,b,c\n1,,x\n');
+  });
+
+  test('fields are quoted when their value needs it', () => {
+    const text = 'a,b\n1,2\n';
+    const format = detectCsvTextFormat(text, 'data.csv');
+    const table = parseCsvText(text, format);
+    table.rows[0][0].value = 'x,y';
+    table.rows[0][1].value = 'say "hi"';
+    assert.strictEqual(serializeCsvText(table, format), 'a,b\n"x,y","say ""hi"""\n');
+  });
+
+  test('the delimiter comes from the extension, the options or the content', () => {
+    assert.strictEqual(detectCsvTextFormat('a,b\n', 'data.tsv').delimiter, '\t');
+    assert.strictEqual(detectCsvTextFormat('a,b\n', 'data.csv', { delimiter: '|' }).delimiter, '|');
+    assert.strictEqual(detectCsvTextFormat('a;b;c\n1;2;3\n', 'data.csv').delimiter, ';');
+  });
+
+  test('latin-1 and UTF-16 files decode and encode to the same bytes', () => {
+    const latin1 = Uint8Array.from([0x63, 0x61, 0x66, 0xe9, 0x0a, 0x80, 0x0a]);
+    const decoded = decodeCsvBytes(latin1, 'latin-1');
+    assert.strictEqual(decoded.text, 'café\n\u0080\n');
+    assert.deepStrictEqual(encodeCsvText(decoded.text, decoded.encoding), latin1);
+
+    const utf16 = Uint8Array.from([0xff, 0xfe, 0x61, 0x00, 0x2c, 0x00, 0xe9, 0x00, 0x0a, 0x00]);
+    const utf16Text = decodeCsvBytes(utf16, 'utf-16');
+    assert.strictEqual(utf16Text.encoding, 'utf-16le');
+    assert.strictEqual(utf16Text.text, '\uFEFFa,é\n');
+    assert.deepStrictEqual(encodeCsvText(utf16Text.text, utf16Text.encoding), utf16);
+    assert.strictEqual(decodeCsvBytes(Uint8Array.from([0xfe, 0xff, 0x00, 0x61]), 'utf-16').encoding, 'utf-16be');
+  });
+
+  test('text that is not valid UTF-8 or latin-1 is refused', () => {
+    assert.throws(() => decodeCsvBytes(Uint8Array.from([0x61, 0xe9, 0x0a])), /not valid UTF-8/);
+    assert.throws(() => encodeCsvText('€', 'latin-1'), /cannot be written in latin-1/);
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { detectFormat, looksLikeText, withCompressionSuffix } from '../loaders/detectFormat';
+import { DataLoader, SniffResult } from '../loaders/types';
+
+suite('detectFormat', () => {
+  function fakeLoader(id: string, extension: string, sniff: (bytes: Uint8Array) => SniffResult): DataLoader {
+    return {
+      id,
+      canLoad: (fileName) => fileName.toLowerCase().endsWith(extension),
+      sniff,
+      load: () => Promise.reject(new Error('not loaded in tests')),
+    };
+  }
+
+  const parquet = fakeLoader('parquet', '.parquet', (bytes) => (
+    new TextDecoder().decode(bytes.subarray(0, 4)) === 'PAR1' ? 'certain' : 'no'
+  ));
+  const json = fakeLoader('json', '.json', (bytes) => (looksLikeText(bytes) && bytes[0] === 0x7b ? 'possible' : 'no'));
+  const csv = fakeLoader('csv', '.csv', (bytes) => (looksLikeText(bytes) ? 'possible' : 'no'));
+  const loaders = [parquet, json, csv];
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  test('text is UTF-8 without NUL bytes', () => {
+    assert.strictEqual(looksLikeText(encode('a,b\n1,2\n')), true);
+    // A character cut off at the end of the sample still counts.
+    assert.strictEqual(looksLikeText(encode('a,é').subarray(0, 3)), true);
+    assert.strictEqual(looksLikeText(Uint8Array.from([0x61, 0xe9, 0x62])), false);
+    assert.strictEqual(looksLikeText(Uint8Array.from([0x61, 0x00, 0x62, 0x00])), false);
+  });
+
+  test('magic bytes win over the file name', async () => {
+    const detection = await detectFormat(loaders, 'data.csv', encode('PAR1 rest of the file'));
+    assert.strictEqual(detection.loader, parquet);
+  });
+
+  test('the name picks among loaders the content allows', async () => {
+    const detection = await detectFormat(loaders, 'data.json', encode('{"a": 1}'));
+    assert.strictEqual(detection.loader, json);
+    assert.deepStrictEqual(detection.candidates, [json, csv]);
+  });
+
+  test('several possible loaders and no telling name leave the choice to the user', async () => {
+    const detection = await detectFormat(loaders, 'data.txt', encode('{"a": 1}'));
+    assert.strictEqual(detection.loader, null);
+  });
+
+  test('a latin-1 or UTF-16 file goes to the loader its extension names', async () => {
+    const latin1 = Uint8Array.from([0x6e, 0x61, 0x6d, 0x65, 0x0a, 0x63, 0x61, 0x66, 0xe9, 0x0a]);
+    assert.strictEqual((await detectFormat(loaders, 'data.csv', latin1)).loader, csv);
+    const utf16 = Uint8Array.from([0xff, 0xfe, 0x61, 0x00, 0x2c, 0x00, 0x62, 0x00]);
+    assert.strictEqual((await detectFormat(loaders, 'DATA.CSV', utf16)).loader, csv);
+    assert.strictEqual((await detectFormat(loaders, 'data.bin', latin1)).loader, null);
+  });
+
+  test('compression found in the bytes is added to the name', () => {
+    assert.strictEqual(withCompressionSuffix('data.csv', 'gzip'), 'data.csv.gz');
+    assert.strictEqual(withCompressionSuffix('data.csv.zst', 'zstd'), 'data.csv.zst');
+    assert.strictEqual(withCompressionSuffix('data.csv', undefined), 'data.csv');
+  });
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import {
+  buildCopyOptions,
+  buildTextExportQuery,
+  createTextExporter,
+  exportExtension,
+  ExportOptions,
+  TextExportFormat,
+} from '../utils/exportFormats';
+
+suite('exportFormats', () => {
+  const schema = [{ name: 'id', type: 'INTEGER' }, { name: 'name', type: 'VARCHAR' }];
+
+  function exportRows(format: TextExportFormat, batches: Array<Array<Array<string | null>>>, options: ExportOptions = {}) {
+    const exporter = createTextExporter(format, schema, options);
+    return exporter.header() + batches.map((rows) => exporter.rows(rows)).join('') + exporter.footer();
+  }
+
+  test('CSV quotes values only when needed and leaves NULL empty', () => {
+    assert.strictEqual(
+      exportRows('csv', [[['1', 'plain'], ['2', 'a,b']], [['3', 'say "hi"'], ['4', ''], ['5', null], ['6', 'two\nlines']]]),
+      'id,name\n1,plain\n2,"a,b"\n3,"say ""hi"""\n4,""\n5,\n6,"two\nlines"\n'
+    );
+  });
+
+  test('CSV uses the chosen delimiter and quote', () => {
+    assert.strictEqual(
+      exportRows('csv', [[['1', 'a;b'], ['2', 'it\'s']]], { csvDelimiter: ';', csvQuote: '\'' }),
+      'id;name\n1;\'a;b\'\n2;\'it\'\'s\'\n'
+    );
+  });
+
+  test('JSON arrays put commas between rows across batches', () => {
+    assert.strictEqual(
+      exportRows('json', [[['{"id":1}']], [['{"id":2}'], ['{"id":3}']]]),
+      '[\n\t{"id":1},\n\t{"id":2},\n\t{"id":3}\n]\n'
+    );
+    assert.strictEqual(exportRows('json', [[]]), '[\n]\n');
+  });
+
+  test('NDJSON writes one object per line', () => {
+    assert.strictEqual(
+      exportRows('json', [[['{"id":1}']], [['{"id":2}']]], { jsonLayout: 'lines' }),
+      '{"id":1}\n{"id":2}\n'
+    );
+  });
+
+  test('JSON selects each row as one object', () => {
+    assert.strictEqual(
+      buildTextExportQuery('json', 'SELECT 1', schema),
+      'SELECT CAST(to_json(__exported_row) AS VARCHAR) AS c0 FROM (SELECT 1) AS __exported_row'
+    );
+    assert.strictEqual(
+      buildTextExportQuery('csv', 'SELECT 1', schema),
+      'SELECT CAST(id AS VARCHAR) AS c0, CAST(name AS VARCHAR) AS c1 FROM (SELECT 1)'
+    );
+  });
+
+  test('Markdown escapes pipes and line breaks', () => {
+    assert.strictEqual(
+      exportRows('markdown', [[['1', 'a|b'], ['2', null], ['3', 'x\ny']]]),
+      '| id | name |\n| --- | --- |\n| 1 | a\\|b |\n| 2 |  |\n| 3 | x<br>y |\n'
+    );
+  });
+
+  test('HTML escapes markup', () => {
+    assert.strictEqual(
+      exportRows('html', [[['1', '<b>&</b>']]]),
+      '<table>\n  <thead>\n    <tr><th>id</th><th>name</th></tr>\n  </thead>\n  <tbody>\n'
+        + '    <tr><td>1</td><td>&lt;b&gt;&amp;&lt;/b&gt;</td></tr>\n  </tbody>\n</table>\n'
+    );
+  });
+
+  test('INSERT statements keep numbers bare and quote text', () => {
+    const exporter = createTextExporter('sql', [...schema, { name: 'day', type: 'DATE' }], { sqlTableName: 'my table' });
+    assert.strictEqual(
+      exporter.rows([['1', 'it\'s', '2024-01-02'], [null, null, null]]),
+      'INSERT INTO "my table" (id, name, day) VALUES (1, \'it\'\'s\', \'2024-01-02\'::DATE);\n'
+        + 'INSERT INTO "my table" (id, name, day) VALUES (NULL, NULL, NULL);\n'
+    );
+  });
+
+  test('file extensions and COPY options follow the chosen options', () => {
+    assert.strictEqual(exportExtension('json', { jsonLayout: 'lines' }), 'ndjson');
+    assert.strictEqual(exportExtension('markdown', {}), 'md');
+    assert.strictEqual(
+      buildCopyOptions('parquet', { parquetCompression: 'zstd', parquetRowGroupSize: 1000.5 }),
+      'FORMAT PARQUET, COMPRESSION zstd, ROW_GROUP_SIZE 1000'
+    );
+    assert.strictEqual(buildCopyOptions('xlsx', {}), 'FORMAT xlsx, HEADER true');
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { buildFilterCondition, buildFilteredQuery, buildSearchCondition } from '../utils/filterSql';
+
+suite('filterSql', () => {
+  const numeric = { name: 'amount', numeric: true };
+  const text = { name: 'name', numeric: false };
+
+  test('empty input adds no condition', () => {
+    assert.strictEqual(buildFilterCondition(text, '   '), null);
+  });
+
+  test('null checks', () => {
+    assert.strictEqual(buildFilterCondition(text, 'null'), 'name IS NULL');
+    assert.strictEqual(buildFilterCondition(text, 'not null'), 'name IS NOT NULL');
+  });
+
+  test('comparisons keep numbers unquoted on numeric columns', () => {
+    assert.strictEqual(buildFilterCondition(numeric, '>= 10'), 'amount >= 10');
+    assert.strictEqual(buildFilterCondition(numeric, '!= 3'), 'amount <> 3');
+    assert.strictEqual(buildFilterCondition(text, '= 10'), 'name = \'10\'');
+  });
+
+  test('ranges of numbers and dates', () => {
+    assert.strictEqual(buildFilterCondition(numeric, '1..2.5'), 'amount BETWEEN 1 AND 2.5');
+    assert.strictEqual(buildFilterCondition(numeric, 'between 1 and 5'), 'amount BETWEEN 1 AND 5');
+    assert.strictEqual(
+      buildFilterCondition(text, '2024-01-01..2024-02-01'),
+      'name BETWEEN \'2024-01-01\' AND \'2024-02-01\''
+    );
+  });
+
+  test('text with two dots is a contains match, not a range', () => {
+    assert.strictEqual(buildFilterCondition(text, 'v1..v2'), 'contains(lower(CAST(name AS VARCHAR)), \'v1..v2\')');
+    assert.strictEqual(buildFilterCondition(text, '...'), 'contains(lower(CAST(name AS VARCHAR)), \'...\')');
+  });
+
+  test('like and regular expressions', () => {
+    assert.strictEqual(buildFilterCondition(text, 'not ilike \'a%\''), 'CAST(name AS VARCHAR) NOT ILIKE \'a%\'');
+    assert.strictEqual(buildFilterCondition(text, '/^a.*/i'), 'regexp_matches(CAST(name AS VARCHAR), \'^a.*\', \'i\')');
+    assert.strictEqual(buildFilterCondition(text, '~b$'), 'regexp_matches(CAST(name AS VARCHAR), \'b$\')');
+  });
+
+  test('search matches any column', () => {
+    assert.strictEqual(
+      buildSearchCondition([numeric, text], 'Ab'),
+      '(contains(lower(CAST(amount AS VARCHAR)), \'ab\') OR contains(lower(CAST(name AS VARCHAR)), \'ab\'))'
+    );
+    assert.strictEqual(buildSearchCondition([numeric], ' '), null);
+  });
+
+  test('filtered query wraps the base query', () => {
+    const sql = buildFilteredQuery('SELECT * FROM t;', {
+      columns: [numeric, text],
+      columnFilters: ['> 1', ''],
+      globalFilter: '',
+      sortKeys: [{ column: 'name', direction: 'desc' }],
+    });
+    assert.strictEqual(sql, 'SELECT *\nFROM (\nSELECT * FROM t\n) AS filtered\nWHERE amount > 1\nORDER BY name DESC;');
+  });
+});
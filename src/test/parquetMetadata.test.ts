@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { readParquetFileInfo } from '../utils/parquetMetadata';
+
+suite('parquetMetadata', () => {
+  // Answers each of the four footer queries with rows shaped like DuckDB's.
+  function fakeConnection(tables: Record<string, Array<Record<string, unknown>>>): any {
+    return {
+      query: async (sql: string) => {
+        const name = Object.keys(tables).find((candidate) => sql.includes(`${candidate}(`)) ?? '';
+        return { toArray: () => (tables[name] ?? []).map((row) => ({ toJSON: () => row })) };
+      },
+    };
+  }
+
+  function chunk(rowGroup: number, path: string, min: string | null, max: string | null, nulls: number | null) {
+    return {
+      row_group_id: rowGroup,
+      row_group_num_rows: 10,
+      path_in_schema: path,
+      type: 'INT32',
+      compression: rowGroup === 0 ? 'SNAPPY' : 'ZSTD',
+      encodings: 'PLAIN, RLE',
+      min_value: min,
+      max_value: max,
+      null_count: nulls,
+      compressed_bytes: 100,
+      uncompressed_bytes: 250,
+    };
+  }
+
+  const schema = [
+    { name: 'duckdb_schema', type: null, num_children: 3 },
+    { name: 'id', type: 'INT32', num_children: 0, logical_type: null, converted_type: 'INT_32' },
+    { name: 'tags', type: null, num_children: 1, logical_type: 'ListType()' },
+    { name: 'list', type: null, num_children: 1 },
+    { name: 'element', type: 'BYTE_ARRAY', num_children: 0, logical_type: 'StringType()' },
+    { name: 'scores', type: null, num_children: 1, logical_type: 'ListType()' },
+    { name: 'list', type: null, num_children: 1 },
+    { name: 'element', type: 'INT32', num_children: 0, logical_type: 'DateType()' },
+  ];
+
+  test('columns add up over row groups and keep the logical type of their own path', async () => {
+    const info = await readParquetFileInfo(fakeConnection({
+      parquet_file_metadata: [{ created_by: 'test', format_version: 2, num_rows: 20 }],
+      parquet_metadata: [
+        chunk(0, 'id', '2', '9', 0),
+        chunk(0, 'tags, list, element', 'a', 'm', 1),
+        chunk(0, 'scores, list, element', '1', '5', 0),
+        chunk(1, 'id', '10', '30', 2),
+        chunk(1, 'tags, list, element', 'b', 'z', null),
+        chunk(1, 'scores, list, element', '0', '4', 0),
+      ],
+      parquet_schema: schema,
+      parquet_kv_metadata: [{ key: new TextEncoder().encode('pandas'), value: new TextEncoder().encode('{}') }],
+    }), 'data.parquet');
+
+    assert.strictEqual(info.rowCount, 20);
+    assert.strictEqual(info.rowGroups.length, 2);
+    assert.strictEqual(info.compressedBytes, 600);
+    assert.deepStrictEqual(info.columns.map((column) => [column.column, column.logicalType]), [
+      ['id', 'INT_32'],
+      ['tags, list, element', 'StringType()'],
+      ['scores, list, element', 'DateType()'],
+    ]);
+    const [id, tags] = info.columns;
+    // Numbers compare as numbers, text as text.
+    assert.deepStrictEqual([id.min, id.max, id.nullCount], ['2', '30', 2]);
+    assert.deepStrictEqual([tags.min, tags.max, tags.nullCount], ['a', 'z', null]);
+    assert.deepStrictEqual(id.compressions, ['SNAPPY', 'ZSTD']);
+    assert.deepStrictEqual(id.encodings, ['PLAIN', 'RLE']);
+    assert.deepStrictEqual(info.keyValues, [{ key: 'pandas', value: '{}' }]);
+  });
+
+  test('the schema is flattened with depths and paths', async () => {
+    const info = await readParquetFileInfo(fakeConnection({ parquet_schema: schema }), 'data.parquet');
+    assert.deepStrictEqual(info.schema.map((element) => [element.depth, element.path]), [
+      [0, ''],
+      [1, 'id'],
+      [1, 'tags'],
+      [2, 'tags, list'],
+      [3, 'tags, list, element'],
+      [1, 'scores'],
+      [2, 'scores, list'],
+      [3, 'scores, list, element'],
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { QueryHistoryStore, StoredHistoryEntry } from '../host/queryHistoryStore';
+import { formatSavedQuery, parseSavedQuery } from '../host/savedQueries';
+
+suite('queryHistoryStore', () => {
+  function memento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+      keys: () => [...values.keys()],
+      get: (key: string, defaultValue?: unknown) => (values.has(key) ? values.get(key) : defaultValue),
+      update: async (key: string, value: unknown) => { values.set(key, value); },
+    } as vscode.Memento;
+  }
+
+  function entry(id: string, overrides: Partial<StoredHistoryEntry> = {}): StoredHistoryEntry {
+    return { id, sql: `SELECT ${id}`, timestamp: 0, durationMs: 1, rowCount: 1, status: 'success', ...overrides };
+  }
+
+  test('only the newest 500 unpinned entries are kept, pinned ones always', async () => {
+    const store = new QueryHistoryStore(memento());
+    await store.add(entry('pinned'));
+    await store.setPinned('pinned', true);
+    for (let i = 0; i < 501; i++) {
+      await store.add(entry(`q${i}`));
+    }
+    const entries = store.getEntries();
+    assert.strictEqual(entries.length, 501);
+    assert.strictEqual(entries[0].id, 'q500');
+    assert.strictEqual(entries.some((candidate) => candidate.id === 'q0'), false);
+    assert.strictEqual(entries[entries.length - 1].id, 'pinned');
+    store.dispose();
+  });
+
+  test('a known id is updated in place and stays pinned', async () => {
+    const store = new QueryHistoryStore(memento());
+    await store.add(entry('a'));
+    await store.add(entry('b'));
+    await store.setPinned('a', true);
+    await store.add(entry('a', { chart: { type: 'bar' } }));
+    assert.deepStrictEqual(store.getEntries().map((candidate) => candidate.id), ['b', 'a']);
+    assert.deepStrictEqual(store.getEntries()[1], { ...entry('a', { chart: { type: 'bar' } }), pinned: true });
+    await store.clear();
+    assert.deepStrictEqual(store.getEntries().map((candidate) => candidate.id), ['a']);
+    store.dispose();
+  });
+
+  test('saved queries keep their name and dataset in the header', () => {
+    const text = formatSavedQuery({ name: 'Top customers', dataset: 'data/orders.parquet', sql: '  SELECT 1\n' });
+    assert.strictEqual(text, '-- name: Top customers\n-- dataset: data/orders.parquet\nSELECT 1\n');
+    assert.deepStrictEqual(parseSavedQuery(text, 'top-customers'), {
+      name: 'Top customers',
+      dataset: 'data/orders.parquet',
+      sql: 'SELECT 1',
+    });
+  });
+
+  test('a saved query without a header is named after its file', () => {
+    assert.deepStrictEqual(parseSavedQuery('-- Name:   \r\n-- just a comment\r\nSELECT 1\r\n', 'report'), {
+      name: 'report',
+      dataset: undefined,
+      sql: '-- just a comment\nSELECT 1',
+    });
+  });
+});
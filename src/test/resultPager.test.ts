@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { Schema } from 'apache-arrow';
+import { openResultPager, ScriptStatementError } from '../utils/resultPager';
+
+suite('resultPager', () => {
+  // Refuses scripts like a pending query does, and fails the statement that reads `missing`.
+  function fakeConnection(ran: string[]): any {
+    return {
+      send: async (sql: string) => {
+        if (sql.split(';').filter((part) => part.trim()).length > 1) {
+          throw new Error('Pending queries only support a single statement');
+        }
+        ran.push(sql);
+        if (sql.includes('missing')) {
+          throw new Error('Catalog Error: Table with name missing does not exist!\n\nLINE 1: SELECT * FROM missing\n                      ^');
+        }
+        return { schema: new Schema([]), open: async () => undefined, [Symbol.asyncIterator]: async function* () { } };
+      },
+    };
+  }
+
+  test('a script runs statement by statement and streams the last one', async () => {
+    const ran: string[] = [];
+    const pager = await openResultPager(fakeConnection(ran), 'CREATE TABLE t AS SELECT 1;\nSELECT * FROM t;');
+    assert.deepStrictEqual(ran, ['CREATE TABLE t AS SELECT 1;', 'SELECT * FROM t;']);
+    assert.ok(pager.reader);
+  });
+
+  test('an error in a later statement says where that statement starts', async () => {
+    const script = 'SELECT 1;\n\nSELECT * FROM missing;\nSELECT 2;';
+    await assert.rejects(openResultPager(fakeConnection([]), script), (error: unknown) => {
+      assert.ok(error instanceof ScriptStatementError);
+      assert.strictEqual(error.statement.start, script.indexOf('SELECT * FROM missing'));
+      assert.match(error.message, /^Catalog Error/);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { locateSqlError } from '../utils/sqlErrors';
+
+suite('sqlErrors', () => {
+  test('the caret under the snippet points into the query', () => {
+    const sql = 'SELECT *\nFORM t';
+    const message = [
+      'Parser Error: syntax error at or near "t"',
+      '',
+      'LINE 2: FORM t',
+      '             ^',
+    ].join('\n');
+    assert.strictEqual(locateSqlError(message, sql), sql.indexOf('t', 9));
+  });
+
+  test('a shortened snippet is found in its line', () => {
+    const sql = `SELECT ${'a, '.repeat(40)}FORM t`;
+    const message = [
+      'Parser Error: syntax error at or near "t"',
+      '',
+      'LINE 1: ...a, a, FORM t',
+      '                      ^',
+    ].join('\n');
+    assert.strictEqual(locateSqlError(message, sql), sql.length - 1);
+  });
+
+  test('messages without a position give null', () => {
+    assert.strictEqual(locateSqlError('Catalog Error: Table with name t does not exist!', 'SELECT * FROM t'), null);
+    assert.strictEqual(locateSqlError('LINE 5: x\n        ^', 'SELECT 1'), null);
+  });
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import {
+  deriveRelationName,
+  detectCompression,
+  ensureUniqueRelationName,
+  stripCompressionSuffix,
+} from '../utils/sqlHelpers';
+
+suite('sqlHelpers', () => {
+  test('compression suffixes are recognized and stripped', () => {
+    assert.strictEqual(detectCompression('data.csv.gz'), 'gzip');
+    assert.strictEqual(detectCompression('events.jsonl.GZ'), 'gzip');
+    assert.strictEqual(detectCompression('data.csv.zst'), 'zstd');
+    assert.strictEqual(detectCompression('data.csv'), undefined);
+    assert.strictEqual(stripCompressionSuffix('data.csv.gz'), 'data.csv');
+    assert.strictEqual(stripCompressionSuffix('data.csv.zst'), 'data.csv');
+    assert.strictEqual(stripCompressionSuffix('archive.tar'), 'archive.tar');
+  });
+
+  test('relation names drop the path, the extension and any compression suffix', () => {
+    assert.strictEqual(deriveRelationName('data/orders.csv.gz'), 'orders');
+    assert.strictEqual(deriveRelationName('C:\\logs\\events.jsonl.gz'), 'events');
+    assert.strictEqual(deriveRelationName('sales 2024.csv.zst'), 'sales_2024');
+    assert.strictEqual(deriveRelationName('2024-report.parquet'), 'v_2024_report');
+    assert.strictEqual(deriveRelationName('.csv'), 'data_view');
+  });
+
+  test('clashing relation names get a numeric suffix', () => {
+    assert.strictEqual(ensureUniqueRelationName('orders', []), 'orders');
+    assert.strictEqual(ensureUniqueRelationName('orders', ['Orders']), 'orders_2');
+    assert.strictEqual(ensureUniqueRelationName('orders', new Set(['orders', 'ORDERS_2', 'orders_4'])), 'orders_3');
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { findFileReferences, splitSqlStatements, statementAt } from '../utils/sqlStatements';
+
+suite('sqlStatements', () => {
+  test('statements split on semicolons outside strings, identifiers, comments and $$ bodies', () => {
+    const script = [
+      'SELECT \';\' AS a, "x;y" FROM t; -- one; two',
+      '/* block; */ SELECT $$;$$;',
+      '-- only a comment;',
+      'SELECT 3',
+    ].join('\n');
+    assert.deepStrictEqual(splitSqlStatements(script).map((statement) => statement.text), [
+      'SELECT \';\' AS a, "x;y" FROM t;',
+      'SELECT $$;$$;',
+      'SELECT 3',
+    ]);
+  });
+
+  test('statement offsets skip leading whitespace and comments', () => {
+    const script = 'SELECT 1;\n  -- next\n  SELECT 2;';
+    const [first, second] = splitSqlStatements(script);
+    assert.deepStrictEqual([first.start, first.end], [0, 9]);
+    assert.strictEqual(script.slice(second.start, second.end), 'SELECT 2;');
+  });
+
+  test('the statement at the caret is the one it is in, or the one before it', () => {
+    const script = 'SELECT 1;\n\nSELECT 2;';
+    const statements = splitSqlStatements(script);
+    assert.strictEqual(statementAt(statements, 3)?.text, 'SELECT 1;');
+    assert.strictEqual(statementAt(statements, 10)?.text, 'SELECT 1;');
+    assert.strictEqual(statementAt(statements, script.length)?.text, 'SELECT 2;');
+    assert.strictEqual(statementAt([], 0), undefined);
+  });
+
+  test('file references are string literals ending in a data file extension', () => {
+    const sql = `SELECT * FROM read_parquet('data/a.parquet') JOIN 'b.CSV' USING (id)
+      WHERE name = 'x.parquet.bak' OR path = 'https://host/c.parquet' OR f = 'logs/*.csv' OR g = 'it''s.csv'
+      -- 'commented.csv'`;
+    assert.deepStrictEqual(findFileReferences(sql, ['parquet', 'csv']), ['data/a.parquet', 'b.CSV', 'it\'s.csv']);
+  });
+});
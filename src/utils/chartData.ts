@@ -0,0 +1,260 @@
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { DataType, Schema, Table } from 'apache-arrow';
+import { HISTOGRAM_BINS, HistogramBin, ProfileKind, queryHistogram } from './columnProfile';
+import { queryInterruptibly } from './resultPager';
+import { formatIdentifierForSql, normalizeSqlForEmbedding } from './sqlHelpers';
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'histogram' | 'area';
+
+// What to draw; stored with the query in history.
+export interface ChartSpec {
+  type: ChartType;
+  x: string;
+  // Numeric columns summed per X value; empty means a row count.
+  y: string[];
+  // Splits each Y column into one series per distinct value.
+  series?: string;
+}
+
+export interface ChartPoint {
+  // Category label, number, or epoch seconds for temporal columns.
+  x: number | string;
+  y: number;
+}
+
+export interface ChartSeries {
+  name: string;
+  points: ChartPoint[];
+}
+
+export interface ChartData {
+  xKind: ProfileKind;
+  series: ChartSeries[];
+  // Histogram charts only.
+  bins?: HistogramBin[];
+  // True when the series were cut to MAX_CHART_CATEGORIES or sampled.
+  truncated: boolean;
+}
+
+// Category values drawn per series; more than this is unreadable anyway.
+const MAX_CHART_CATEGORIES = 500;
+const SCATTER_SAMPLE_ROWS = 5000;
+const COUNT_SERIES_NAME = 'count';
+
+interface ChartRow {
+  x: number | string | null;
+  series: string | null;
+  values: Array<number | null>;
+}
+
+export function chartColumnKind(type: DataType): ProfileKind {
+  if (DataType.isInt(type) || DataType.isFloat(type) || DataType.isDecimal(type)) {
+    return 'numeric';
+  }
+  if (DataType.isDate(type) || DataType.isTimestamp(type)) {
+    return 'temporal';
+  }
+  return 'categorical';
+}
+
+// Arrow hands decimals back as raw words, so those charts are computed in DuckDB instead.
+export function canChartLocally(table: Table, spec: ChartSpec): boolean {
+  return [spec.x, ...spec.y].every((name) => {
+    const field = table.schema.fields.find((candidate) => candidate.name === name);
+    return field !== undefined && !DataType.isDecimal(field.type);
+  });
+}
+
+// Builds the chart from rows already in memory.
+export function buildChartData(table: Table, spec: ChartSpec): ChartData {
+  const xKind = columnKind(table.schema, spec.x);
+  const xVector = table.getChild(spec.x);
+  if (!xVector) {
+    throw new Error(`Column ${spec.x} is not in the result.`);
+  }
+
+  if (spec.type === 'histogram') {
+    const values: number[] = [];
+    for (let row = 0; row < table.numRows; row++) {
+      const value = toChartNumber(xVector.get(row), xKind);
+      if (value !== null) {
+        values.push(value);
+      }
+    }
+    return { xKind, series: [], bins: binValues(values), truncated: false };
+  }
+
+  const yVectors = spec.y.map((name) => table.getChild(name));
+  const seriesVector = spec.series ? table.getChild(spec.series) : null;
+  const rows: ChartRow[] = [];
+  for (let row = 0; row < table.numRows; row++) {
+    const seriesValue = seriesVector?.get(row);
+    rows.push({
+      x: toChartX(xVector.get(row), xKind),
+      series: seriesVector ? String(seriesValue ?? 'null') : null,
+      values: spec.y.length > 0
+        ? yVectors.map((vector) => toChartNumber(vector?.get(row), 'numeric'))
+        : [1],
+    });
+  }
+  return groupChartRows(rows, spec, xKind, false);
+}
+
+// Builds the chart in DuckDB over the full result: sums per X for bar, line and
+// area charts, a row sample for scatter plots and binned counts for histograms.
+export async function queryChartData(
+  connection: duckdb.AsyncDuckDBConnection,
+  sql: string,
+  schema: Schema,
+  spec: ChartSpec
+): Promise<ChartData> {
+  const xKind = columnKind(schema, spec.x);
+  if (spec.type === 'histogram') {
+    if (xKind === 'categorical') {
+      throw new Error('Histograms need a numeric or date column for X.');
+    }
+    return { xKind, series: [], bins: await queryHistogram(connection, sql, spec.x, xKind), truncated: false };
+  }
+
+  const x = formatIdentifierForSql(spec.x);
+  const xExpression = xKind === 'temporal'
+    ? `epoch(CAST(${x} AS TIMESTAMP))`
+    : xKind === 'numeric' ? `CAST(${x} AS DOUBLE)` : `CAST(${x} AS VARCHAR)`;
+  const seriesExpression = spec.series
+    ? `coalesce(CAST(${formatIdentifierForSql(spec.series)} AS VARCHAR), 'null')`
+    : 'NULL';
+  const source = `(\n${normalizeSqlForEmbedding(sql)}\n) AS charted`;
+
+  let query: string;
+  if (spec.type === 'scatter') {
+    const values = spec.y.length > 0
+      ? spec.y.map((name, index) => `CAST(${formatIdentifierForSql(name)} AS DOUBLE) AS y${index}`)
+      : ['1 AS y0'];
+    query = `
+      SELECT ${xExpression} AS x, ${seriesExpression} AS s, ${values.join(', ')}
+      FROM (SELECT * FROM ${source} USING SAMPLE ${SCATTER_SAMPLE_ROWS} ROWS)
+      WHERE ${x} IS NOT NULL;
+    `;
+  } else {
+    const values = spec.y.length > 0
+      ? spec.y.map((name, index) => `sum(CAST(${formatIdentifierForSql(name)} AS DOUBLE)) AS y${index}`)
+      : ['CAST(count(*) AS DOUBLE) AS y0'];
+    query = `
+      SELECT ${xExpression} AS x, ${seriesExpression} AS s, ${values.join(', ')}
+      FROM ${source}
+      WHERE ${x} IS NOT NULL
+      GROUP BY ALL
+      ORDER BY x
+      LIMIT ${MAX_CHART_CATEGORIES * 20};
+    `;
+  }
+
+  const result = await queryInterruptibly(connection, query);
+  const valueCount = Math.max(spec.y.length, 1);
+  const rows: ChartRow[] = (result.toArray() as any[]).map((row) => ({
+    x: xKind === 'categorical' ? String(row.x) : toChartNumber(row.x, 'numeric'),
+    series: spec.series ? String(row.s) : null,
+    values: Array.from({ length: valueCount }, (_, index) => toChartNumber(row[`y${index}`], 'numeric')),
+  }));
+  return groupChartRows(rows, spec, xKind, spec.type === 'scatter' && result.numRows >= SCATTER_SAMPLE_ROWS);
+}
+
+function columnKind(schema: Schema, name: string): ProfileKind {
+  const field = schema.fields.find((candidate) => candidate.name === name);
+  if (!field) {
+    throw new Error(`Column ${name} is not in the result.`);
+  }
+  return chartColumnKind(field.type);
+}
+
+// One series per Y column (and per series value); repeated X values are summed except in scatter plots.
+function groupChartRows(rows: ChartRow[], spec: ChartSpec, xKind: ProfileKind, sampled: boolean): ChartData {
+  const yNames = spec.y.length > 0 ? spec.y : [COUNT_SERIES_NAME];
+  const seriesPoints = new Map<string, Map<number | string, number> | ChartPoint[]>();
+  let truncated = sampled;
+
+  for (const row of rows) {
+    const x = row.x;
+    if (x === null) {
+      continue;
+    }
+    row.values.forEach((value, index) => {
+      if (value === null) {
+        return;
+      }
+      const yName = yNames[index];
+      const name = row.series === null ? yName : yNames.length > 1 ? `${row.series} · ${yName}` : row.series;
+      if (spec.type === 'scatter') {
+        const points = (seriesPoints.get(name) as ChartPoint[] | undefined) ?? [];
+        points.push({ x, y: value });
+        seriesPoints.set(name, points);
+        return;
+      }
+      const sums = (seriesPoints.get(name) as Map<number | string, number> | undefined) ?? new Map();
+      if (!sums.has(x) && sums.size >= MAX_CHART_CATEGORIES) {
+        truncated = true;
+        return;
+      }
+      sums.set(x, (sums.get(x) ?? 0) + value);
+      seriesPoints.set(name, sums);
+    });
+  }
+
+  const series: ChartSeries[] = Array.from(seriesPoints, ([name, values]) => {
+    const points = Array.isArray(values)
+      ? values
+      : Array.from(values, ([x, y]) => ({ x, y }));
+    if (xKind !== 'categorical' && spec.type !== 'scatter') {
+      points.sort((a, b) => (a.x as number) - (b.x as number));
+    }
+    return { name, points };
+  });
+  return { xKind, series, truncated };
+}
+
+function toChartX(value: unknown, kind: ProfileKind): number | string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return kind === 'categorical' ? String(value) : toChartNumber(value, kind);
+}
+
+// Temporal values become epoch seconds, matching DuckDB's epoch().
+function toChartNumber(value: unknown, kind: ProfileKind): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  let number: number;
+  if (value instanceof Date) {
+    number = value.getTime() / 1000;
+  } else if (kind === 'temporal') {
+    number = Number(value) / 1000;
+  } else {
+    number = typeof value === 'number' ? value : Number(value);
+  }
+  return Number.isFinite(number) ? number : null;
+}
+
+function binValues(values: number[]): HistogramBin[] {
+  if (values.length === 0) {
+    return [];
+  }
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const value of values) {
+    lo = Math.min(lo, value);
+    hi = Math.max(hi, value);
+  }
+  const binCount = hi === lo ? 1 : HISTOGRAM_BINS;
+  const width = (hi - lo) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    lower: lo + index * width,
+    upper: index === binCount - 1 ? hi : lo + (index + 1) * width,
+    count: 0,
+  }));
+  for (const value of values) {
+    const index = width === 0 ? 0 : Math.min(binCount - 1, Math.floor((value - lo) / width));
+    bins[index].count++;
+  }
+  return bins;
+}
@@ -0,0 +1,182 @@
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { ColumnSchema } from '../loaders/types';
+import { queryInterruptibly } from './resultPager';
+import { formatIdentifierForSql, normalizeSqlForEmbedding } from './sqlHelpers';
+
+export type ProfileKind = 'numeric' | 'temporal' | 'categorical';
+
+export interface HistogramBin {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface TopValue {
+  value: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: string;
+  kind: ProfileKind;
+  count: number;
+  nullPercentage: number;
+  approxUnique: number;
+  // SUMMARIZE reports these as text so they work for every type.
+  min: string | null;
+  max: string | null;
+  avg: string | null;
+  std: string | null;
+  q25: string | null;
+  q50: string | null;
+  q75: string | null;
+  // Numeric and temporal columns; temporal bounds are epoch seconds.
+  histogram?: HistogramBin[];
+  // Categorical columns.
+  topValues?: TopValue[];
+}
+
+export const HISTOGRAM_BINS = 20;
+const TOP_VALUE_LIMIT = 10;
+
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|INTEGER|INT|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT|FLOAT|REAL|DOUBLE|DECIMAL|NUMERIC)\b/i;
+const TEMPORAL_TYPE = /^(DATE|TIMESTAMP|DATETIME)/i;
+
+export function classifyColumnType(type: string): ProfileKind {
+  if (NUMERIC_TYPE.test(type)) {
+    return 'numeric';
+  }
+  if (TEMPORAL_TYPE.test(type)) {
+    return 'temporal';
+  }
+  return 'categorical';
+}
+
+// Profiles every column of a query: SUMMARIZE for the statistics, then one
+// histogram or top-values query per column. Types come from `schema` when the
+// loader described the relation, otherwise from SUMMARIZE itself. A failed column
+// query is skipped, so `shouldStop` is what ends the loop when the queries are cancelled.
+export async function profileColumns(
+  connection: duckdb.AsyncDuckDBConnection,
+  sql: string,
+  schema: ColumnSchema[] = [],
+  onProgress?: (profiled: number, total: number) => void,
+  shouldStop: () => boolean = () => false
+): Promise<ColumnProfile[]> {
+  const summary = await queryInterruptibly(connection, `
+    SELECT
+      column_name, column_type, min, max, avg, std, q25, q50, q75,
+      CAST(approx_unique AS DOUBLE) AS approx_unique,
+      CAST(count AS DOUBLE) AS count,
+      CAST(null_percentage AS DOUBLE) AS null_percentage
+    FROM (SUMMARIZE SELECT * FROM ${embedQuery(sql)});
+  `);
+  const knownTypes = new Map(schema.map((column) => [column.name, column.type]));
+
+  const profiles: ColumnProfile[] = summary.toArray().map((row: any) => {
+    const type = knownTypes.get(row.column_name) ?? String(row.column_type);
+    return {
+      name: String(row.column_name),
+      type,
+      kind: classifyColumnType(type),
+      count: Number(row.count) || 0,
+      nullPercentage: Number(row.null_percentage) || 0,
+      approxUnique: Number(row.approx_unique) || 0,
+      min: textOrNull(row.min),
+      max: textOrNull(row.max),
+      avg: textOrNull(row.avg),
+      std: textOrNull(row.std),
+      q25: textOrNull(row.q25),
+      q50: textOrNull(row.q50),
+      q75: textOrNull(row.q75),
+    };
+  });
+
+  for (let index = 0; index < profiles.length && !shouldStop(); index++) {
+    onProgress?.(index, profiles.length);
+    const profile = profiles[index];
+    try {
+      if (profile.kind === 'categorical') {
+        profile.topValues = await queryTopValues(connection, sql, profile.name);
+      } else {
+        profile.histogram = await queryHistogram(connection, sql, profile.name, profile.kind);
+      }
+    } catch (error) {
+      // Leave the details out for types DuckDB cannot bin or group; the statistics still apply.
+      console.warn(`Could not profile column ${profile.name}:`, error);
+    }
+  }
+  onProgress?.(profiles.length, profiles.length);
+  return profiles;
+}
+
+// Counts the non-null values of a column in equal-width bins.
+export async function queryHistogram(
+  connection: duckdb.AsyncDuckDBConnection,
+  sql: string,
+  columnName: string,
+  kind: Exclude<ProfileKind, 'categorical'>
+): Promise<HistogramBin[]> {
+  const column = formatIdentifierForSql(columnName);
+  const value = kind === 'temporal'
+    ? `epoch(CAST(${column} AS TIMESTAMP))`
+    : `CAST(${column} AS DOUBLE)`;
+  const result = await queryInterruptibly(connection, `
+    WITH vals AS (
+      SELECT v FROM (SELECT ${value} AS v FROM ${embedQuery(sql)}) WHERE v IS NOT NULL AND isfinite(v)
+    ), bounds AS (
+      SELECT min(v) AS lo, max(v) AS hi FROM vals
+    )
+    SELECT
+      CAST(CASE WHEN hi = lo THEN 0 ELSE least(floor((v - lo) / (hi - lo) * ${HISTOGRAM_BINS}), ${HISTOGRAM_BINS - 1}) END AS INTEGER) AS bin,
+      CAST(count(*) AS DOUBLE) AS n,
+      any_value(lo) AS lo,
+      any_value(hi) AS hi
+    FROM vals, bounds
+    GROUP BY bin
+    ORDER BY bin;
+  `);
+  const rows = result.toArray() as any[];
+  if (rows.length === 0) {
+    return [];
+  }
+  const lo = Number(rows[0].lo);
+  const hi = Number(rows[0].hi);
+  const binCount = hi === lo ? 1 : HISTOGRAM_BINS;
+  const width = (hi - lo) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    lower: lo + index * width,
+    upper: index === binCount - 1 ? hi : lo + (index + 1) * width,
+    count: 0,
+  }));
+  for (const row of rows) {
+    bins[Number(row.bin)].count = Number(row.n);
+  }
+  return bins;
+}
+
+async function queryTopValues(
+  connection: duckdb.AsyncDuckDBConnection,
+  sql: string,
+  columnName: string
+): Promise<TopValue[]> {
+  const column = formatIdentifierForSql(columnName);
+  const result = await queryInterruptibly(connection, `
+    SELECT CAST(${column} AS VARCHAR) AS value, CAST(count(*) AS DOUBLE) AS n
+    FROM ${embedQuery(sql)}
+    WHERE ${column} IS NOT NULL
+    GROUP BY 1
+    ORDER BY n DESC, value
+    LIMIT ${TOP_VALUE_LIMIT};
+  `);
+  return (result.toArray() as any[]).map((row) => ({ value: String(row.value), count: Number(row.n) }));
+}
+
+function embedQuery(sql: string): string {
+  return `(\n${normalizeSqlForEmbedding(sql)}\n) AS profiled`;
+}
+
+function textOrNull(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
@@ -0,0 +1,111 @@
+import { ColumnSchema } from '../loaders/types';
+import { formatIdentifierForSql } from './sqlHelpers';
+
+// A column or nested field of a relation.
+export interface SchemaNode {
+  name: string;
+  type: string;
+  nullable?: boolean;
+  metadata?: Record<string, string>;
+  // What clicking the field inserts into SQL: the full path for columns and
+  // struct fields, the bare quoted name inside lists, nothing for list elements and map parts.
+  insertText: string | null;
+  children: SchemaNode[];
+}
+
+// Name of the node standing for the elements of a LIST.
+export const LIST_ELEMENT = '[]';
+
+export function buildSchemaTree(columns: ColumnSchema[]): SchemaNode[] {
+  return columns.map((column) => {
+    const path = formatIdentifierForSql(column.name);
+    return {
+      name: column.name,
+      type: column.type,
+      nullable: column.nullable,
+      metadata: column.metadata,
+      insertText: path,
+      children: nestedFields(column.type, path),
+    };
+  });
+}
+
+// Expands STRUCT, UNION, MAP and LIST types as printed by DuckDB, e.g.
+// STRUCT("a b" INTEGER, c VARCHAR[])[] or MAP(VARCHAR, STRUCT(x DOUBLE)).
+// `parentPath` is null below a LIST or MAP, where fields have no plain path.
+function nestedFields(type: string, parentPath: string | null): SchemaNode[] {
+  const trimmed = type.trim();
+  const list = /^(.*)\[\d*\]$/s.exec(trimmed);
+  if (list) {
+    return [{ name: LIST_ELEMENT, type: list[1], insertText: null, children: nestedFields(list[1], null) }];
+  }
+
+  const wrapper = /^(STRUCT|UNION|MAP)\s*\((.*)\)$/is.exec(trimmed);
+  if (!wrapper) {
+    return [];
+  }
+  const kind = wrapper[1].toUpperCase();
+  const parts = splitTopLevel(wrapper[2]);
+  if (kind === 'MAP') {
+    return parts.slice(0, 2).map((part, index) => ({
+      name: index === 0 ? 'key' : 'value',
+      type: part,
+      insertText: null,
+      children: nestedFields(part, null),
+    }));
+  }
+  return parts.map((part) => {
+    const [name, fieldType] = splitFieldDefinition(part);
+    const quotedName = formatIdentifierForSql(name);
+    const path = parentPath && kind === 'STRUCT' ? `${parentPath}.${quotedName}` : null;
+    return { name, type: fieldType, insertText: path ?? quotedName, children: nestedFields(fieldType, path) };
+  });
+}
+
+// Splits on commas that are not inside parentheses or double quotes.
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      depth++;
+    } else if (!quoted && char === ')') {
+      depth--;
+    } else if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+// `"field name" TYPE` or `field TYPE`; quoted names double embedded quotes.
+function splitFieldDefinition(definition: string): [string, string] {
+  if (definition.startsWith('"')) {
+    let index = 1;
+    let name = '';
+    while (index < definition.length) {
+      if (definition[index] === '"') {
+        if (definition[index + 1] === '"') {
+          name += '"';
+          index += 2;
+          continue;
+        }
+        break;
+      }
+      name += definition[index++];
+    }
+    return [name, definition.slice(index + 1).trim()];
+  }
+  const space = definition.search(/\s/);
+  return space < 0 ? [definition, ''] : [definition.slice(0, space), definition.slice(space + 1).trim()];
+}
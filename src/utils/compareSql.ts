@@ -0,0 +1,144 @@
+import { ColumnSchema } from '../loaders/types';
+import { formatIdentifierForSql, formatStringForSql } from './sqlHelpers';
+
+// Column of the comparison telling how a row changed: added, removed, changed or unchanged.
+export const CHANGE_COLUMN = '_change';
+// Column holding, for changed rows, the previous value of each changed column as text.
+export const BEFORE_COLUMN = '_before';
+export const CHANGE_KINDS = ['added', 'removed', 'changed', 'unchanged'] as const;
+export type ChangeKind = typeof CHANGE_KINDS[number];
+
+// Compares `left` (before) with `right` (after). Rows are matched on the key columns;
+// without keys they are matched on all compared columns, so a changed row shows up
+// as one removed and one added row.
+export interface ComparisonPlan {
+  left: string;
+  right: string;
+  leftSchema: ColumnSchema[];
+  rightSchema: ColumnSchema[];
+  keyColumns: string[];
+}
+
+export interface SchemaDifference {
+  column: string;
+  change: 'added' | 'removed' | 'typeChanged';
+  leftType?: string;
+  rightType?: string;
+}
+
+export function compareSchemas(leftSchema: ColumnSchema[], rightSchema: ColumnSchema[]): SchemaDifference[] {
+  const rightTypes = new Map(rightSchema.map((column) => [column.name, column.type]));
+  const leftTypes = new Map(leftSchema.map((column) => [column.name, column.type]));
+  const differences: SchemaDifference[] = [];
+  leftSchema.forEach((column) => {
+    const rightType = rightTypes.get(column.name);
+    if (rightType === undefined) {
+      differences.push({ column: column.name, change: 'removed', leftType: column.type });
+    } else if (rightType !== column.type) {
+      differences.push({ column: column.name, change: 'typeChanged', leftType: column.type, rightType });
+    }
+  });
+  rightSchema.forEach((column) => {
+    if (!leftTypes.has(column.name)) {
+      differences.push({ column: column.name, change: 'added', rightType: column.type });
+    }
+  });
+  return differences;
+}
+
+// Columns in both relations, in the order of the left one.
+export function commonColumns(leftSchema: ColumnSchema[], rightSchema: ColumnSchema[]): string[] {
+  const rightNames = new Set(rightSchema.map((column) => column.name));
+  return leftSchema.map((column) => column.name).filter((name) => rightNames.has(name));
+}
+
+// Every row of both sides with its `_change`; the view users see leaves out unchanged rows.
+export function buildComparisonSql(plan: ComparisonPlan): string {
+  const columns = commonColumns(plan.leftSchema, plan.rightSchema);
+  // Columns whose type changed are compared, and shown, as text.
+  const retyped = new Set(compareSchemas(plan.leftSchema, plan.rightSchema)
+    .filter((difference) => difference.change === 'typeChanged')
+    .map((difference) => difference.column));
+  const side = (alias: string, column: string) => {
+    const reference = `${alias}.${formatIdentifierForSql(column)}`;
+    return retyped.has(column) ? `${reference}::VARCHAR` : reference;
+  };
+  const selectList = (relation: string) => `SELECT ${columns.map(formatIdentifierForSql).join(', ')}, true AS __present FROM ${relation}`;
+
+  if (plan.keyColumns.length === 0) {
+    const columnList = columns
+      .map((column) => (retyped.has(column)
+        ? `${formatIdentifierForSql(column)}::VARCHAR AS ${formatIdentifierForSql(column)}`
+        : formatIdentifierForSql(column)))
+      .join(', ');
+    const outputList = columns.map(formatIdentifierForSql).join(', ');
+    const difference = (from: string, to: string) => `SELECT ${columnList} FROM ${from} EXCEPT ALL SELECT ${columnList} FROM ${to}`;
+    return [
+      `SELECT 'removed' AS ${CHANGE_COLUMN}, ${outputList}, NULL::MAP(VARCHAR, VARCHAR) AS ${BEFORE_COLUMN} FROM (${difference(plan.left, plan.right)})`,
+      `UNION ALL`,
+      `SELECT 'added' AS ${CHANGE_COLUMN}, ${outputList}, NULL::MAP(VARCHAR, VARCHAR) AS ${BEFORE_COLUMN} FROM (${difference(plan.right, plan.left)})`,
+    ].join('\n');
+  }
+
+  const keys = new Set(plan.keyColumns);
+  const valueColumns = columns.filter((column) => !keys.has(column));
+  const keyOutputs = plan.keyColumns.map((column) => `COALESCE(${side('l', column)}, ${side('r', column)}) AS ${formatIdentifierForSql(column)}`);
+  const valueOutputs = valueColumns.map((column) => (
+    `CASE WHEN r.__present IS NULL THEN ${side('l', column)} ELSE ${side('r', column)} END AS ${formatIdentifierForSql(column)}`
+  ));
+  const changes = valueColumns.map((column) => (
+    `{'key': ${formatStringForSql(column)}, 'value': l.${formatIdentifierForSql(column)}::VARCHAR, 'changed': ${side('l', column)} IS DISTINCT FROM ${side('r', column)}}`
+  ));
+  const before = changes.length > 0
+    ? `CASE WHEN l.__present AND r.__present THEN map_from_entries([{'key': e.key, 'value': e.value} FOR e IN [${changes.join(', ')}] IF e.changed]) END`
+    : `CASE WHEN l.__present AND r.__present THEN MAP {}::MAP(VARCHAR, VARCHAR) END`;
+  const join = plan.keyColumns.map((column) => `${side('l', column)} IS NOT DISTINCT FROM ${side('r', column)}`).join(' AND ');
+
+  return [
+    `SELECT`,
+    `  CASE WHEN __left IS NULL THEN 'added' WHEN __right IS NULL THEN 'removed' WHEN cardinality(${BEFORE_COLUMN}) > 0 THEN 'changed' ELSE 'unchanged' END AS ${CHANGE_COLUMN},`,
+    `  * EXCLUDE (__left, __right)`,
+    `FROM (`,
+    `  SELECT l.__present AS __left, r.__present AS __right,`,
+    `    ${[...keyOutputs, ...valueOutputs, `${before} AS ${BEFORE_COLUMN}`].join(',\n    ')}`,
+    `  FROM (${selectList(plan.left)}) l`,
+    `  FULL OUTER JOIN (${selectList(plan.right)}) r ON ${join}`,
+    `)`,
+  ].join('\n');
+}
+
+// Rows per change kind. Without keys, unchanged rows are those of the left side not removed.
+export function buildComparisonCountsSql(plan: ComparisonPlan, comparison: string): string {
+  if (plan.keyColumns.length === 0) {
+    return `SELECT ${CHANGE_COLUMN}, COUNT(*) AS row_count FROM ${comparison} GROUP BY ALL
+UNION ALL
+SELECT 'unchanged', (SELECT COUNT(*) FROM ${plan.left}) - (SELECT COUNT(*) FROM ${comparison} WHERE ${CHANGE_COLUMN} = 'removed')`;
+  }
+  return `SELECT ${CHANGE_COLUMN}, COUNT(*) AS row_count FROM ${comparison} GROUP BY ALL`;
+}
+
+// For each column: whether it has no NULLs and no duplicates in `relation`.
+export function buildKeyCandidatesSql(relation: string, columns: string[]): string {
+  const checks = columns.flatMap((column, index) => [
+    `COUNT(DISTINCT ${formatIdentifierForSql(column)}) AS d${index}`,
+    `COUNT(${formatIdentifierForSql(column)}) AS v${index}`,
+  ]);
+  return `SELECT COUNT(*) AS n, ${checks.join(', ')} FROM ${relation}`;
+}
+
+export function uniqueColumns(columns: string[], counts: Record<string, unknown>): string[] {
+  const total = Number(counts.n);
+  return columns.filter((_, index) => Number(counts[`d${index}`]) === total && Number(counts[`v${index}`]) === total);
+}
+
+// Names that usually mark a key: id, key, customer_id, orderId, …
+const KEY_NAME = /(^|_)(id|key)$/i;
+const CAMEL_KEY_NAME = /[a-z](Id|Key)$/;
+
+// The suggested key: a column unique in both relations, preferring key-like names.
+export function suggestKeyColumns(candidates: string[]): string[] {
+  const named = candidates.find((column) => /^(id|key)$/i.test(column))
+    ?? candidates.find((column) => KEY_NAME.test(column) || CAMEL_KEY_NAME.test(column))
+    ?? candidates[0];
+  return named ? [named] : [];
+}
@@ -0,0 +1,155 @@
+import { CsvField, CsvTable } from './csvText';
+
+// One change to a CSV table. Every edit carries what it replaces or removes,
+// so the editor can undo it by applying its inverse.
+export type CsvEdit =
+  | { kind: 'setCell'; row: number; column: number; value: string; previous: string }
+  | { kind: 'insertRows'; index: number; rows: CsvField[][] }
+  | { kind: 'deleteRows'; index: number; rows: CsvField[][] }
+  | { kind: 'insertColumn'; index: number; header: CsvField; values: CsvField[] }
+  | { kind: 'deleteColumn'; index: number; header: CsvField; values: CsvField[] }
+  | { kind: 'renameColumn'; column: number; name: string; previous: string };
+
+// Applies an edit in place.
+export function applyCsvEdit(table: CsvTable, edit: CsvEdit) {
+  switch (edit.kind) {
+    case 'setCell': {
+      const field = table.rows[edit.row]?.[edit.column];
+      if (field) {
+        field.value = edit.value;
+      }
+      break;
+    }
+    case 'insertRows':
+      table.rows.splice(edit.index, 0, ...edit.rows.map((row) => row.map((field) => ({ ...field }))));
+      break;
+    case 'deleteRows':
+      table.rows.splice(edit.index, edit.rows.length);
+      break;
+    case 'insertColumn':
+      table.columns.splice(edit.index, 0, { ...edit.header });
+      table.rows.forEach((row, rowIndex) => {
+        row.splice(edit.index, 0, { ...(edit.values[rowIndex] ?? { value: '', quoted: false }) });
+      });
+      break;
+    case 'deleteColumn':
+      table.columns.splice(edit.index, 1);
+      table.rows.forEach((row) => row.splice(edit.index, 1));
+      break;
+    case 'renameColumn': {
+      const column = table.columns[edit.column];
+      if (column) {
+        column.value = edit.name;
+      }
+      break;
+    }
+  }
+}
+
+export function invertCsvEdit(edit: CsvEdit): CsvEdit {
+  switch (edit.kind) {
+    case 'setCell':
+      return { ...edit, value: edit.previous, previous: edit.value };
+    case 'insertRows':
+      return { ...edit, kind: 'deleteRows' };
+    case 'deleteRows':
+      return { ...edit, kind: 'insertRows' };
+    case 'insertColumn':
+      return { ...edit, kind: 'deleteColumn' };
+    case 'deleteColumn':
+      return { ...edit, kind: 'insertColumn' };
+    case 'renameColumn':
+      return { ...edit, name: edit.previous, previous: edit.name };
+  }
+}
+
+// Short description of an edit, shown in the undo stack.
+export function describeCsvEdit(edit: CsvEdit): string {
+  switch (edit.kind) {
+    case 'setCell':
+      return 'Edit Cell';
+    case 'insertRows':
+      return edit.rows.length === 1 ? 'Add Row' : 'Add Rows';
+    case 'deleteRows':
+      return edit.rows.length === 1 ? 'Delete Row' : 'Delete Rows';
+    case 'insertColumn':
+      return 'Add Column';
+    case 'deleteColumn':
+      return 'Delete Column';
+    case 'renameColumn':
+      return 'Rename Column';
+  }
+}
+
+// Takes what an edit replaces or removes from the table it is about to apply to. The
+// webview builds edits from its copy, which lags behind edits still on their way back to it.
+export function rebaseCsvEdit(table: CsvTable, edit: CsvEdit): CsvEdit {
+  switch (edit.kind) {
+    case 'setCell':
+      return setCellEdit(table, edit.row, edit.column, edit.value);
+    case 'deleteRows':
+      return deleteRowsEdit(table, edit.index, edit.rows.length);
+    case 'deleteColumn':
+      return deleteColumnEdit(table, edit.index);
+    case 'renameColumn':
+      return renameColumnEdit(table, edit.column, edit.name);
+    default:
+      return edit;
+  }
+}
+
+// The edits below are built from the table they will apply to.
+
+export function setCellEdit(table: CsvTable, row: number, column: number, value: string): CsvEdit {
+  return { kind: 'setCell', row, column, value, previous: table.rows[row]?.[column]?.value ?? '' };
+}
+
+// A new row is quoted like the row next to it, so files that quote some columns stay that way.
+export function insertRowEdit(table: CsvTable, index: number): CsvEdit {
+  const neighbour = table.rows[index] ?? table.rows[index - 1];
+  const row = table.columns.map((_, column) => ({ value: '', quoted: neighbour?.[column]?.quoted ?? false }));
+  return { kind: 'insertRows', index, rows: [row] };
+}
+
+export function deleteRowsEdit(table: CsvTable, index: number, count = 1): CsvEdit {
+  return { kind: 'deleteRows', index, rows: table.rows.slice(index, index + count) };
+}
+
+// New columns are quoted only in files that quote every field. A short row or blank line
+// the column lands in the padding of stays as it was.
+export function insertColumnEdit(table: CsvTable, index: number, name: string): CsvEdit {
+  const headerQuoted = table.columns.length > 0 && table.columns.every((column) => column.quoted);
+  const valuesQuoted = table.rows.length > 0
+    && table.rows.every((row) => row.every((field) => field.quoted || field.padded));
+  return {
+    kind: 'insertColumn',
+    index,
+    header: { value: name, quoted: headerQuoted },
+    values: table.rows.map((row) => ((row[index] ?? row[index - 1])?.padded
+      ? { value: '', quoted: false, padded: true }
+      : { value: '', quoted: valuesQuoted })),
+  };
+}
+
+export function deleteColumnEdit(table: CsvTable, index: number): CsvEdit {
+  return {
+    kind: 'deleteColumn',
+    index,
+    header: table.columns[index],
+    values: table.rows.map((row) => row[index]),
+  };
+}
+
+export function renameColumnEdit(table: CsvTable, column: number, name: string): CsvEdit {
+  return { kind: 'renameColumn', column, name, previous: table.columns[column]?.value ?? '' };
+}
+
+// A column name not yet in the table, e.g. "column_3".
+export function newColumnName(table: CsvTable): string {
+  const taken = new Set(table.columns.map((column) => column.value.toLowerCase()));
+  let suffix = table.columns.length + 1;
+  while (taken.has(`column_${suffix}`)) {
+    suffix++;
+  }
+  return `column_${suffix}`;
+}
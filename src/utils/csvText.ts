@@ -0,0 +1,246 @@
+// Reads and writes delimited text for the CSV editor, keeping what is needed to write
+// a file back the way it was found: encoding, delimiter, quote character, which fields
+// were quoted, short rows and blank lines, line endings, a byte order mark and the
+// final line break.
+
+export interface CsvField {
+  value: string;
+  quoted: boolean;
+  // Not in the file: filled in to bring a short record up to the table's width.
+  padded?: boolean;
+}
+
+// The first line is always taken as the header; short rows are padded with empty fields
+// and a blank line is a row of padding, so both are written back as they were.
+export interface CsvTable {
+  columns: CsvField[];
+  rows: CsvField[][];
+}
+
+// The encodings the viewer's import options offer, with UTF-16's byte order made explicit.
+export type CsvTextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin-1';
+
+export interface CsvTextFormat {
+  encoding: CsvTextEncoding;
+  delimiter: string;
+  quote: string;
+  lineEnding: '\r\n' | '\n' | '\r';
+  byteOrderMark: boolean;
+  trailingNewline: boolean;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const EXTENSION_DELIMITERS: Record<string, string> = { tsv: '\t', psv: '|' };
+// Lines the delimiter sniffer looks at.
+const SNIFF_LINES = 20;
+// Bytes turned into characters at a time; more arguments than this can overflow the stack.
+const DECODE_CHUNK_BYTES = 0x8000;
+
+// Decodes a file in the encoding remembered from the viewer's import options, UTF-8 when
+// there is none. A byte order mark stays in the text, so it is written back too. Bytes that
+// are not valid UTF-8 are an error rather than replacement characters a save would keep.
+export function decodeCsvBytes(bytes: Uint8Array, encoding = 'utf-8'): { text: string; encoding: CsvTextEncoding } {
+  if (encoding === 'latin-1') {
+    let text = '';
+    for (let offset = 0; offset < bytes.length; offset += DECODE_CHUNK_BYTES) {
+      text += String.fromCharCode(...bytes.subarray(offset, offset + DECODE_CHUNK_BYTES));
+    }
+    return { text, encoding: 'latin-1' };
+  }
+  if (encoding === 'utf-16') {
+    const utf16 = bytes[0] === 0xfe && bytes[1] === 0xff ? 'utf-16be' : 'utf-16le';
+    return { text: new TextDecoder(utf16, { ignoreBOM: true }).decode(bytes), encoding: utf16 };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { ignoreBOM: true, fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    throw new Error('The file is not valid UTF-8. Set its encoding in the viewer\'s CSV import options to edit it.');
+  }
+}
+
+export function encodeCsvText(text: string, encoding: CsvTextEncoding): Uint8Array {
+  if (encoding === 'latin-1') {
+    const bytes = new Uint8Array(text.length);
+    for (let index = 0; index < text.length; index++) {
+      const code = text.charCodeAt(index);
+      if (code > 0xff) {
+        throw new Error(`"${text[index]}" cannot be written in latin-1.`);
+      }
+      bytes[index] = code;
+    }
+    return bytes;
+  }
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+    const bytes = new Uint8Array(text.length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let index = 0; index < text.length; index++) {
+      view.setUint16(index * 2, text.charCodeAt(index), encoding === 'utf-16le');
+    }
+    return bytes;
+  }
+  return new TextEncoder().encode(text);
+}
+
+// Finds the delimiter from the file extension, the given options, or the first lines:
+// the candidate that splits them most consistently into more than one field.
+export function detectCsvTextFormat(
+  text: string,
+  fileName: string,
+  preferred: { delimiter?: string; quote?: string; encoding?: CsvTextEncoding } = {}
+): CsvTextFormat {
+  const byteOrderMark = text.startsWith('\uFEFF');
+  const body = byteOrderMark ? text.slice(1) : text;
+  const lineBreak = /\r\n|\n|\r/.exec(body)?.[0];
+  const lineEnding = lineBreak === '\r\n' || lineBreak === '\r' ? lineBreak : '\n';
+  const quote = preferred.quote || '"';
+  const extension = /\.([^./\\]+)$/.exec(fileName)?.[1].toLowerCase();
+  const delimiter = preferred.delimiter
+    || (extension ? EXTENSION_DELIMITERS[extension] : undefined)
+    || sniffDelimiter(body, quote);
+  return {
+    encoding: preferred.encoding ?? 'utf-8',
+    delimiter,
+    quote,
+    lineEnding,
+    byteOrderMark,
+    trailingNewline: /(\r\n|\n|\r)$/.test(body),
+  };
+}
+
+function sniffDelimiter(text: string, quote: string): string {
+  const sample = text.split(/\r\n|\n|\r/).slice(0, SNIFF_LINES).filter((line) => line.length > 0);
+  let best = ',';
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    const counts = sample.map((line) => countOutsideQuotes(line, delimiter, quote));
+    if (counts.length === 0 || counts[0] === 0) {
+      return;
+    }
+    // Lines agreeing with the header count most; more fields break ties.
+    const score = counts.filter((count) => count === counts[0]).length * 1000 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function countOutsideQuotes(line: string, delimiter: string, quote: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const character of line) {
+    if (character === quote) {
+      quoted = !quoted;
+    } else if (character === delimiter && !quoted) {
+      count++;
+    }
+  }
+  return count;
+}
+
+// Quotes inside quoted fields are doubled, as RFC 4180 has it.
+export function parseCsvText(text: string, format: CsvTextFormat): CsvTable {
+  const body = format.byteOrderMark && text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const { delimiter, quote } = format;
+  const records: CsvField[][] = [];
+  let record: CsvField[] = [];
+  let value = '';
+  let quoted = false;
+  let inQuotes = false;
+  let fieldStarted = false;
+
+  const endField = () => {
+    record.push({ value, quoted });
+    value = '';
+    quoted = false;
+    fieldStarted = false;
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  for (let index = 0; index < body.length; index++) {
+    const character = body[index];
+    if (inQuotes) {
+      if (character !== quote) {
+        value += character;
+      } else if (body[index + 1] === quote) {
+        value += quote;
+        index++;
+      } else {
+        inQuotes = false;
+      }
+      continue;
+    }
+    if (character === quote && !fieldStarted) {
+      inQuotes = true;
+      quoted = true;
+      fieldStarted = true;
+    } else if (character === delimiter) {
+      endField();
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && body[index + 1] === '\n') {
+        index++;
+      }
+      endRecord();
+    } else {
+      value += character;
+      fieldStarted = true;
+    }
+  }
+  if (fieldStarted || record.length > 0) {
+    endRecord();
+  }
+
+  const [columns = [], ...rows] = records;
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), columns.length);
+  // Rows longer than the header get named columns of their own.
+  for (let index = columns.length; index < width; index++) {
+    columns.push({ value: paddedColumnName(index), quoted: false, padded: true });
+  }
+  rows.forEach((row) => {
+    // A blank line reads as one empty field.
+    if (row.length === 1 && row[0].value === '' && !row[0].quoted) {
+      row[0].padded = true;
+    }
+    while (row.length < width) {
+      row.push({ value: '', quoted: false, padded: true });
+    }
+  });
+  return { columns, rows };
+}
+
+// Fields are quoted when they were in the file, or when their value needs it.
+export function serializeCsvText(table: CsvTable, format: CsvTextFormat): string {
+  const { delimiter, quote, lineEnding } = format;
+  const writeField = (field: CsvField) => {
+    const needsQuotes = field.value.includes(delimiter)
+      || field.value.includes(quote)
+      || /[\r\n]/.test(field.value);
+    return field.quoted || needsQuotes
+      ? `${quote}${field.value.split(quote).join(quote + quote)}${quote}`
+      : field.value;
+  };
+  const lines = [
+    withoutPadding(table.columns, paddedColumnName),
+    ...table.rows.map((row) => withoutPadding(row, () => '')),
+  ].map((record) => record.map(writeField).join(delimiter));
+  const text = lines.join(lineEnding);
+  return `${format.byteOrderMark ? '\uFEFF' : ''}${text}${format.trailingNewline && table.columns.length > 0 ? lineEnding : ''}`;
+}
+
+function paddedColumnName(index: number): string {
+  return `column${index + 1}`;
+}
+
+// Drops the padding at the end of a record while it still holds what the parser filled in.
+function withoutPadding(record: CsvField[], filler: (index: number) => string): CsvField[] {
+  let length = record.length;
+  while (length > 0 && record[length - 1].padded && record[length - 1].value === filler(length - 1)) {
+    length--;
+  }
+  return record.slice(0, length);
+}
@@ -0,0 +1,177 @@
+import { ColumnSchema } from '../loaders/types';
+import { formatIdentifierForSql, formatStringForSql } from './sqlHelpers';
+
+export type ExportFormat = 'csv' | 'parquet' | 'arrow' | 'json' | 'xlsx' | 'markdown' | 'html' | 'sql';
+export type ParquetCompression = 'snappy' | 'zstd' | 'gzip' | 'lz4_raw' | 'uncompressed';
+// Formats DuckDB writes whole with COPY; the rest are built here a batch at a time,
+// from the rows as text or by Arrow.
+export type CopyExportFormat = 'parquet' | 'xlsx';
+export type TextExportFormat = 'csv' | 'json' | 'markdown' | 'html' | 'sql';
+
+export interface ExportOptions {
+  csvDelimiter?: string;
+  csvQuote?: string;
+  parquetCompression?: ParquetCompression;
+  parquetRowGroupSize?: number;
+  // One array of objects, or one object per line (NDJSON).
+  jsonLayout?: 'array' | 'lines';
+  // Table the INSERT statements target.
+  sqlTableName?: string;
+}
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: 'csv', label: 'CSV' },
+  { id: 'parquet', label: 'Parquet' },
+  { id: 'arrow', label: 'Arrow IPC' },
+  { id: 'json', label: 'JSON / NDJSON' },
+  { id: 'xlsx', label: 'Excel (.xlsx)' },
+  { id: 'markdown', label: 'Markdown table' },
+  { id: 'html', label: 'HTML table' },
+  { id: 'sql', label: 'SQL INSERT statements' },
+];
+
+export const PARQUET_COMPRESSIONS: ParquetCompression[] = ['snappy', 'zstd', 'gzip', 'lz4_raw', 'uncompressed'];
+
+export function isCopyExportFormat(format: ExportFormat): format is CopyExportFormat {
+  return format === 'parquet' || format === 'xlsx';
+}
+
+export function isTextExportFormat(format: ExportFormat): format is TextExportFormat {
+  return format === 'csv' || format === 'json' || format === 'markdown' || format === 'html' || format === 'sql';
+}
+
+// File extension of an export, which is also the kind of file the extension offers to save.
+export function exportExtension(format: ExportFormat, options: ExportOptions): string {
+  if (format === 'json') {
+    return options.jsonLayout === 'lines' ? 'ndjson' : 'json';
+  }
+  if (format === 'markdown') {
+    return 'md';
+  }
+  return format;
+}
+
+// The options clause of `COPY … TO` for formats DuckDB writes itself.
+export function buildCopyOptions(format: CopyExportFormat, options: ExportOptions): string {
+  if (format === 'parquet') {
+    const clauses = ['FORMAT PARQUET', `COMPRESSION ${options.parquetCompression ?? 'snappy'}`];
+    if (options.parquetRowGroupSize && options.parquetRowGroupSize > 0) {
+      clauses.push(`ROW_GROUP_SIZE ${Math.floor(options.parquetRowGroupSize)}`);
+    }
+    return clauses.join(', ');
+  }
+  return 'FORMAT xlsx, HEADER true';
+}
+
+// Selects every column as DuckDB prints it, so text exports show values the way the grid
+// does. JSON selects each row as one object instead, as COPY … (FORMAT JSON) writes it.
+export function buildTextExportQuery(format: TextExportFormat, sql: string, schema: ColumnSchema[]): string {
+  if (format === 'json') {
+    return `SELECT CAST(to_json(${JSON_ROW_ALIAS}) AS VARCHAR) AS c0 FROM (${sql}) AS ${JSON_ROW_ALIAS}`;
+  }
+  const columns = schema
+    .map((column, index) => `CAST(${formatIdentifierForSql(column.name)} AS VARCHAR) AS c${index}`)
+    .join(', ');
+  return `SELECT ${columns || '*'} FROM (${sql})`;
+}
+
+// Turns rows of text values (null for NULL) into CSV, JSON, a Markdown table, an HTML table or INSERT statements.
+export interface TextExporter {
+  header(): string;
+  rows(rows: Array<Array<string | null>>): string;
+  footer(): string;
+}
+
+export function createTextExporter(format: TextExportFormat, schema: ColumnSchema[], options: ExportOptions): TextExporter {
+  const names = schema.map((column) => column.name);
+  if (format === 'csv') {
+    const delimiter = options.csvDelimiter || ',';
+    const quote = options.csvQuote || '"';
+    // As COPY writes it: NULL is left empty, an empty string is quoted, and quotes inside values are doubled.
+    const escapeCell = (value: string | null) => {
+      if (value === null) {
+        return '';
+      }
+      if (value === '' || value.includes(delimiter) || value.includes(quote) || /[\r\n]/.test(value)) {
+        return `${quote}${value.split(quote).join(quote + quote)}${quote}`;
+      }
+      return value;
+    };
+    const line = (values: Array<string | null>) => `${values.map(escapeCell).join(delimiter)}\n`;
+    return {
+      header: () => line(names),
+      rows: (rows) => rows.map(line).join(''),
+      footer: () => '',
+    };
+  }
+  if (format === 'json') {
+    if (options.jsonLayout === 'lines') {
+      return {
+        header: () => '',
+        rows: (rows) => rows.map(([value]) => `${value}\n`).join(''),
+        footer: () => '',
+      };
+    }
+    // Rows come in batches, so the exporter remembers whether a comma goes before the next one.
+    let empty = true;
+    return {
+      header: () => '[\n',
+      rows: (rows) => rows.map(([value]) => {
+        const separator = empty ? '' : ',\n';
+        empty = false;
+        return `${separator}\t${value}`;
+      }).join(''),
+      footer: () => (empty ? ']\n' : '\n]\n'),
+    };
+  }
+  if (format === 'markdown') {
+    const escapeCell = (value: string) => value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |\n`;
+    return {
+      header: () => line(names.map(escapeCell)) + line(names.map(() => '---')),
+      rows: (rows) => rows.map((row) => line(row.map((value) => escapeCell(value ?? '')))).join(''),
+      footer: () => '',
+    };
+  }
+  if (format === 'html') {
+    const cells = (tag: string, values: Array<string | null>) => values
+      .map((value) => `<${tag}>${escapeHtmlText(value ?? '')}</${tag}>`)
+      .join('');
+    return {
+      header: () => `<table>\n  <thead>\n    <tr>${cells('th', names)}</tr>\n  </thead>\n  <tbody>\n`,
+      rows: (rows) => rows.map((row) => `    <tr>${cells('td', row)}</tr>\n`).join(''),
+      footer: () => '  </tbody>\n</table>\n',
+    };
+  }
+  const target = formatIdentifierForSql(options.sqlTableName?.trim() || 'exported_rows');
+  const columnList = names.map(formatIdentifierForSql).join(', ');
+  return {
+    header: () => '',
+    rows: (rows) => rows
+      .map((row) => `INSERT INTO ${target} (${columnList}) VALUES (${row.map((value, index) => sqlLiteral(value, schema[index].type)).join(', ')});\n`)
+      .join(''),
+    footer: () => '',
+  };
+}
+
+// Refers to the whole row; unlikely to be shadowed by a column of the same name.
+const JSON_ROW_ALIAS = '__exported_row';
+const NUMERIC_TYPE = /^(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|UHUGEINT|FLOAT|DOUBLE|DECIMAL(\(.*\))?)$/i;
+const TEXT_TYPE = /^(VARCHAR|TEXT|STRING)$/i;
+
+// Numbers and booleans are written as they are; everything else as a string cast
+// back to its type, which DuckDB reads for dates, nested values, blobs and the like.
+function sqlLiteral(value: string | null, type: string): string {
+  if (value === null) {
+    return 'NULL';
+  }
+  if ((NUMERIC_TYPE.test(type) && /^-?\d/.test(value)) || (/^BOOLEAN$/i.test(type))) {
+    return value;
+  }
+  const literal = formatStringForSql(value);
+  return TEXT_TYPE.test(type) ? literal : `${literal}::${type}`;
+}
+
+function escapeHtmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
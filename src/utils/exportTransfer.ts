@@ -0,0 +1,182 @@
+import { AsyncByteQueue, RecordBatchFileWriter } from 'apache-arrow';
+import { readAllBatches, ResultPager } from './resultPager';
+
+// Exports are written by the extension into a file the user picked before the export
+// started. Bytes go over in binary chunks, each acknowledged once it is on disk, so
+// neither side holds more than a chunk or two of the export at a time.
+
+// Large enough to keep round trips few, small enough to keep each message cheap.
+const EXPORT_CHUNK_BYTES = 4 * 1024 * 1024;
+
+type PostMessage = (message: unknown) => void;
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super('Export cancelled.');
+  }
+}
+
+interface PendingReply {
+  resolve: (reply: any) => void;
+  reject: (error: Error) => void;
+}
+
+// Transfers waiting for the extension, by export id.
+const pendingReplies = new Map<string, PendingReply>();
+const cancelListeners = new Map<string, () => void>();
+
+export class ExportTransfer {
+  private buffered: Uint8Array[] = [];
+  private bufferedBytes = 0;
+  private cancelRequested = false;
+  // Called when the user cancels from the progress notification.
+  onCancel: (() => void) | null = null;
+
+  private constructor(
+    private readonly post: PostMessage,
+    private readonly exportId: string
+  ) {
+    cancelListeners.set(exportId, () => {
+      this.cancelRequested = true;
+      this.onCancel?.();
+    });
+  }
+
+  get cancelled(): boolean {
+    return this.cancelRequested;
+  }
+
+  // Asks the extension for a target file; null when the user dismissed the save dialog.
+  static async begin(post: PostMessage, fileName: string, format: string): Promise<ExportTransfer | null> {
+    const exportId = crypto.randomUUID();
+    const reply = await request(exportId, () => post({ command: 'exportStart', exportId, fileName, format }));
+    return reply.accepted ? new ExportTransfer(post, exportId) : null;
+  }
+
+  // Queues bytes and sends every full chunk.
+  async write(bytes: Uint8Array) {
+    this.throwIfCancelled();
+    this.buffered.push(bytes);
+    this.bufferedBytes += bytes.byteLength;
+    while (this.bufferedBytes >= EXPORT_CHUNK_BYTES) {
+      await this.sendChunk(this.takeBuffered(EXPORT_CHUNK_BYTES));
+    }
+  }
+
+  // Sends what is left and lets the extension close the file.
+  async finish() {
+    if (this.bufferedBytes > 0) {
+      await this.sendChunk(this.takeBuffered(this.bufferedBytes));
+    }
+    await request(this.exportId, () => this.post({ command: 'exportEnd', exportId: this.exportId }));
+    this.dispose();
+  }
+
+  // Drops the partly written file.
+  abort() {
+    this.post({ command: 'exportAbort', exportId: this.exportId });
+    this.dispose();
+  }
+
+  private async sendChunk(chunk: Uint8Array) {
+    const reply = await request(this.exportId, () => this.post({ command: 'exportChunk', exportId: this.exportId, chunk }));
+    if (reply.cancelled) {
+      this.cancelRequested = true;
+    }
+    this.throwIfCancelled();
+  }
+
+  // Joins buffered pieces into one chunk of `length` bytes.
+  private takeBuffered(length: number): Uint8Array {
+    const chunk = new Uint8Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const piece = this.buffered[0];
+      const take = Math.min(piece.byteLength, length - offset);
+      chunk.set(piece.subarray(0, take), offset);
+      offset += take;
+      if (take === piece.byteLength) {
+        this.buffered.shift();
+      } else {
+        this.buffered[0] = piece.subarray(take);
+      }
+    }
+    this.bufferedBytes -= length;
+    return chunk;
+  }
+
+  private throwIfCancelled() {
+    if (this.cancelRequested) {
+      throw new ExportCancelledError();
+    }
+  }
+
+  private dispose() {
+    this.buffered = [];
+    this.bufferedBytes = 0;
+    cancelListeners.delete(this.exportId);
+    pendingReplies.delete(this.exportId);
+  }
+}
+
+// Routes the extension's export replies; returns false for other messages.
+export function handleExportReply(message: any): boolean {
+  if (message?.command === 'exportCancel') {
+    cancelListeners.get(message.exportId)?.();
+    return true;
+  }
+  if (message?.command !== 'exportReply') {
+    return false;
+  }
+  const pending = pendingReplies.get(message.exportId);
+  pendingReplies.delete(message.exportId);
+  if (typeof message.error === 'string') {
+    pending?.reject(new Error(message.error));
+  } else {
+    pending?.resolve(message);
+  }
+  return true;
+}
+
+function request(exportId: string, send: () => void): Promise<any> {
+  return new Promise((resolve, reject) => {
+    pendingReplies.set(exportId, { resolve, reject });
+    send();
+  });
+}
+
+// Holds what an Arrow writer emits until it is handed to the transfer.
+class ArrowChunkSink extends AsyncByteQueue {
+  private chunks: Uint8Array[] = [];
+
+  write(value: Uint8Array) {
+    if (value.byteLength > 0) {
+      this.chunks.push(value);
+    }
+  }
+
+  take(): Uint8Array[] {
+    const chunks = this.chunks;
+    this.chunks = [];
+    return chunks;
+  }
+}
+
+// Writes a query result as an Arrow IPC file one record batch at a time, so the
+// result is never held whole.
+export async function streamArrowFile(pager: ResultPager, transfer: ExportTransfer) {
+  const sink = new ArrowChunkSink();
+  const writer = new RecordBatchFileWriter().reset(sink, pager.schema);
+  const send = async () => {
+    for (const chunk of sink.take()) {
+      await transfer.write(chunk);
+    }
+  };
+  for await (const batch of readAllBatches(pager)) {
+    writer.write(batch);
+    await send();
+  }
+  // Finishing adds the footer that indexes the batches.
+  writer.finish();
+  await send();
+}
@@ -0,0 +1,137 @@
+import { formatIdentifierForSql, formatStringForSql, normalizeSqlForEmbedding } from './sqlHelpers';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  column: string;
+  direction: SortDirection;
+}
+
+export interface FilterColumn {
+  name: string;
+  numeric: boolean;
+}
+
+export interface FilteredQueryOptions {
+  columns: FilterColumn[];
+  columnFilters: string[];
+  globalFilter: string;
+  sortKeys: SortKey[];
+}
+
+const NUMERIC_LITERAL = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const COMPARISON = /^(>=|<=|!=|<>|=|>|<)\s*(.+)$/;
+const BETWEEN = /^between\s+(.+?)\s+and\s+(.+)$/i;
+const RANGE = /^(.+?)\s*\.\.\s*(.+)$/;
+const DATE_LITERAL = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/;
+const LIKE = /^(not\s+)?(i?like)\s+(.+)$/i;
+const REGEX_PREFIX = /^~\s*(.+)$/;
+const REGEX_SLASHES = /^\/(.+)\/(i?)$/;
+
+// Wraps a query so the grid's filters and sort run inside DuckDB over the full result.
+export function buildFilteredQuery(baseSql: string, options: FilteredQueryOptions): string {
+  const conditions = options.columns
+    .map((column, index) => buildFilterCondition(column, options.columnFilters[index] ?? ''))
+    .filter((condition): condition is string => condition !== null);
+  const searchCondition = buildSearchCondition(options.columns, options.globalFilter);
+  if (searchCondition) {
+    conditions.push(searchCondition);
+  }
+
+  const lines = ['SELECT *', `FROM (\n${normalizeSqlForEmbedding(baseSql)}\n) AS filtered`];
+  if (conditions.length > 0) {
+    lines.push(`WHERE ${conditions.join('\n  AND ')}`);
+  }
+  if (options.sortKeys.length > 0) {
+    const orderBy = options.sortKeys
+      .map((key) => `${formatIdentifierForSql(key.column)} ${key.direction.toUpperCase()}`)
+      .join(', ');
+    lines.push(`ORDER BY ${orderBy}`);
+  }
+  return `${lines.join('\n')};`;
+}
+
+// Turns a filter-row entry into a SQL predicate. Supported forms: `null`, `not null`,
+// `= > >= < <= != value`, `a..b` (numbers or dates) or `between a and b`, `like pattern`,
+// `ilike pattern`, `~regex` or `/regex/i`; anything else is a case-insensitive "contains" match.
+export function buildFilterCondition(column: FilterColumn, input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const lower = trimmed.toLowerCase();
+  const identifier = formatIdentifierForSql(column.name);
+  const asText = `CAST(${identifier} AS VARCHAR)`;
+
+  if (lower === 'null' || lower === 'is null') {
+    return `${identifier} IS NULL`;
+  }
+  if (lower === '!null' || lower === 'not null' || lower === 'is not null') {
+    return `${identifier} IS NOT NULL`;
+  }
+
+  const between = BETWEEN.exec(trimmed) ?? parseRange(trimmed);
+  if (between) {
+    return `${identifier} BETWEEN ${formatFilterLiteral(column, between[1])} AND ${formatFilterLiteral(column, between[2])}`;
+  }
+
+  const comparison = COMPARISON.exec(trimmed);
+  if (comparison) {
+    const operator = comparison[1] === '!=' ? '<>' : comparison[1];
+    return `${identifier} ${operator} ${formatFilterLiteral(column, comparison[2])}`;
+  }
+
+  const like = LIKE.exec(trimmed);
+  if (like) {
+    const negation = like[1] ? 'NOT ' : '';
+    return `${asText} ${negation}${like[2].toUpperCase()} ${formatStringForSql(stripQuotes(like[3]))}`;
+  }
+
+  const regex = REGEX_SLASHES.exec(trimmed);
+  if (regex) {
+    const flags = regex[2] ? `, ${formatStringForSql(regex[2])}` : '';
+    return `regexp_matches(${asText}, ${formatStringForSql(regex[1])}${flags})`;
+  }
+  const prefixedRegex = REGEX_PREFIX.exec(trimmed);
+  if (prefixedRegex) {
+    return `regexp_matches(${asText}, ${formatStringForSql(prefixedRegex[1])})`;
+  }
+
+  return `contains(lower(${asText}), ${formatStringForSql(lower)})`;
+}
+
+// Matches rows where any column contains the search text.
+export function buildSearchCondition(columns: FilterColumn[], searchText: string): string | null {
+  const needle = searchText.trim().toLowerCase();
+  if (!needle || columns.length === 0) {
+    return null;
+  }
+  const matches = columns.map(
+    (column) => `contains(lower(CAST(${formatIdentifierForSql(column.name)} AS VARCHAR)), ${formatStringForSql(needle)})`
+  );
+  return `(${matches.join(' OR ')})`;
+}
+
+// `a..b` is a range only when both ends are numbers or dates, so searching for text
+// such as `v1..v2` or `...` stays a "contains" match.
+function parseRange(input: string): RegExpExecArray | null {
+  const range = RANGE.exec(input);
+  if (!range) {
+    return null;
+  }
+  const isBound = (value: string) => NUMERIC_LITERAL.test(value.trim()) || DATE_LITERAL.test(value.trim());
+  return isBound(range[1]) && isBound(range[2]) ? range : null;
+}
+
+function formatFilterLiteral(column: FilterColumn, rawValue: string): string {
+  const value = stripQuotes(rawValue.trim());
+  if (column.numeric && NUMERIC_LITERAL.test(value)) {
+    return value;
+  }
+  return formatStringForSql(value);
+}
+
+function stripQuotes(value: string): string {
+  const match = /^'(.*)'$|^"(.*)"$/.exec(value.trim());
+  return match ? (match[1] ?? match[2]) : value.trim();
+}
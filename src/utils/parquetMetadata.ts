@@ -0,0 +1,263 @@
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { formatStringForSql } from './sqlHelpers';
+
+// One column chunk: a column's data within one row group.
+export interface ParquetColumnChunk {
+  rowGroup: number;
+  column: string;
+  physicalType: string;
+  compression: string;
+  encodings: string;
+  // Statistics as text; null when the writer left them out.
+  min: string | null;
+  max: string | null;
+  nullCount: number | null;
+  compressedBytes: number;
+  uncompressedBytes: number;
+}
+
+export interface ParquetRowGroup {
+  id: number;
+  rows: number;
+  compressedBytes: number;
+  uncompressedBytes: number;
+  chunks: ParquetColumnChunk[];
+}
+
+// A column over all row groups.
+export interface ParquetColumnSummary {
+  column: string;
+  physicalType: string;
+  logicalType: string | null;
+  compressions: string[];
+  encodings: string[];
+  min: string | null;
+  max: string | null;
+  // Null when some row group has no null count.
+  nullCount: number | null;
+  compressedBytes: number;
+  uncompressedBytes: number;
+}
+
+export interface ParquetSchemaElement {
+  name: string;
+  // Names from below the root down to this element, joined like parquet_metadata's path_in_schema.
+  path: string;
+  // Nesting level; the root is 0.
+  depth: number;
+  type: string | null;
+  repetition: string | null;
+  convertedType: string | null;
+  logicalType: string | null;
+}
+
+export interface ParquetFileInfo {
+  createdBy: string | null;
+  formatVersion: number | null;
+  rowCount: number;
+  compressedBytes: number;
+  uncompressedBytes: number;
+  rowGroups: ParquetRowGroup[];
+  columns: ParquetColumnSummary[];
+  schema: ParquetSchemaElement[];
+  // Key/value metadata from the footer, e.g. the pandas or GeoParquet ("geo") schema JSON.
+  keyValues: Array<{ key: string; value: string }>;
+}
+
+// How parquet_metadata joins the parts of a nested column's path_in_schema.
+const PATH_SEPARATOR = ', ';
+
+// Reads the footer of a registered Parquet file through parquet_file_metadata,
+// parquet_metadata, parquet_schema and parquet_kv_metadata. Only the footer is read,
+// so this is quick even for streamed files.
+export async function readParquetFileInfo(
+  connection: duckdb.AsyncDuckDBConnection,
+  fileName: string
+): Promise<ParquetFileInfo> {
+  const file = formatStringForSql(fileName);
+  const fileRow: any = (await connection.query(`
+    SELECT created_by, CAST(format_version AS DOUBLE) AS format_version, CAST(num_rows AS DOUBLE) AS num_rows
+    FROM parquet_file_metadata(${file});
+  `)).toArray()[0]?.toJSON() ?? {};
+
+  const chunkRows = (await connection.query(`
+    SELECT
+      CAST(row_group_id AS DOUBLE) AS row_group_id,
+      CAST(row_group_num_rows AS DOUBLE) AS row_group_num_rows,
+      path_in_schema,
+      type,
+      compression,
+      encodings,
+      COALESCE(stats_min_value, stats_min) AS min_value,
+      COALESCE(stats_max_value, stats_max) AS max_value,
+      CAST(stats_null_count AS DOUBLE) AS null_count,
+      CAST(total_compressed_size AS DOUBLE) AS compressed_bytes,
+      CAST(total_uncompressed_size AS DOUBLE) AS uncompressed_bytes
+    FROM parquet_metadata(${file})
+    ORDER BY row_group_id, column_id;
+  `)).toArray().map((row: any) => row.toJSON());
+
+  const schemaRows = (await connection.query(`
+    SELECT name, type, repetition_type, CAST(num_children AS DOUBLE) AS num_children, converted_type, logical_type
+    FROM parquet_schema(${file});
+  `)).toArray().map((row: any) => row.toJSON());
+
+  const keyValueRows = (await connection.query(`
+    SELECT key, value FROM parquet_kv_metadata(${file});
+  `)).toArray().map((row: any) => row.toJSON());
+
+  const rowGroups = groupRowGroups(chunkRows);
+  const schema = flattenSchema(schemaRows);
+  return {
+    createdBy: textOrNull(fileRow.created_by),
+    formatVersion: fileRow.format_version === null || fileRow.format_version === undefined ? null : Number(fileRow.format_version),
+    rowCount: Number(fileRow.num_rows ?? rowGroups.reduce((total, group) => total + group.rows, 0)),
+    compressedBytes: rowGroups.reduce((total, group) => total + group.compressedBytes, 0),
+    uncompressedBytes: rowGroups.reduce((total, group) => total + group.uncompressedBytes, 0),
+    rowGroups,
+    columns: summarizeColumns(rowGroups, schema),
+    schema,
+    keyValues: keyValueRows.map((row: any) => ({ key: decodeBlob(row.key), value: decodeBlob(row.value) })),
+  };
+}
+
+function groupRowGroups(rows: any[]): ParquetRowGroup[] {
+  const groups = new Map<number, ParquetRowGroup>();
+  rows.forEach((row) => {
+    const id = Number(row.row_group_id);
+    let group = groups.get(id);
+    if (!group) {
+      group = { id, rows: Number(row.row_group_num_rows) || 0, compressedBytes: 0, uncompressedBytes: 0, chunks: [] };
+      groups.set(id, group);
+    }
+    const chunk: ParquetColumnChunk = {
+      rowGroup: id,
+      column: String(row.path_in_schema),
+      physicalType: String(row.type ?? ''),
+      compression: String(row.compression ?? ''),
+      encodings: String(row.encodings ?? ''),
+      min: textOrNull(row.min_value),
+      max: textOrNull(row.max_value),
+      nullCount: row.null_count === null || row.null_count === undefined ? null : Number(row.null_count),
+      compressedBytes: Number(row.compressed_bytes) || 0,
+      uncompressedBytes: Number(row.uncompressed_bytes) || 0,
+    };
+    group.chunks.push(chunk);
+    group.compressedBytes += chunk.compressedBytes;
+    group.uncompressedBytes += chunk.uncompressedBytes;
+  });
+  return Array.from(groups.values());
+}
+
+function summarizeColumns(rowGroups: ParquetRowGroup[], schema: ParquetSchemaElement[]): ParquetColumnSummary[] {
+  // Only leaf elements have a physical type. Nested leaves share names such as "element",
+  // "key" and "value", so they are told apart by their whole path.
+  const logicalTypes = new Map<string, string | null>();
+  schema.forEach((element) => {
+    if (element.type) {
+      logicalTypes.set(element.path, element.logicalType ?? element.convertedType);
+    }
+  });
+  const columns = new Map<string, ParquetColumnSummary>();
+  rowGroups.forEach((group) => group.chunks.forEach((chunk) => {
+    let column = columns.get(chunk.column);
+    if (!column) {
+      column = {
+        column: chunk.column,
+        physicalType: chunk.physicalType,
+        logicalType: logicalTypes.get(chunk.column) ?? null,
+        compressions: [],
+        encodings: [],
+        min: chunk.min,
+        max: chunk.max,
+        nullCount: 0,
+        compressedBytes: 0,
+        uncompressedBytes: 0,
+      };
+      columns.set(chunk.column, column);
+    } else {
+      column.min = extremeStatistic(column.min, chunk.min, -1);
+      column.max = extremeStatistic(column.max, chunk.max, 1);
+    }
+    addUnique(column.compressions, [chunk.compression]);
+    addUnique(column.encodings, chunk.encodings.split(/,\s*/));
+    column.nullCount = column.nullCount === null || chunk.nullCount === null ? null : column.nullCount + chunk.nullCount;
+    column.compressedBytes += chunk.compressedBytes;
+    column.uncompressedBytes += chunk.uncompressedBytes;
+  }));
+  return Array.from(columns.values());
+}
+
+// parquet_schema lists elements depth first, each group followed by its children.
+function flattenSchema(rows: any[]): ParquetSchemaElement[] {
+  // Children still to come and the name of each open group, the root first.
+  const remaining: number[] = [];
+  const groups: string[] = [];
+  return rows.map((row) => {
+    const depth = remaining.length;
+    const name = String(row.name);
+    const path = depth > 0 ? [...groups.slice(1), name].join(PATH_SEPARATOR) : '';
+    if (depth > 0) {
+      remaining[depth - 1] -= 1;
+    }
+    const children = Number(row.num_children) || 0;
+    if (children > 0) {
+      remaining.push(children);
+      groups.push(name);
+    }
+    while (remaining.length > 0 && remaining[remaining.length - 1] === 0) {
+      remaining.pop();
+      groups.pop();
+    }
+    return {
+      name,
+      path,
+      depth,
+      type: textOrNull(row.type),
+      repetition: textOrNull(row.repetition_type),
+      convertedType: textOrNull(row.converted_type),
+      logicalType: textOrNull(row.logical_type),
+    };
+  });
+}
+
+// The smaller (direction -1) or larger (1) of two statistics; a missing one is ignored.
+function extremeStatistic(current: string | null, candidate: string | null, direction: 1 | -1): string | null {
+  if (candidate === null) {
+    return current;
+  }
+  if (current === null) {
+    return candidate;
+  }
+  return compareStatistics(candidate, current) * direction > 0 ? candidate : current;
+}
+
+// Statistics come as text: numbers compare as numbers, anything else (dates are ISO) as text.
+function compareStatistics(a: string, b: string): number {
+  const left = Number(a);
+  const right = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && Number.isFinite(left) && Number.isFinite(right)) {
+    return left - right;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function addUnique(target: string[], values: string[]) {
+  values.forEach((value) => {
+    if (value && !target.includes(value)) {
+      target.push(value);
+    }
+  });
+}
+
+function textOrNull(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+// Keys and values are BLOBs; they are nearly always UTF-8 text such as JSON.
+function decodeBlob(value: unknown): string {
+  if (value instanceof Uint8Array) {
+    return new TextDecoder().decode(value);
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
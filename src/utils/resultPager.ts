@@ -0,0 +1,148 @@
+import * as duckdb from '@duckdb/duckdb-wasm';
+import { AsyncRecordBatchStreamReader, RecordBatch, Schema, Table } from 'apache-arrow';
+import { normalizeSqlForEmbedding } from './sqlHelpers';
+import { splitSqlStatements, SqlStatement } from './sqlStatements';
+
+// A query result that is fetched a page of record batches at a time.
+export interface ResultPager {
+  sql: string;
+  schema: Schema;
+  // Null once every batch has been read (or the pager was closed).
+  reader: AsyncRecordBatchStreamReader | null;
+  batches: RecordBatch[];
+  rowCount: number;
+  // Exact size of the full result; null until it is known.
+  totalRows: number | null;
+}
+
+const MULTI_STATEMENT_ERROR = /multiple statements|single statement/i;
+
+// An error from one statement of a script run statement by statement. DuckDB's "LINE n:"
+// and caret count from the start of that statement, which is at `statement.start` in the script.
+export class ScriptStatementError extends Error {
+  constructor(readonly statement: SqlStatement, error: unknown) {
+    super(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Starts streaming a query. Pending queries only accept one statement, so in a
+// multi-statement script the leading statements run to completion first and the
+// last one is streamed.
+export async function openResultPager(
+  connection: duckdb.AsyncDuckDBConnection,
+  sql: string
+): Promise<ResultPager> {
+  let reader: AsyncRecordBatchStreamReader;
+  try {
+    reader = await connection.send(sql, true);
+    await reader.open();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const statements = splitSqlStatements(sql);
+    if (!MULTI_STATEMENT_ERROR.test(message) || statements.length < 2) {
+      throw error;
+    }
+    reader = await runScript(connection, statements);
+  }
+  return { sql, schema: reader.schema, reader, batches: [], rowCount: 0, totalRows: null };
+}
+
+// Runs the leading statements to completion and opens a stream of the last one.
+async function runScript(
+  connection: duckdb.AsyncDuckDBConnection,
+  statements: SqlStatement[]
+): Promise<AsyncRecordBatchStreamReader> {
+  let current = statements[0];
+  try {
+    for (const statement of statements.slice(0, -1)) {
+      current = statement;
+      await queryInterruptibly(connection, statement.text);
+    }
+    current = statements[statements.length - 1];
+    const reader = await connection.send(current.text, true);
+    await reader.open();
+    return reader;
+  } catch (error) {
+    throw new ScriptStatementError(current, error);
+  }
+}
+
+// Reads batches until `pageSize` more rows are buffered, the stream ends, or `shouldStop` says so.
+export async function fetchNextPage(
+  pager: ResultPager,
+  pageSize: number,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  const target = pager.rowCount + pageSize;
+  while (pager.reader && pager.rowCount < target && !shouldStop()) {
+    const next = await pager.reader.next();
+    if (next.done || !next.value) {
+      pager.reader = null;
+      break;
+    }
+    pager.batches.push(next.value);
+    pager.rowCount += next.value.numRows;
+  }
+  if (!pager.reader && pager.totalRows === null) {
+    pager.totalRows = pager.rowCount;
+  }
+}
+
+// Every batch of the result: those fetched so far, then the rest of the stream.
+export async function* readAllBatches(pager: ResultPager): AsyncGenerator<RecordBatch> {
+  yield* pager.batches;
+  while (pager.reader) {
+    const next = await pager.reader.next();
+    if (next.done || !next.value) {
+      pager.reader = null;
+      break;
+    }
+    yield next.value;
+  }
+}
+
+export function pagerTable(pager: ResultPager): Table {
+  return new Table(pager.schema, pager.batches);
+}
+
+// Stops reading; the rows fetched so far stay available.
+export async function closeResultPager(pager: ResultPager): Promise<void> {
+  const reader = pager.reader;
+  pager.reader = null;
+  if (reader) {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+// Counts the full result on a separate connection so the open stream is left alone.
+export async function countResultRows(
+  connection: duckdb.AsyncDuckDBConnection,
+  sql: string
+): Promise<number | null> {
+  try {
+    const result = await queryInterruptibly(
+      connection,
+      `SELECT COUNT(*) AS total FROM (\n${normalizeSqlForEmbedding(sql)}\n) AS counted;`
+    );
+    const total = Number(result.getChildAt(0)?.get(0));
+    return Number.isFinite(total) ? total : null;
+  } catch {
+    // DDL, PRAGMAs and temp objects of the main connection cannot be counted here.
+    return null;
+  }
+}
+
+// Runs a query to completion as a pending query, which `cancelSent` can interrupt;
+// `query` cannot be stopped once it has started.
+export async function queryInterruptibly(
+  connection: duckdb.AsyncDuckDBConnection,
+  sql: string
+): Promise<Table> {
+  const reader = await connection.send(sql, true);
+  await reader.open();
+  const batches: RecordBatch[] = [];
+  for await (const batch of reader) {
+    batches.push(batch);
+  }
+  return new Table(reader.schema, batches);
+}
@@ -0,0 +1,43 @@
+// DuckDB points at the offending token with a snippet of the line and a caret:
+//
+//   Parser Error: syntax error at or near "FORM"
+//
+//   LINE 1: SELECT * FORM t
+//                    ^
+//
+// Long lines are shortened with "..." on either side of the snippet.
+const LINE_MARKER = /^LINE (\d+): (.*)$/;
+
+// Returns the character offset in `sql` that an error message points at, or null.
+export function locateSqlError(message: string, sql: string): number | null {
+  const messageLines = message.split('\n');
+  const markerIndex = messageLines.findIndex((line) => LINE_MARKER.test(line));
+  if (markerIndex < 0) {
+    return null;
+  }
+  const [, lineText, snippet] = LINE_MARKER.exec(messageLines[markerIndex]) ?? [];
+  const caretLine = messageLines[markerIndex + 1] ?? '';
+  const prefixLength = messageLines[markerIndex].length - snippet.length;
+  const caretColumn = caretLine.indexOf('^') - prefixLength;
+  if (caretColumn < 0) {
+    return null;
+  }
+
+  const sqlLines = sql.split('\n');
+  const lineIndex = Number(lineText) - 1;
+  if (lineIndex < 0 || lineIndex >= sqlLines.length) {
+    return null;
+  }
+  let column = caretColumn;
+  if (snippet.startsWith('...')) {
+    const visible = snippet.slice(3).replace(/\.\.\.$/, '');
+    const start = sqlLines[lineIndex].indexOf(visible);
+    if (start < 0) {
+      return null;
+    }
+    column = start + caretColumn - 3;
+  }
+
+  const lineStart = sqlLines.slice(0, lineIndex).reduce((total, line) => total + line.length + 1, 0);
+  return lineStart + Math.min(column, sqlLines[lineIndex].length);
+}
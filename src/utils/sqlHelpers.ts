@@ -1,15 +1,18 @@
 const SIMPLE_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const COMPRESSION_SUFFIXES: Record<string, 'gzip' | 'zstd'> = { gz: 'gzip', zst: 'zstd' };
+const COMPRESSION_SUFFIX = /\.(gz|zst)$/i;
 
-export function buildDefaultQuery(columnNames: string[], relationIdentifier: string): string {
+export function buildDefaultQuery(columnNames: string[], relationIdentifier: string, limit?: number): string {
   const columns = columnNames.length
     ? columnNames.map(formatIdentifierForSql).join(', ')
     : '*';
-  return `SELECT ${columns}\nFROM ${relationIdentifier};`;
+  const limitClause = limit === undefined ? '' : `\nLIMIT ${limit}`;
+  return `SELECT ${columns}\nFROM ${relationIdentifier}${limitClause};`;
 }
 
 export function deriveRelationName(fileName: string): string {
   const baseName = fileName.split(/[\\/]/).pop() ?? fileName;
-  const withoutExtension = baseName.replace(/\.[^.]+$/, '');
+  const withoutExtension = stripCompressionSuffix(baseName).replace(/\.[^.]+$/, '');
   let sanitized = withoutExtension.replace(/[^A-Za-z0-9_]/g, '_');
   if (!sanitized) {
     sanitized = 'data_view';
@@ -20,9 +23,63 @@ export function deriveRelationName(fileName: string): string {
   return sanitized;
 }
 
+// DuckDB's name for the compression of `data.csv.gz` or `data.jsonl.zst`, if any.
+export function detectCompression(fileName: string): 'gzip' | 'zstd' | undefined {
+  const suffix = COMPRESSION_SUFFIX.exec(fileName);
+  return suffix ? COMPRESSION_SUFFIXES[suffix[1].toLowerCase()] : undefined;
+}
+
+export function stripCompressionSuffix(fileName: string): string {
+  return fileName.replace(COMPRESSION_SUFFIX, '');
+}
+
+// Appends _2, _3, … until the name no longer clashes (case-insensitively, like DuckDB).
+export function ensureUniqueRelationName(relationName: string, takenNames: Iterable<string>): string {
+  const taken = new Set(Array.from(takenNames, (name) => name.toLowerCase()));
+  let candidate = relationName;
+  let suffix = 2;
+  while (taken.has(candidate.toLowerCase())) {
+    candidate = `${relationName}_${suffix++}`;
+  }
+  return candidate;
+}
+
 export function formatIdentifierForSql(identifier: string): string {
   if (SIMPLE_IDENTIFIER.test(identifier)) {
     return identifier;
   }
   return `"${identifier.replace(/"/g, '""')}"`;
 }
+
+// Splits `catalog.schema."my table"` into its unquoted parts.
+export function splitQualifiedIdentifier(identifier: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < identifier.length; index++) {
+    const char = identifier[index];
+    if (char === '"') {
+      if (quoted && identifier[index + 1] === '"') {
+        current += '"';
+        index++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === '.' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+export function formatStringForSql(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function normalizeSqlForEmbedding(sql: string): string {
+  return sql.replace(/;\s*$/g, '').trim();
+}
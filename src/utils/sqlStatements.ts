@@ -0,0 +1,131 @@
+// A statement of a SQL script; `start` is its first character after leading whitespace
+// and comments, `end` is just past its closing semicolon (or the end of the script).
+export interface SqlStatement {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Splits a script on semicolons outside of strings, quoted identifiers, comments and
+// $$-quoted bodies. Statements that are only comments are left out.
+export function splitSqlStatements(script: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let start = 0;
+  const push = (end: number) => {
+    const first = skipWhitespaceAndComments(script, start, end);
+    const text = script.slice(first, end).trim();
+    if (text && text !== ';') {
+      statements.push({ text, start: first, end });
+    }
+    start = end;
+  };
+  scanSql(script, (kind, _, end) => {
+    if (kind === 'semicolon') {
+      push(end);
+    }
+  });
+  push(script.length);
+  return statements;
+}
+
+// The statement the caret is in; between two statements, the one before it.
+export function statementAt(statements: SqlStatement[], offset: number): SqlStatement | undefined {
+  let found: SqlStatement | undefined;
+  for (const statement of statements) {
+    if (statement.start > offset) {
+      break;
+    }
+    found = statement;
+  }
+  return found ?? statements[0];
+}
+
+// String literals that look like paths to data files, e.g. 'data/orders.parquet' in
+// read_parquet('data/orders.parquet') or FROM 'data/orders.parquet'. URLs and globs
+// are left to DuckDB.
+export function findFileReferences(sql: string, extensions: string[]): string[] {
+  const references = new Set<string>();
+  const suffixes = extensions.map((extension) => `.${extension.toLowerCase()}`);
+  scanSql(sql, (kind, start, end) => {
+    if (kind !== 'string') {
+      return;
+    }
+    const value = sql.slice(start + 1, end - 1).replace(/''/g, '\'');
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value) || /[*?[\]{}]/.test(value)) {
+      return;
+    }
+    if (suffixes.some((suffix) => value.toLowerCase().endsWith(suffix))) {
+      references.add(value);
+    }
+  });
+  return Array.from(references);
+}
+
+// Walks a script, skipping comments, quoted identifiers and $$-quoted bodies, and reports
+// each string literal and each semicolon that ends a statement.
+function scanSql(script: string, visit: (kind: 'string' | 'semicolon', start: number, end: number) => void) {
+  let index = 0;
+  while (index < script.length) {
+    const char = script[index];
+    const next = script[index + 1];
+    if (char === '\'' || char === '"') {
+      const end = skipQuoted(script, index, char);
+      if (char === '\'') {
+        visit('string', index, end);
+      }
+      index = end;
+    } else if (char === '-' && next === '-') {
+      index = lineEnd(script, index);
+    } else if (char === '/' && next === '*') {
+      const close = script.indexOf('*/', index + 2);
+      index = close < 0 ? script.length : close + 2;
+    } else if (char === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(script.slice(index, index + 64))?.[0];
+      const close = tag ? script.indexOf(tag, index + tag.length) : -1;
+      index = tag ? (close < 0 ? script.length : close + tag.length) : index + 1;
+    } else if (char === ';') {
+      index += 1;
+      visit('semicolon', index - 1, index);
+    } else {
+      index += 1;
+    }
+  }
+}
+
+function skipQuoted(script: string, index: number, quote: string): number {
+  let position = index + 1;
+  while (position < script.length) {
+    if (script[position] === quote) {
+      // A doubled quote is an escaped one.
+      if (script[position + 1] === quote) {
+        position += 2;
+        continue;
+      }
+      return position + 1;
+    }
+    position += 1;
+  }
+  return script.length;
+}
+
+function lineEnd(script: string, index: number): number {
+  const newline = script.indexOf('\n', index);
+  return newline < 0 ? script.length : newline + 1;
+}
+
+function skipWhitespaceAndComments(script: string, index: number, end: number): number {
+  let position = index;
+  while (position < end) {
+    if (/\s/.test(script[position])) {
+      position += 1;
+    } else if (script.startsWith('--', position)) {
+      position = lineEnd(script, position);
+    } else if (script.startsWith('/*', position)) {
+      const close = script.indexOf('*/', position + 2);
+      position = close < 0 ? end : close + 2;
+    } else {
+      break;
+    }
+  }
+  return Math.min(position, end);
+}
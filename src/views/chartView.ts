@@ -0,0 +1,349 @@
+import { ChartData, ChartPoint, ChartSpec } from '../utils/chartData';
+import { ProfileKind } from '../utils/columnProfile';
+
+// Colors are resolved from the VS Code theme when the chart is drawn, so an
+// exported SVG or PNG looks the same outside the webview.
+export interface ChartTheme {
+  background: string;
+  foreground: string;
+  muted: string;
+  grid: string;
+  fontFamily: string;
+  palette: string[];
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const MARGIN = { top: 16, right: 20, bottom: 44, left: 64 };
+const LEGEND_HEIGHT = 22;
+const Y_TICKS = 5;
+const X_LABEL_WIDTH = 72;
+
+const PALETTE_VARIABLES: Array<[string, string]> = [
+  ['--vscode-charts-blue', '#3794ff'],
+  ['--vscode-charts-orange', '#d18616'],
+  ['--vscode-charts-green', '#89d185'],
+  ['--vscode-charts-red', '#f14c4c'],
+  ['--vscode-charts-purple', '#b180d7'],
+  ['--vscode-charts-yellow', '#cca700'],
+];
+
+export function readChartTheme(): ChartTheme {
+  const style = getComputedStyle(document.body);
+  const read = (name: string, fallback: string) => style.getPropertyValue(name).trim() || fallback;
+  return {
+    background: read('--vscode-editor-background', '#1e1e1e'),
+    foreground: read('--vscode-foreground', '#cccccc'),
+    muted: read('--vscode-descriptionForeground', '#9d9d9d'),
+    grid: read('--vscode-editorWidget-border', '#454545'),
+    fontFamily: style.fontFamily || 'sans-serif',
+    palette: PALETTE_VARIABLES.map(([name, fallback]) => read(name, fallback)),
+  };
+}
+
+interface Scale {
+  (value: number | string): number;
+  ticks: Array<{ position: number; label: string }>;
+  bandwidth: number;
+}
+
+export function renderChart(data: ChartData, spec: ChartSpec, width: number, height: number, theme: ChartTheme): SVGSVGElement {
+  const svg = createSvg('svg', {
+    width,
+    height,
+    viewBox: `0 0 ${width} ${height}`,
+    'font-family': theme.fontFamily,
+    'font-size': 11,
+  }) as SVGSVGElement;
+  svg.appendChild(createSvg('rect', { width, height, fill: theme.background }));
+
+  const showLegend = data.series.length > 1;
+  const top = MARGIN.top + (showLegend ? LEGEND_HEIGHT : 0);
+  const plot = {
+    left: MARGIN.left,
+    top,
+    width: Math.max(40, width - MARGIN.left - MARGIN.right),
+    height: Math.max(40, height - top - MARGIN.bottom),
+  };
+
+  if (spec.type === 'histogram') {
+    drawHistogram(svg, data, plot, theme);
+  } else {
+    drawSeries(svg, data, spec, plot, theme);
+  }
+  if (showLegend) {
+    drawLegend(svg, data.series.map((series) => series.name), theme);
+  }
+  return svg;
+}
+
+export function serializeChart(svg: SVGSVGElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+}
+
+// Draws the SVG onto a canvas at `scale`× resolution and returns PNG bytes.
+export async function rasterizeChart(svg: SVGSVGElement, scale = 2): Promise<Uint8Array> {
+  const width = Number(svg.getAttribute('width'));
+  const height = Number(svg.getAttribute('height'));
+  const url = URL.createObjectURL(new Blob([serializeChart(svg)], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available.');
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Could not encode the chart as PNG.');
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+type Plot = { left: number; top: number; width: number; height: number };
+
+function drawSeries(svg: SVGSVGElement, data: ChartData, spec: ChartSpec, plot: Plot, theme: ChartTheme) {
+  const points = data.series.flatMap((series) => series.points);
+  if (points.length === 0) {
+    drawMessage(svg, plot, 'No values to chart.', theme);
+    return;
+  }
+
+  // Bars always sit in category bands; lines and points use a continuous axis when X allows it.
+  const categorical = spec.type === 'bar' || data.xKind === 'categorical';
+  const x = categorical
+    ? bandScale(uniqueCategories(data.series.map((series) => series.points)), plot.left, plot.width, data.xKind)
+    : linearScale(extent(points.map((point) => point.x as number)), plot.left, plot.left + plot.width, data.xKind, plot.width);
+  const yValues = points.map((point) => point.y);
+  const yDomain = extent(spec.type === 'scatter' ? yValues : [0, ...yValues]);
+  const y = linearScale(yDomain, plot.top + plot.height, plot.top, 'numeric', plot.height);
+
+  drawAxes(svg, x, y, plot, theme);
+
+  const baseline = y(Math.max(yDomain[0], Math.min(0, yDomain[1])));
+  data.series.forEach((series, seriesIndex) => {
+    const color = theme.palette[seriesIndex % theme.palette.length];
+    if (spec.type === 'bar') {
+      const barWidth = Math.max(1, (x.bandwidth * 0.8) / data.series.length);
+      series.points.forEach((point) => {
+        const left = x(point.x) - (x.bandwidth * 0.8) / 2 + seriesIndex * barWidth;
+        const top = y(point.y);
+        const rect = createSvg('rect', {
+          x: left,
+          y: Math.min(top, baseline),
+          width: barWidth,
+          height: Math.max(1, Math.abs(baseline - top)),
+          fill: color,
+        });
+        rect.appendChild(createTitle(`${series.name}\n${formatPoint(point, data.xKind)}`));
+        svg.appendChild(rect);
+      });
+    } else if (spec.type === 'scatter') {
+      series.points.forEach((point) => {
+        const circle = createSvg('circle', { cx: x(point.x), cy: y(point.y), r: 3, fill: color, 'fill-opacity': 0.7 });
+        circle.appendChild(createTitle(`${series.name}\n${formatPoint(point, data.xKind)}`));
+        svg.appendChild(circle);
+      });
+    } else {
+      const path = series.points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.x)},${y(point.y)}`).join(' ');
+      if (spec.type === 'area' && series.points.length > 0) {
+        const first = x(series.points[0].x);
+        const last = x(series.points[series.points.length - 1].x);
+        svg.appendChild(createSvg('path', {
+          d: `${path} L${last},${baseline} L${first},${baseline} Z`,
+          fill: color,
+          'fill-opacity': 0.25,
+        }));
+      }
+      svg.appendChild(createSvg('path', { d: path, fill: 'none', stroke: color, 'stroke-width': 2 }));
+      if (series.points.length <= 60) {
+        series.points.forEach((point) => {
+          const dot = createSvg('circle', { cx: x(point.x), cy: y(point.y), r: 2.5, fill: color });
+          dot.appendChild(createTitle(`${series.name}\n${formatPoint(point, data.xKind)}`));
+          svg.appendChild(dot);
+        });
+      }
+    }
+  });
+}
+
+function drawHistogram(svg: SVGSVGElement, data: ChartData, plot: Plot, theme: ChartTheme) {
+  const bins = data.bins ?? [];
+  if (bins.length === 0) {
+    drawMessage(svg, plot, 'No values to chart.', theme);
+    return;
+  }
+  const x = linearScale([bins[0].lower, bins[bins.length - 1].upper], plot.left, plot.left + plot.width, data.xKind, plot.width);
+  const y = linearScale([0, Math.max(...bins.map((bin) => bin.count))], plot.top + plot.height, plot.top, 'numeric', plot.height);
+  drawAxes(svg, x, y, plot, theme);
+
+  bins.forEach((bin) => {
+    const left = bins.length === 1 ? plot.left : x(bin.lower);
+    const right = bins.length === 1 ? plot.left + plot.width : x(bin.upper);
+    const top = y(bin.count);
+    const rect = createSvg('rect', {
+      x: left + 0.5,
+      y: top,
+      width: Math.max(1, right - left - 1),
+      height: Math.max(0, plot.top + plot.height - top),
+      fill: theme.palette[0],
+    });
+    rect.appendChild(createTitle(
+      `${formatValue(bin.lower, data.xKind)} – ${formatValue(bin.upper, data.xKind)}: ${bin.count.toLocaleString()}`
+    ));
+    svg.appendChild(rect);
+  });
+}
+
+function drawAxes(svg: SVGSVGElement, x: Scale, y: Scale, plot: Plot, theme: ChartTheme) {
+  y.ticks.forEach((tick) => {
+    svg.appendChild(createSvg('line', {
+      x1: plot.left,
+      x2: plot.left + plot.width,
+      y1: tick.position,
+      y2: tick.position,
+      stroke: theme.grid,
+      'stroke-width': 1,
+    }));
+    svg.appendChild(createText(tick.label, plot.left - 8, tick.position + 4, theme.muted, 'end'));
+  });
+  svg.appendChild(createSvg('line', {
+    x1: plot.left,
+    x2: plot.left + plot.width,
+    y1: plot.top + plot.height,
+    y2: plot.top + plot.height,
+    stroke: theme.muted,
+    'stroke-width': 1,
+  }));
+
+  // Skip labels that would overlap their neighbours.
+  const every = Math.max(1, Math.ceil((x.ticks.length * X_LABEL_WIDTH) / plot.width));
+  x.ticks.forEach((tick, index) => {
+    if (index % every === 0) {
+      svg.appendChild(createText(tick.label, tick.position, plot.top + plot.height + 18, theme.muted, 'middle'));
+    }
+  });
+}
+
+function drawLegend(svg: SVGSVGElement, names: string[], theme: ChartTheme) {
+  let left = MARGIN.left;
+  names.forEach((name, index) => {
+    svg.appendChild(createSvg('rect', {
+      x: left,
+      y: MARGIN.top - 4,
+      width: 10,
+      height: 10,
+      rx: 2,
+      fill: theme.palette[index % theme.palette.length],
+    }));
+    const label = truncateLabel(name, 24);
+    svg.appendChild(createText(label, left + 14, MARGIN.top + 5, theme.foreground, 'start'));
+    left += 14 + label.length * 6.5 + 16;
+  });
+}
+
+function drawMessage(svg: SVGSVGElement, plot: Plot, message: string, theme: ChartTheme) {
+  svg.appendChild(createText(message, plot.left + plot.width / 2, plot.top + plot.height / 2, theme.muted, 'middle'));
+}
+
+function bandScale(categories: Array<number | string>, start: number, size: number, kind: ProfileKind): Scale {
+  const index = new Map(categories.map((category, position) => [category, position]));
+  const bandwidth = size / Math.max(categories.length, 1);
+  const scale = ((value: number | string) => start + ((index.get(value) ?? 0) + 0.5) * bandwidth) as Scale;
+  scale.bandwidth = bandwidth;
+  scale.ticks = categories.map((category) => ({
+    position: scale(category),
+    label: truncateLabel(typeof category === 'number' ? formatValue(category, kind) : category, 12),
+  }));
+  return scale;
+}
+
+function linearScale([min, max]: [number, number], from: number, to: number, kind: ProfileKind, length: number): Scale {
+  const span = max - min || Math.abs(max) || 1;
+  const low = max === min ? min - span / 2 : min;
+  const high = max === min ? max + span / 2 : max;
+  const scale = ((value: number | string) => from + ((Number(value) - low) / (high - low)) * (to - from)) as Scale;
+  scale.bandwidth = 0;
+  const tickCount = Math.max(2, Math.min(Y_TICKS, Math.floor(length / 48)));
+  scale.ticks = niceTicks(low, high, tickCount).map((value) => ({ position: scale(value), label: formatValue(value, kind) }));
+  return scale;
+}
+
+function niceTicks(min: number, max: number, count: number): number[] {
+  const rough = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9; value += step) {
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function extent(values: number[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return [min, max];
+}
+
+// Categories in first-seen order across all series; numeric and temporal X values are sorted.
+function uniqueCategories(seriesPoints: ChartPoint[][]): Array<number | string> {
+  const seen = new Set<number | string>();
+  seriesPoints.forEach((points) => points.forEach((point) => seen.add(point.x)));
+  const categories = Array.from(seen);
+  if (categories.every((category) => typeof category === 'number')) {
+    (categories as number[]).sort((a, b) => a - b);
+  }
+  return categories;
+}
+
+// Temporal values are epoch seconds.
+function formatValue(value: number, kind: ProfileKind): string {
+  if (kind === 'temporal') {
+    const iso = new Date(value * 1000).toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 16).replace('T', ' ');
+  }
+  if (Math.abs(value) >= 1e6 || (Math.abs(value) < 1e-3 && value !== 0)) {
+    return value.toExponential(2);
+  }
+  return Number.isInteger(value) ? value.toLocaleString() : Number(value.toPrecision(4)).toLocaleString();
+}
+
+function formatPoint(point: ChartPoint, kind: ProfileKind): string {
+  const x = typeof point.x === 'number' ? formatValue(point.x, kind) : point.x;
+  return `${x}: ${point.y.toLocaleString()}`;
+}
+
+function truncateLabel(label: string, length: number): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label;
+}
+
+function createSvg(tag: string, attributes: Record<string, string | number>): SVGElement {
+  const element = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, String(value)));
+  return element;
+}
+
+function createText(text: string, x: number, y: number, fill: string, anchor: 'start' | 'middle' | 'end'): SVGElement {
+  const element = createSvg('text', { x, y, fill, 'text-anchor': anchor });
+  element.textContent = text;
+  return element;
+}
+
+function createTitle(text: string): SVGElement {
+  const title = createSvg('title', {});
+  title.textContent = text;
+  return title;
+}
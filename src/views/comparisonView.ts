@@ -0,0 +1,113 @@
+import { ChangeKind, CHANGE_KINDS, SchemaDifference } from '../utils/compareSql';
+
+export interface ComparisonSummary {
+  leftLabel: string;
+  rightLabel: string;
+  keyColumns: string[];
+  counts: Partial<Record<ChangeKind, number>>;
+  schemaDifferences: SchemaDifference[];
+}
+
+const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: 'added',
+  removed: 'removed',
+  changed: 'changed',
+  unchanged: 'unchanged',
+};
+
+// Checkboxes for the columns rows can be matched on; columns unique in both relations are marked.
+export function renderKeyColumnChoices(
+  container: HTMLElement,
+  columns: Array<{ name: string; unique: boolean }>,
+  selected: string[],
+  onChange: (keyColumns: string[]) => void
+) {
+  const chosen = new Set(selected);
+  const choices = columns.map((column) => {
+    const label = document.createElement('label');
+    label.className = 'compare-key-choice';
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = chosen.has(column.name);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        chosen.add(column.name);
+      } else {
+        chosen.delete(column.name);
+      }
+      // Keys keep the column order, whatever order they were ticked in.
+      onChange(columns.map((candidate) => candidate.name).filter((name) => chosen.has(name)));
+    });
+    const name = document.createElement('span');
+    name.textContent = column.name;
+    label.append(checkbox, name);
+    if (column.unique) {
+      const meta = document.createElement('span');
+      meta.className = 'relation-meta';
+      meta.textContent = 'unique';
+      label.appendChild(meta);
+    }
+    return label;
+  });
+  container.replaceChildren(...choices);
+}
+
+// Counts per kind of change, which show those rows when clicked, and the schema differences.
+export function renderComparisonSummary(
+  container: HTMLElement,
+  summary: ComparisonSummary,
+  onShow: (kind: ChangeKind | null) => void,
+  onClose: () => void
+) {
+  const title = document.createElement('strong');
+  title.textContent = `${summary.leftLabel} → ${summary.rightLabel}`;
+  title.title = summary.keyColumns.length > 0
+    ? `Rows matched on ${summary.keyColumns.join(', ')}`
+    : 'Rows matched on all their values';
+
+  const counts = CHANGE_KINDS.map((kind) => {
+    const count = summary.counts[kind] ?? 0;
+    const text = `${count.toLocaleString()} ${CHANGE_LABELS[kind]}`;
+    // Unchanged rows are not part of the comparison result, so there is nothing to show.
+    if (kind === 'unchanged') {
+      const span = document.createElement('span');
+      span.className = 'compare-schema';
+      span.textContent = text;
+      return span;
+    }
+    const button = document.createElement('button');
+    button.className = 'secondary';
+    button.textContent = text;
+    button.title = `Show the ${CHANGE_LABELS[kind]} rows`;
+    button.addEventListener('click', () => onShow(kind));
+    return button;
+  });
+
+  const all = document.createElement('button');
+  all.className = 'secondary';
+  all.textContent = 'All differences';
+  all.addEventListener('click', () => onShow(null));
+
+  const schema = document.createElement('span');
+  schema.className = 'compare-schema';
+  schema.textContent = summary.schemaDifferences.length > 0
+    ? `Schema: ${summary.schemaDifferences.map(describeSchemaDifference).join(', ')}`
+    : 'Schema: same columns and types';
+
+  const close = document.createElement('button');
+  close.className = 'secondary';
+  close.textContent = 'Close comparison';
+  close.addEventListener('click', onClose);
+
+  container.replaceChildren(title, ...counts, all, schema, close);
+}
+
+function describeSchemaDifference(difference: SchemaDifference): string {
+  if (difference.change === 'added') {
+    return `+ ${difference.column} (${difference.rightType})`;
+  }
+  if (difference.change === 'removed') {
+    return `− ${difference.column} (${difference.leftType})`;
+  }
+  return `${difference.column}: ${difference.leftType} → ${difference.rightType}`;
+}
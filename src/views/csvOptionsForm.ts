@@ -0,0 +1,174 @@
+import { ColumnSchema } from '../loaders/types';
+import { CSV_ENCODINGS, CsvDialect, CsvImportOptions } from '../loaders/csvOptions';
+
+const COMMON_TYPES = ['VARCHAR', 'BIGINT', 'INTEGER', 'DOUBLE', 'DECIMAL(18, 3)', 'BOOLEAN', 'DATE', 'TIMESTAMP', 'TIME'];
+
+// Builds the import options form for a CSV file. Fields left empty are sniffed by
+// DuckDB, and what it detected is shown as their placeholder. Every change hands the
+// full set of options to `onChange`.
+export function renderCsvOptionsForm(
+  container: HTMLElement,
+  options: CsvImportOptions,
+  detected: CsvDialect | null,
+  schema: ColumnSchema[],
+  onChange: (options: CsvImportOptions) => void
+) {
+  const form = document.createElement('form');
+  form.className = 'csv-options-form';
+  form.addEventListener('submit', (event) => event.preventDefault());
+
+  const grid = document.createElement('div');
+  grid.className = 'csv-options-grid';
+  grid.append(
+    createTextField('delimiter', 'Delimiter', displayCharacter(options.delimiter), autoLabel(displayCharacter(detected?.delimiter))),
+    createSelectField('header', 'Header row', options.header === false ? 'no' : 'yes', [['yes', 'Yes'], ['no', 'No']]),
+    createTextField('quote', 'Quote', options.quote, autoLabel(detected?.quote)),
+    createTextField('escape', 'Escape', options.escape, autoLabel(detected?.escape)),
+    createNumberField('skipRows', 'Skip rows', options.skipRows, autoLabel(detected ? String(detected.skipRows) : undefined)),
+    createSelectField('decimalSeparator', 'Decimal separator', options.decimalSeparator ?? '.', [['.', 'Point (1.5)'], [',', 'Comma (1,5)']]),
+    createTextField('dateFormat', 'Date format', options.dateFormat, autoLabel(detected?.dateFormat ?? undefined, '%Y-%m-%d')),
+    createTextField('timestampFormat', 'Timestamp format', options.timestampFormat, autoLabel(detected?.timestampFormat ?? undefined, '%Y-%m-%d %H:%M:%S')),
+    createSelectField('encoding', 'Encoding', options.encoding ?? CSV_ENCODINGS[0], CSV_ENCODINGS.map((encoding) => [encoding, encoding])),
+    createNumberField('sampleSize', 'Sample size', options.sampleSize, 'auto (20480; -1 reads all)'),
+  );
+
+  const ignoreErrors = document.createElement('label');
+  ignoreErrors.className = 'csv-options-check';
+  const ignoreErrorsInput = document.createElement('input');
+  ignoreErrorsInput.type = 'checkbox';
+  ignoreErrorsInput.name = 'ignoreErrors';
+  ignoreErrorsInput.checked = Boolean(options.ignoreErrors);
+  ignoreErrors.append(ignoreErrorsInput, document.createTextNode('Skip lines that cannot be parsed'));
+
+  const types = document.createElement('details');
+  types.className = 'csv-options-types';
+  types.open = Object.keys(options.columnTypes ?? {}).length > 0;
+  const typesSummary = document.createElement('summary');
+  typesSummary.textContent = 'Column types';
+  types.appendChild(typesSummary);
+  const typeList = document.createElement('datalist');
+  typeList.id = 'csv-type-suggestions';
+  COMMON_TYPES.forEach((type) => {
+    const option = document.createElement('option');
+    option.value = type;
+    typeList.appendChild(option);
+  });
+  types.appendChild(typeList);
+  schema.forEach((column) => {
+    const row = document.createElement('label');
+    row.className = 'csv-options-type';
+    const name = document.createElement('span');
+    name.textContent = column.name;
+    name.title = column.name;
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.dataset.column = column.name;
+    input.value = options.columnTypes?.[column.name] ?? '';
+    input.placeholder = column.type;
+    input.setAttribute('list', typeList.id);
+    row.append(name, input);
+    types.appendChild(row);
+  });
+
+  const actions = document.createElement('div');
+  actions.className = 'csv-options-actions';
+  const reset = document.createElement('button');
+  reset.type = 'button';
+  reset.className = 'secondary';
+  reset.textContent = 'Reset to detected';
+  reset.addEventListener('click', () => onChange({}));
+  actions.appendChild(reset);
+
+  form.append(grid, ignoreErrors, types, actions);
+  form.addEventListener('change', () => onChange(readCsvOptionsForm(form)));
+  container.replaceChildren(form);
+}
+
+function readCsvOptionsForm(form: HTMLFormElement): CsvImportOptions {
+  const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement | null)?.value ?? '';
+  const number = (name: string) => (field(name).trim() === '' ? undefined : Number(field(name)));
+  const text = (name: string) => field(name) || undefined;
+
+  const options: CsvImportOptions = {
+    delimiter: text('delimiter')?.replace(/\\t/g, '\t'),
+    header: field('header') === 'no' ? false : undefined,
+    quote: text('quote'),
+    escape: text('escape'),
+    skipRows: number('skipRows'),
+    decimalSeparator: field('decimalSeparator') === ',' ? ',' : undefined,
+    dateFormat: text('dateFormat'),
+    timestampFormat: text('timestampFormat'),
+    encoding: field('encoding') === CSV_ENCODINGS[0] ? undefined : field('encoding'),
+    ignoreErrors: (form.elements.namedItem('ignoreErrors') as HTMLInputElement | null)?.checked || undefined,
+    sampleSize: number('sampleSize'),
+  };
+  const columnTypes: Record<string, string> = {};
+  form.querySelectorAll<HTMLInputElement>('input[data-column]').forEach((input) => {
+    if (input.value.trim()) {
+      columnTypes[input.dataset.column ?? ''] = input.value.trim();
+    }
+  });
+  if (Object.keys(columnTypes).length > 0) {
+    options.columnTypes = columnTypes;
+  }
+
+  // Drop unset options so that what gets stored only holds the user's choices.
+  (Object.keys(options) as Array<keyof CsvImportOptions>).forEach((key) => {
+    if (options[key] === undefined || (typeof options[key] === 'number' && Number.isNaN(options[key]))) {
+      delete options[key];
+    }
+  });
+  return options;
+}
+
+// Tabs are shown and typed as \t.
+function displayCharacter(value: string | undefined): string | undefined {
+  return value?.replace(/\t/g, '\\t');
+}
+
+function autoLabel(detected: string | undefined, example?: string): string {
+  if (detected) {
+    return `auto (${detected})`;
+  }
+  return example ? `auto, e.g. ${example}` : 'auto';
+}
+
+function createTextField(name: string, label: string, value: string | undefined, placeholder: string): HTMLElement {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.name = name;
+  input.value = value ?? '';
+  input.placeholder = placeholder;
+  return wrapField(label, input);
+}
+
+function createNumberField(name: string, label: string, value: number | undefined, placeholder: string): HTMLElement {
+  const input = document.createElement('input');
+  input.type = 'number';
+  input.name = name;
+  input.value = value === undefined ? '' : String(value);
+  input.placeholder = placeholder;
+  return wrapField(label, input);
+}
+
+function createSelectField(name: string, label: string, value: string, choices: Array<[string, string]>): HTMLElement {
+  const select = document.createElement('select');
+  select.name = name;
+  choices.forEach(([choice, text]) => {
+    const option = document.createElement('option');
+    option.value = choice;
+    option.textContent = text;
+    select.appendChild(option);
+  });
+  select.value = value;
+  return wrapField(label, select);
+}
+
+function wrapField(label: string, control: HTMLElement): HTMLElement {
+  const wrapper = document.createElement('label');
+  wrapper.className = 'csv-options-field';
+  const text = document.createElement('span');
+  text.textContent = label;
+  wrapper.append(text, control);
+  return wrapper;
+}
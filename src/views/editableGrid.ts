@@ -0,0 +1,328 @@
+import { CsvTable } from '../utils/csvText';
+
+// A cell of the grid; row -1 is the header with the column names.
+export interface GridCell {
+  row: number;
+  column: number;
+}
+
+export interface EditableGridOptions {
+  onEditCell: (row: number, column: number, value: string) => void;
+  onRenameColumn: (column: number, name: string) => void;
+  onSelect: (cell: GridCell) => void;
+}
+
+const ROW_HEIGHT = 28;
+const OVERSCAN_ROWS = 8;
+const ROW_NUMBER_WIDTH = 56;
+// Rows sampled when estimating column widths.
+const WIDTH_SAMPLE_ROWS = 200;
+const MIN_COLUMN_WIDTH = 80;
+const MAX_COLUMN_WIDTH = 320;
+
+// Renders a CSV table with only the rows in view in the DOM, like VirtualGrid, and lets
+// cells and column names be edited in place. The grid never changes the table itself:
+// edits are reported through the options and come back as a refresh.
+export class EditableGrid {
+  private table: CsvTable | null = null;
+  private selection: GridCell = { row: 0, column: 0 };
+  // The cell being edited and its draft value.
+  private editing: (GridCell & { value: string }) | null = null;
+  private readonly header: HTMLDivElement;
+  private readonly body: HTMLDivElement;
+  private readonly rowsLayer: HTMLDivElement;
+  private readonly resizeObserver: ResizeObserver;
+  private renderHandle: number | null = null;
+
+  constructor(private readonly container: HTMLElement, private readonly options: EditableGridOptions) {
+    this.header = document.createElement('div');
+    this.header.className = 'egrid-header';
+    this.body = document.createElement('div');
+    this.body.className = 'egrid-body';
+    this.rowsLayer = document.createElement('div');
+    this.body.appendChild(this.rowsLayer);
+    this.container.replaceChildren(this.header, this.body);
+
+    this.container.addEventListener('scroll', this.scheduleRender);
+    this.container.addEventListener('keydown', this.handleKeyDown);
+    this.resizeObserver = new ResizeObserver(this.scheduleRender);
+    this.resizeObserver.observe(this.container);
+  }
+
+  get selected(): GridCell {
+    return this.selection;
+  }
+
+  get isEditing(): boolean {
+    return this.editing !== null;
+  }
+
+  // Shows a table, or the same table after an edit; the scroll position is kept.
+  setTable(table: CsvTable) {
+    this.table = table;
+    if (this.editing && !this.contains(this.editing)) {
+      this.editing = null;
+    }
+    this.selection = this.clamp(this.selection);
+    const template = [ROW_NUMBER_WIDTH, ...this.estimateColumnWidths()].map((width) => `${width}px`).join(' ');
+    this.container.style.setProperty('--egrid-columns', template);
+    this.render();
+  }
+
+  select(cell: GridCell) {
+    this.selection = this.clamp(cell);
+    this.options.onSelect(this.selection);
+    this.scrollToRow(this.selection.row);
+    this.render();
+    this.container.querySelector<HTMLElement>('.selected')?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }
+
+  // Edits the selected cell, or column name; `initial` replaces its value, as when typing over it.
+  startEditing(initial?: string) {
+    if (!this.table || (this.selection.row >= 0 && this.table.rows.length === 0) || this.table.columns.length === 0) {
+      return;
+    }
+    this.editing = { ...this.selection, value: initial ?? this.valueAt(this.selection) };
+    this.select(this.selection);
+    const input = this.container.querySelector<HTMLInputElement>('input');
+    input?.setSelectionRange(input.value.length, input.value.length);
+  }
+
+  dispose() {
+    this.container.removeEventListener('scroll', this.scheduleRender);
+    this.container.removeEventListener('keydown', this.handleKeyDown);
+    this.resizeObserver.disconnect();
+    if (this.renderHandle !== null) {
+      window.cancelAnimationFrame(this.renderHandle);
+    }
+  }
+
+  private readonly scheduleRender = () => {
+    if (this.renderHandle !== null) {
+      return;
+    }
+    this.renderHandle = window.requestAnimationFrame(() => {
+      this.renderHandle = null;
+      this.render();
+    });
+  };
+
+  private readonly handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.table || this.editing || event.target !== this.container) {
+      return;
+    }
+    const { row, column } = this.selection;
+    const moves: Record<string, GridCell> = {
+      ArrowUp: { row: row - 1, column },
+      ArrowDown: { row: row + 1, column },
+      ArrowLeft: { row, column: column - 1 },
+      ArrowRight: { row, column: column + 1 },
+      Tab: { row, column: event.shiftKey ? column - 1 : column + 1 },
+    };
+    if (moves[event.key]) {
+      event.preventDefault();
+      this.select(moves[event.key]);
+    } else if (event.key === 'Enter' || event.key === 'F2') {
+      event.preventDefault();
+      this.startEditing();
+    } else if ((event.key === 'Delete' || event.key === 'Backspace') && row >= 0 && this.valueAt(this.selection) !== '') {
+      event.preventDefault();
+      this.options.onEditCell(row, column, '');
+    } else if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      event.preventDefault();
+      this.startEditing(event.key);
+    }
+  };
+
+  private commitEditing(move?: GridCell) {
+    const editing = this.editing;
+    this.editing = null;
+    if (editing && editing.value !== this.valueAt(editing)) {
+      if (editing.row < 0) {
+        this.options.onRenameColumn(editing.column, editing.value);
+      } else {
+        this.options.onEditCell(editing.row, editing.column, editing.value);
+      }
+    }
+    this.container.focus({ preventScroll: true });
+    if (move) {
+      this.select(move);
+    } else {
+      this.render();
+    }
+  }
+
+  private cancelEditing() {
+    this.editing = null;
+    this.container.focus({ preventScroll: true });
+    this.render();
+  }
+
+  private createEditor(cell: GridCell): HTMLInputElement {
+    const input = document.createElement('input');
+    input.value = this.editing?.value ?? '';
+    input.addEventListener('input', () => {
+      if (this.editing) {
+        this.editing.value = input.value;
+      }
+    });
+    input.addEventListener('keydown', (event) => {
+      event.stopPropagation();
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.commitEditing({ row: cell.row + 1, column: cell.column });
+      } else if (event.key === 'Tab') {
+        event.preventDefault();
+        this.commitEditing({ row: cell.row, column: cell.column + (event.shiftKey ? -1 : 1) });
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        this.cancelEditing();
+      }
+    });
+    // Re-rendering replaces the input; only a blur the user caused ends the edit.
+    input.addEventListener('blur', () => {
+      if (input.isConnected && this.editing) {
+        this.commitEditing();
+      }
+    });
+    return input;
+  }
+
+  private renderHeader() {
+    const table = this.table;
+    if (!table) {
+      return;
+    }
+    const row = document.createElement('div');
+    row.className = 'egrid-row';
+    const corner = document.createElement('div');
+    corner.className = 'egrid-column egrid-row-number';
+    corner.textContent = '#';
+    row.appendChild(corner);
+
+    table.columns.forEach((column, index) => {
+      const cell = document.createElement('div');
+      cell.className = 'egrid-column';
+      cell.title = `${column.value}\nDouble-click to rename`;
+      this.fillCell(cell, { row: -1, column: index }, column.value);
+      row.appendChild(cell);
+    });
+    this.header.replaceChildren(row);
+  }
+
+  private render() {
+    const table = this.table;
+    if (!table) {
+      return;
+    }
+    this.renderHeader();
+    const rowCount = table.rows.length;
+    this.body.style.height = `${Math.max(rowCount * ROW_HEIGHT, ROW_HEIGHT)}px`;
+
+    if (rowCount === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'egrid-empty';
+      empty.textContent = table.columns.length === 0 ? 'This file is empty. Add a column to start.' : 'No rows. Add a row to start.';
+      this.rowsLayer.style.transform = 'translateY(0px)';
+      this.rowsLayer.replaceChildren(empty);
+      return;
+    }
+
+    const viewportHeight = Math.max(0, this.container.clientHeight - this.header.offsetHeight);
+    const firstRow = Math.floor(this.container.scrollTop / ROW_HEIGHT);
+    const start = Math.max(0, firstRow - OVERSCAN_ROWS);
+    const end = Math.min(rowCount, firstRow + Math.ceil(viewportHeight / ROW_HEIGHT) + OVERSCAN_ROWS + 1);
+
+    const fragment = document.createDocumentFragment();
+    for (let rowIndex = start; rowIndex < end; rowIndex++) {
+      const row = document.createElement('div');
+      row.className = rowIndex === this.selection.row ? 'egrid-row selected' : 'egrid-row';
+      const number = document.createElement('div');
+      number.className = 'egrid-cell egrid-row-number';
+      number.textContent = String(rowIndex + 1);
+      number.addEventListener('click', () => this.select({ row: rowIndex, column: Math.max(0, this.selection.column) }));
+      row.appendChild(number);
+      table.rows[rowIndex].forEach((field, columnIndex) => {
+        const cell = document.createElement('div');
+        cell.className = 'egrid-cell';
+        this.fillCell(cell, { row: rowIndex, column: columnIndex }, field.value);
+        row.appendChild(cell);
+      });
+      fragment.appendChild(row);
+    }
+    this.rowsLayer.style.transform = `translateY(${start * ROW_HEIGHT}px)`;
+    this.rowsLayer.replaceChildren(fragment);
+    this.container.querySelector<HTMLInputElement>('input')?.focus({ preventScroll: true });
+  }
+
+  private fillCell(element: HTMLElement, cell: GridCell, value: string) {
+    const isSelected = cell.row === this.selection.row && cell.column === this.selection.column;
+    element.classList.toggle('selected', isSelected);
+    if (this.editing && this.editing.row === cell.row && this.editing.column === cell.column) {
+      element.appendChild(this.createEditor(cell));
+      return;
+    }
+    element.textContent = value;
+    element.addEventListener('click', () => {
+      if (!this.editing) {
+        this.select(cell);
+      }
+    });
+    element.addEventListener('dblclick', () => {
+      this.selection = cell;
+      this.startEditing();
+    });
+  }
+
+  private scrollToRow(row: number) {
+    if (row < 0) {
+      return;
+    }
+    const viewportHeight = Math.max(ROW_HEIGHT, this.container.clientHeight - this.header.offsetHeight);
+    const top = row * ROW_HEIGHT;
+    if (top < this.container.scrollTop) {
+      this.container.scrollTop = top;
+    } else if (top + ROW_HEIGHT > this.container.scrollTop + viewportHeight) {
+      this.container.scrollTop = top + ROW_HEIGHT - viewportHeight;
+    }
+  }
+
+  private estimateColumnWidths(): number[] {
+    const table = this.table;
+    if (!table) {
+      return [];
+    }
+    const sampleSize = Math.min(table.rows.length, WIDTH_SAMPLE_ROWS);
+    return table.columns.map((column, columnIndex) => {
+      let longest = column.value.length + 2;
+      for (let row = 0; row < sampleSize; row++) {
+        longest = Math.max(longest, table.rows[row][columnIndex]?.value.length ?? 0);
+      }
+      return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest * 8 + 24));
+    });
+  }
+
+  private valueAt(cell: GridCell): string {
+    if (!this.table) {
+      return '';
+    }
+    return cell.row < 0
+      ? this.table.columns[cell.column]?.value ?? ''
+      : this.table.rows[cell.row]?.[cell.column]?.value ?? '';
+  }
+
+  private contains(cell: GridCell): boolean {
+    return Boolean(this.table)
+      && cell.row < (this.table?.rows.length ?? 0)
+      && cell.column < (this.table?.columns.length ?? 0);
+  }
+
+  private clamp(cell: GridCell): GridCell {
+    const rowCount = this.table?.rows.length ?? 0;
+    const columnCount = this.table?.columns.length ?? 0;
+    return {
+      row: Math.max(-1, Math.min(cell.row, rowCount - 1)),
+      column: Math.max(0, Math.min(cell.column, columnCount - 1)),
+    };
+  }
+}
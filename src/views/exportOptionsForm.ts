@@ -0,0 +1,101 @@
+import { ExportFormat, ExportOptions, PARQUET_COMPRESSIONS } from '../utils/exportFormats';
+
+// Builds the options of one export format. Every change hands the full set of
+// options (those of other formats included) to `onChange`.
+export function renderExportOptionsForm(
+  container: HTMLElement,
+  format: ExportFormat,
+  options: ExportOptions,
+  onChange: (options: ExportOptions) => void
+) {
+  const fields: HTMLElement[] = [];
+  let current = options;
+  const update = (patch: ExportOptions) => {
+    current = { ...current, ...patch };
+    onChange(current);
+  };
+
+  if (format === 'csv') {
+    fields.push(
+      createTextField('Delimiter', options.csvDelimiter?.replace(/\t/g, '\\t') ?? '', ', (comma)', (value) => {
+        update({ csvDelimiter: value.replace(/\\t/g, '\t') || undefined });
+      }),
+      createTextField('Quote', options.csvQuote ?? '', '" (double quote)', (value) => {
+        update({ csvQuote: value || undefined });
+      })
+    );
+  } else if (format === 'parquet') {
+    fields.push(
+      createSelectField('Compression', options.parquetCompression ?? 'snappy', PARQUET_COMPRESSIONS, (value) => {
+        update({ parquetCompression: value as ExportOptions['parquetCompression'] });
+      }),
+      createTextField('Row group size', options.parquetRowGroupSize ? String(options.parquetRowGroupSize) : '', '122880 rows', (value) => {
+        const rows = Number(value);
+        update({ parquetRowGroupSize: value.trim() && Number.isFinite(rows) && rows > 0 ? rows : undefined });
+      }, 'number')
+    );
+  } else if (format === 'json') {
+    fields.push(
+      createSelectField('Layout', options.jsonLayout ?? 'array', ['array', 'lines'], (value) => {
+        update({ jsonLayout: value === 'lines' ? 'lines' : 'array' });
+      }, { array: 'Array of objects (.json)', lines: 'One object per line (.ndjson)' })
+    );
+  } else if (format === 'sql') {
+    fields.push(
+      createTextField('Table name', options.sqlTableName ?? '', 'exported_rows', (value) => {
+        update({ sqlTableName: value.trim() || undefined });
+      })
+    );
+  }
+
+  if (fields.length === 0) {
+    const note = document.createElement('div');
+    note.className = 'export-options-note';
+    note.textContent = 'No options for this format.';
+    fields.push(note);
+  }
+  container.replaceChildren(...fields);
+}
+
+function createTextField(
+  label: string,
+  value: string,
+  placeholder: string,
+  onInput: (value: string) => void,
+  type = 'text'
+): HTMLElement {
+  const input = document.createElement('input');
+  input.type = type;
+  input.value = value;
+  input.placeholder = placeholder;
+  input.addEventListener('change', () => onInput(input.value));
+  return wrapField(label, input);
+}
+
+function createSelectField(
+  label: string,
+  value: string,
+  choices: string[],
+  onSelect: (value: string) => void,
+  labels: Record<string, string> = {}
+): HTMLElement {
+  const select = document.createElement('select');
+  choices.forEach((choice) => {
+    const option = document.createElement('option');
+    option.value = choice;
+    option.textContent = labels[choice] ?? choice;
+    select.appendChild(option);
+  });
+  select.value = value;
+  select.addEventListener('change', () => onSelect(select.value));
+  return wrapField(label, select);
+}
+
+function wrapField(label: string, control: HTMLElement): HTMLElement {
+  const wrapper = document.createElement('label');
+  wrapper.className = 'csv-options-field';
+  const text = document.createElement('span');
+  text.textContent = label;
+  wrapper.append(text, control);
+  return wrapper;
+}
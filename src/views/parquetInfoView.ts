@@ -0,0 +1,172 @@
+import { formatByteSize } from '../utils/byteSize';
+import { ParquetColumnChunk, ParquetFileInfo, ParquetRowGroup } from '../utils/parquetMetadata';
+
+// Renders the physical layout of a Parquet file: totals, columns over all row groups,
+// each row group's column chunks, the schema and the footer's key/value metadata.
+export function renderParquetFileInfo(container: HTMLElement, info: ParquetFileInfo) {
+  container.replaceChildren(
+    buildOverview(info),
+    buildSection(`Columns (${info.columns.length})`, buildTable(
+      ['Column', 'Type', 'Compression', 'Encodings', 'Min', 'Max', 'Nulls', 'Compressed', 'Uncompressed', 'Ratio'],
+      info.columns.map((column) => [
+        column.column,
+        column.logicalType ? `${column.physicalType} (${column.logicalType})` : column.physicalType,
+        column.compressions.join(', '),
+        column.encodings.join(', '),
+        column.min,
+        column.max,
+        column.nullCount === null ? null : column.nullCount.toLocaleString(),
+        formatByteSize(column.compressedBytes),
+        formatByteSize(column.uncompressedBytes),
+        formatRatio(column.compressedBytes, column.uncompressedBytes),
+      ])
+    )),
+    buildSection(`Row groups (${info.rowGroups.length})`, ...info.rowGroups.map(buildRowGroup)),
+    buildSection('Schema', buildTable(
+      ['Name', 'Physical type', 'Logical type', 'Converted type', 'Repetition'],
+      info.schema.map((element) => [
+        `${'  '.repeat(element.depth)}${element.name}`,
+        element.type,
+        element.logicalType,
+        element.convertedType,
+        element.repetition,
+      ])
+    )),
+    buildSection(`Key/value metadata (${info.keyValues.length})`, ...(info.keyValues.length > 0
+      ? info.keyValues.map(({ key, value }) => buildKeyValue(key, value))
+      : [buildNote('The file has no key/value metadata.')]))
+  );
+}
+
+function buildOverview(info: ParquetFileInfo): HTMLElement {
+  const overview = document.createElement('dl');
+  overview.className = 'file-info-overview';
+  const entries: Array<[string, string | null]> = [
+    ['Rows', info.rowCount.toLocaleString()],
+    ['Row groups', info.rowGroups.length.toLocaleString()],
+    ['Columns', info.columns.length.toLocaleString()],
+    ['Compressed', formatByteSize(info.compressedBytes)],
+    ['Uncompressed', formatByteSize(info.uncompressedBytes)],
+    ['Ratio', formatRatio(info.compressedBytes, info.uncompressedBytes)],
+    ['Created by', info.createdBy],
+    ['Format version', info.formatVersion === null ? null : String(info.formatVersion)],
+  ];
+  entries.forEach(([label, value]) => {
+    const term = document.createElement('dt');
+    term.textContent = label;
+    const detail = document.createElement('dd');
+    detail.textContent = value ?? '—';
+    detail.title = value ?? '';
+    overview.append(term, detail);
+  });
+  return overview;
+}
+
+function buildSection(title: string, ...content: HTMLElement[]): HTMLElement {
+  const section = document.createElement('section');
+  section.className = 'file-info-section';
+  const heading = document.createElement('h3');
+  heading.textContent = title;
+  section.append(heading, ...content);
+  return section;
+}
+
+// Row groups start collapsed; a file can have thousands, so chunk tables are built when opened.
+function buildRowGroup(group: ParquetRowGroup): HTMLElement {
+  const details = document.createElement('details');
+  details.className = 'file-info-row-group';
+  const summary = document.createElement('summary');
+  summary.textContent = [
+    `Row group ${group.id}`,
+    `${group.rows.toLocaleString()} rows`,
+    `${formatByteSize(group.compressedBytes)} compressed`,
+    `${formatByteSize(group.uncompressedBytes)} uncompressed`,
+  ].join(' • ');
+  details.appendChild(summary);
+  details.addEventListener('toggle', () => {
+    if (details.open && details.childElementCount === 1) {
+      details.appendChild(buildChunkTable(group.chunks));
+    }
+  });
+  return details;
+}
+
+function buildChunkTable(chunks: ParquetColumnChunk[]): HTMLElement {
+  return buildTable(
+    ['Column', 'Type', 'Compression', 'Encodings', 'Min', 'Max', 'Nulls', 'Compressed', 'Uncompressed'],
+    chunks.map((chunk) => [
+      chunk.column,
+      chunk.physicalType,
+      chunk.compression,
+      chunk.encodings,
+      chunk.min,
+      chunk.max,
+      chunk.nullCount === null ? null : chunk.nullCount.toLocaleString(),
+      formatByteSize(chunk.compressedBytes),
+      formatByteSize(chunk.uncompressedBytes),
+    ])
+  );
+}
+
+function buildTable(headings: string[], rows: Array<Array<string | null>>): HTMLElement {
+  const wrapper = document.createElement('div');
+  wrapper.className = 'file-info-table';
+  const table = document.createElement('table');
+  const head = document.createElement('tr');
+  headings.forEach((heading) => {
+    const cell = document.createElement('th');
+    cell.textContent = heading;
+    head.appendChild(cell);
+  });
+  const body = document.createElement('tbody');
+  rows.forEach((row) => {
+    const line = document.createElement('tr');
+    row.forEach((value) => {
+      const cell = document.createElement('td');
+      cell.textContent = value ?? '—';
+      cell.title = value ?? '';
+      line.appendChild(cell);
+    });
+    body.appendChild(line);
+  });
+  const header = document.createElement('thead');
+  header.appendChild(head);
+  table.append(header, body);
+  wrapper.appendChild(table);
+  return wrapper;
+}
+
+// Values are often JSON, such as the pandas or GeoParquet ("geo") schema, which is shown indented.
+function buildKeyValue(key: string, value: string): HTMLElement {
+  const details = document.createElement('details');
+  details.className = 'file-info-key-value';
+  const summary = document.createElement('summary');
+  const name = document.createElement('strong');
+  name.textContent = key;
+  const size = document.createElement('span');
+  size.className = 'relation-meta';
+  size.textContent = formatByteSize(value.length);
+  summary.append(name, size);
+  const text = document.createElement('pre');
+  try {
+    text.textContent = JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    text.textContent = value;
+  }
+  details.append(summary, text);
+  return details;
+}
+
+function buildNote(text: string): HTMLElement {
+  const note = document.createElement('div');
+  note.className = 'file-info-note';
+  note.textContent = text;
+  return note;
+}
+
+function formatRatio(compressedBytes: number, uncompressedBytes: number): string | null {
+  if (compressedBytes <= 0 || uncompressedBytes <= 0) {
+    return null;
+  }
+  return `${(uncompressedBytes / compressedBytes).toLocaleString(undefined, { maximumFractionDigits: 1 })}×`;
+}
@@ -0,0 +1,124 @@
+import { ColumnProfile, HistogramBin, ProfileKind } from '../utils/columnProfile';
+
+// Renders one card per column with its statistics and a histogram or top-values chart.
+export function renderColumnProfiles(container: HTMLElement, profiles: ColumnProfile[]) {
+  container.innerHTML = '';
+  if (profiles.length === 0) {
+    container.innerHTML = '<div class="empty-state">The result has no columns to profile.</div>';
+    return;
+  }
+  const fragment = document.createDocumentFragment();
+  profiles.forEach((profile) => fragment.appendChild(buildProfileCard(profile)));
+  container.appendChild(fragment);
+}
+
+function buildProfileCard(profile: ColumnProfile): HTMLElement {
+  const card = document.createElement('article');
+  card.className = 'profile-card';
+
+  const header = document.createElement('header');
+  header.className = 'profile-card-header';
+  const name = document.createElement('span');
+  name.className = 'profile-column-name';
+  name.textContent = profile.name;
+  const type = document.createElement('span');
+  type.className = 'profile-column-type';
+  type.textContent = profile.type;
+  header.append(name, type);
+
+  const stats = document.createElement('dl');
+  stats.className = 'profile-stats';
+  const entries: Array<[string, string | null]> = [
+    ['Rows', profile.count.toLocaleString()],
+    ['Nulls', `${profile.nullPercentage.toLocaleString(undefined, { maximumFractionDigits: 2 })}%`],
+    ['Distinct (approx.)', profile.approxUnique.toLocaleString()],
+    ['Min', profile.min],
+    ['Max', profile.max],
+  ];
+  if (profile.kind === 'numeric') {
+    entries.push(['Mean', profile.avg], ['Std dev', profile.std]);
+  }
+  if (profile.kind !== 'categorical') {
+    entries.push(['25%', profile.q25], ['Median', profile.q50], ['75%', profile.q75]);
+  }
+  entries.forEach(([label, value]) => {
+    const term = document.createElement('dt');
+    term.textContent = label;
+    const detail = document.createElement('dd');
+    detail.textContent = value ?? '—';
+    detail.title = value ?? '';
+    stats.append(term, detail);
+  });
+
+  const nullBar = document.createElement('div');
+  nullBar.className = 'profile-null-bar';
+  nullBar.title = `${profile.nullPercentage}% null`;
+  const nullFill = document.createElement('div');
+  nullFill.style.width = `${Math.min(100, profile.nullPercentage)}%`;
+  nullBar.appendChild(nullFill);
+
+  card.append(header, nullBar, stats);
+  if (profile.histogram?.length) {
+    card.appendChild(buildHistogram(profile.histogram, profile.kind));
+  } else if (profile.topValues?.length) {
+    card.appendChild(buildTopValues(profile));
+  }
+  return card;
+}
+
+function buildHistogram(bins: HistogramBin[], kind: ProfileKind): HTMLElement {
+  const chart = document.createElement('div');
+  chart.className = 'profile-histogram';
+  const maxCount = Math.max(...bins.map((bin) => bin.count), 1);
+  bins.forEach((bin) => {
+    const bar = document.createElement('div');
+    bar.className = 'profile-histogram-bar';
+    bar.style.height = `${Math.max(bin.count > 0 ? 2 : 0, (bin.count / maxCount) * 100)}%`;
+    bar.title = `${formatBound(bin.lower, kind)} – ${formatBound(bin.upper, kind)}: ${bin.count.toLocaleString()}`;
+    chart.appendChild(bar);
+  });
+
+  const axis = document.createElement('div');
+  axis.className = 'profile-histogram-axis';
+  const low = document.createElement('span');
+  low.textContent = formatBound(bins[0].lower, kind);
+  const high = document.createElement('span');
+  high.textContent = formatBound(bins[bins.length - 1].upper, kind);
+  axis.append(low, high);
+
+  const wrapper = document.createElement('div');
+  wrapper.append(chart, axis);
+  return wrapper;
+}
+
+function buildTopValues(profile: ColumnProfile): HTMLElement {
+  const list = document.createElement('ol');
+  list.className = 'profile-top-values';
+  const total = Math.max(profile.count, 1);
+  const maxCount = Math.max(...(profile.topValues ?? []).map((entry) => entry.count), 1);
+  (profile.topValues ?? []).forEach((entry) => {
+    const item = document.createElement('li');
+    const label = document.createElement('span');
+    label.className = 'profile-top-label';
+    label.textContent = entry.value === '' ? '(empty)' : entry.value;
+    label.title = entry.value;
+    const bar = document.createElement('span');
+    bar.className = 'profile-top-bar';
+    bar.style.width = `${(entry.count / maxCount) * 100}%`;
+    const count = document.createElement('span');
+    count.className = 'profile-top-count';
+    count.textContent = `${entry.count.toLocaleString()} (${((entry.count / total) * 100).toFixed(1)}%)`;
+    item.append(label, bar, count);
+    list.appendChild(item);
+  });
+  return list;
+}
+
+// Temporal bins are epoch seconds.
+function formatBound(value: number, kind: ProfileKind): string {
+  if (kind === 'temporal') {
+    const iso = new Date(value * 1000).toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.replace('.000Z', 'Z');
+  }
+  return Number.isInteger(value) ? value.toLocaleString() : value.toPrecision(4);
+}
@@ -0,0 +1,104 @@
+import { LoadedRelation } from '../loaders/types';
+import { buildSchemaTree, LIST_ELEMENT, SchemaNode } from '../utils/columnTypes';
+
+const METADATA_VALUE_LIMIT = 200;
+
+// Lists each relation with its columns; nested types expand into their fields.
+// Clicking a relation or field name hands its SQL text to `onInsert`.
+export function renderSchemaTree(
+  container: HTMLElement,
+  relations: LoadedRelation[],
+  onInsert: (text: string) => void
+) {
+  const fragment = document.createDocumentFragment();
+  relations.forEach((relation, index) => {
+    const details = document.createElement('details');
+    details.className = 'schema-relation';
+    details.open = index === 0;
+
+    const summary = document.createElement('summary');
+    summary.title = describeMetadata(relation.metadata);
+    summary.appendChild(createInsertButton(relation.relationIdentifier, relation.relationIdentifier, onInsert));
+    const meta = document.createElement('span');
+    meta.className = 'schema-type';
+    meta.textContent = `${relation.schema.length} column${relation.schema.length === 1 ? '' : 's'}`;
+    summary.appendChild(meta);
+    details.appendChild(summary);
+
+    buildSchemaTree(relation.schema).forEach((node) => details.appendChild(buildNode(node, onInsert)));
+    fragment.appendChild(details);
+  });
+  container.replaceChildren(fragment);
+}
+
+function buildNode(node: SchemaNode, onInsert: (text: string) => void): HTMLElement {
+  const row = document.createElement('div');
+  row.className = 'schema-field';
+  row.title = [node.type, describeMetadata(node.metadata)].filter(Boolean).join('\n');
+  row.appendChild(node.insertText
+    ? createInsertButton(node.name, node.insertText, onInsert)
+    : createLabel(node.name));
+
+  const type = document.createElement('span');
+  type.className = 'schema-type';
+  type.textContent = shortTypeName(node);
+  row.appendChild(type);
+  if (node.nullable !== undefined) {
+    const nullability = document.createElement('span');
+    nullability.className = 'schema-nullability';
+    nullability.textContent = node.nullable ? 'null' : 'not null';
+    row.appendChild(nullability);
+  }
+
+  if (node.children.length === 0) {
+    return row;
+  }
+  const details = document.createElement('details');
+  details.className = 'schema-nested';
+  const summary = document.createElement('summary');
+  summary.appendChild(row);
+  details.appendChild(summary);
+  node.children.forEach((child) => details.appendChild(buildNode(child, onInsert)));
+  return details;
+}
+
+// Nested types are summarized by their kind; the full type is in the tooltip.
+function shortTypeName(node: SchemaNode): string {
+  if (node.children.length === 0) {
+    return node.type;
+  }
+  if (node.children[0].name === LIST_ELEMENT) {
+    return 'LIST';
+  }
+  return node.type.split('(')[0].trim().toUpperCase();
+}
+
+// Arrow metadata as "key: value" lines for tooltips. Long values (pandas stores
+// a whole JSON document) are cut short.
+function describeMetadata(metadata: Record<string, string> | undefined): string {
+  return Object.entries(metadata ?? {})
+    .map(([key, value]) => `${key}: ${value.length > METADATA_VALUE_LIMIT ? `${value.slice(0, METADATA_VALUE_LIMIT)}…` : value}`)
+    .join('\n');
+}
+
+function createInsertButton(label: string, text: string, onInsert: (text: string) => void): HTMLElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'schema-insert';
+  button.textContent = label;
+  button.title = `Insert ${text} into the SQL editor`;
+  button.addEventListener('click', (event) => {
+    // Inserting should not also expand or collapse the surrounding <details>.
+    event.preventDefault();
+    event.stopPropagation();
+    onInsert(text);
+  });
+  return button;
+}
+
+function createLabel(label: string): HTMLElement {
+  const span = document.createElement('span');
+  span.className = 'schema-label';
+  span.textContent = label;
+  return span;
+}
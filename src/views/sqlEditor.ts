@@ -0,0 +1,224 @@
+import {
+  autocompletion,
+  closeBrackets,
+  closeBracketsKeymap,
+  completeFromList,
+  Completion,
+  completionKeymap,
+} from '@codemirror/autocomplete';
+import { defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { PostgreSQL, sql, SQLDialect } from '@codemirror/lang-sql';
+import { bracketMatching, HighlightStyle, indentOnInput, syntaxHighlighting } from '@codemirror/language';
+import { setDiagnostics } from '@codemirror/lint';
+import { Compartment, EditorSelection, Prec } from '@codemirror/state';
+import {
+  drawSelection,
+  EditorView,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+  placeholder,
+} from '@codemirror/view';
+import { tags } from '@lezer/highlight';
+import { LoadedRelation } from '../loaders/types';
+import { splitQualifiedIdentifier } from '../utils/sqlHelpers';
+
+// The statement to run and where it starts in the editor, for mapping error positions back.
+export interface RunnableSql {
+  sql: string;
+  offset: number;
+}
+
+export interface SqlEditorOptions {
+  placeholder: string;
+  onRun: (runnable: RunnableSql) => void;
+}
+
+// DuckDB syntax on top of the PostgreSQL dialect it largely follows.
+const DUCKDB_KEYWORDS = 'anti asof attach columns describe detach exclude glob install load macro pivot pivot_longer '
+  + 'pivot_wider positional pragma qualify rename replace sample semi summarize unpivot using';
+const DUCKDB_TYPES = 'blob hugeint list map struct tinyint ubigint uhugeint uinteger union usmallint utinyint uuid varint';
+
+const highlightStyle = HighlightStyle.define([
+  { tag: tags.keyword, color: 'var(--vscode-debugTokenExpression-name, #569cd6)' },
+  { tag: [tags.string, tags.special(tags.string)], color: 'var(--vscode-debugTokenExpression-string, #ce9178)' },
+  { tag: [tags.number, tags.bool, tags.null], color: 'var(--vscode-debugTokenExpression-number, #b5cea8)' },
+  { tag: tags.comment, color: 'var(--vscode-descriptionForeground)', fontStyle: 'italic' },
+  { tag: tags.typeName, color: 'var(--vscode-symbolIcon-classForeground, #4ec9b0)' },
+  { tag: tags.standard(tags.name), color: 'var(--vscode-symbolIcon-functionForeground, #dcdcaa)' },
+  { tag: tags.special(tags.name), color: 'var(--vscode-symbolIcon-variableForeground, #9cdcfe)' },
+  { tag: tags.operator, color: 'var(--vscode-foreground)' },
+]);
+
+const editorTheme = EditorView.theme({
+  '&': {
+    backgroundColor: 'var(--vscode-editor-background)',
+    color: 'var(--vscode-editor-foreground)',
+    fontSize: '13px',
+  },
+  '.cm-content': {
+    fontFamily: "'SFMono-Regular', Consolas, 'Courier New', monospace",
+    caretColor: 'var(--vscode-editorCursor-foreground)',
+  },
+  '.cm-cursor': { borderLeftColor: 'var(--vscode-editorCursor-foreground)' },
+  '&.cm-focused .cm-selectionBackground, .cm-selectionBackground': {
+    backgroundColor: 'var(--vscode-editor-selectionBackground)',
+  },
+  '.cm-gutters': {
+    backgroundColor: 'var(--vscode-editorGutter-background, var(--vscode-editor-background))',
+    color: 'var(--vscode-editorLineNumber-foreground)',
+    border: 'none',
+  },
+  '.cm-activeLine, .cm-activeLineGutter': { backgroundColor: 'var(--vscode-editor-lineHighlightBackground, transparent)' },
+  '.cm-placeholder': { color: 'var(--vscode-editor-placeholder-foreground, var(--vscode-descriptionForeground))' },
+  '.cm-tooltip': {
+    backgroundColor: 'var(--vscode-editorSuggestWidget-background)',
+    color: 'var(--vscode-editorSuggestWidget-foreground)',
+    border: '1px solid var(--vscode-editorSuggestWidget-border)',
+  },
+  '.cm-tooltip-autocomplete > ul > li[aria-selected]': {
+    backgroundColor: 'var(--vscode-editorSuggestWidget-selectedBackground)',
+    color: 'var(--vscode-editorSuggestWidget-selectedForeground, inherit)',
+  },
+  '.cm-completionDetail': { color: 'var(--vscode-descriptionForeground)' },
+  '.cm-diagnostic-error': { borderLeftColor: 'var(--vscode-editorError-foreground)' },
+}, { dark: document.body.classList.contains('vscode-dark') });
+
+// Code editor for the SQL panel: DuckDB highlighting, completion of loaded
+// relations, columns and functions, and error underlines.
+export class SqlEditor {
+  private readonly view: EditorView;
+  private readonly language = new Compartment();
+  private readonly placeholderText = new Compartment();
+  // Columns of each relation, keyed by its dotted path.
+  private namespace: Record<string, Completion[]> = {};
+  private functions: string[] = [];
+  private hasDiagnostics = false;
+
+  constructor(parent: HTMLElement, private readonly options: SqlEditorOptions) {
+    this.view = new EditorView({
+      parent,
+      extensions: [
+        Prec.highest(keymap.of([{ key: 'Mod-Enter', run: () => this.runCurrent() }])),
+        lineNumbers(),
+        highlightActiveLineGutter(),
+        highlightActiveLine(),
+        history(),
+        drawSelection(),
+        indentOnInput(),
+        bracketMatching(),
+        closeBrackets(),
+        autocompletion(),
+        keymap.of([...closeBracketsKeymap, ...defaultKeymap, ...historyKeymap, ...completionKeymap]),
+        syntaxHighlighting(highlightStyle),
+        EditorView.lineWrapping,
+        editorTheme,
+        this.language.of(this.buildLanguage()),
+        this.placeholderText.of(placeholder(options.placeholder)),
+        EditorView.updateListener.of((update) => {
+          // An error underline is stale once the text changes.
+          if (update.docChanged && this.hasDiagnostics) {
+            this.hasDiagnostics = false;
+            queueMicrotask(() => this.view.dispatch(setDiagnostics(this.view.state, [])));
+          }
+        }),
+      ],
+    });
+  }
+
+  get value(): string {
+    return this.view.state.doc.toString();
+  }
+
+  set value(text: string) {
+    this.view.dispatch({
+      changes: { from: 0, to: this.view.state.doc.length, insert: text },
+      selection: EditorSelection.cursor(text.length),
+    });
+  }
+
+  // The selection when there is one, otherwise the whole editor.
+  getRunnableSql(): RunnableSql {
+    const { from, to } = this.view.state.selection.main;
+    const text = from === to ? this.value : this.view.state.sliceDoc(from, to);
+    const start = from === to ? 0 : from;
+    const leading = text.length - text.trimStart().length;
+    return { sql: text.trim(), offset: start + leading };
+  }
+
+  // Replaces the selection and keeps the caret after the insert.
+  insertText(text: string) {
+    this.view.dispatch(this.view.state.replaceSelection(text));
+    this.view.focus();
+  }
+
+  focus() {
+    this.view.focus();
+  }
+
+  setPlaceholder(text: string) {
+    this.view.dispatch({ effects: this.placeholderText.reconfigure(placeholder(text)) });
+  }
+
+  setRelations(relations: LoadedRelation[]) {
+    this.namespace = {};
+    relations.forEach((relation) => {
+      // Dots separate catalog, schema and table; a literal dot in a name is escaped.
+      const key = splitQualifiedIdentifier(relation.relationIdentifier)
+        .map((part) => part.replace(/\./g, '\\.'))
+        .join('.');
+      this.namespace[key] = relation.schema.map((column) => ({ label: column.name, type: 'property', detail: column.type }));
+    });
+    this.reconfigureLanguage();
+  }
+
+  setFunctions(functions: string[]) {
+    this.functions = functions;
+    this.reconfigureLanguage();
+  }
+
+  // Underlines the token at `position` (an offset into the editor text).
+  showError(position: number, message: string) {
+    const doc = this.view.state.doc;
+    if (doc.length === 0) {
+      return;
+    }
+    const from = Math.min(Math.max(position, 0), doc.length - 1);
+    const to = this.view.state.wordAt(from)?.to ?? from + 1;
+    this.hasDiagnostics = true;
+    this.view.dispatch(setDiagnostics(this.view.state, [{ from, to: Math.max(to, from + 1), severity: 'error', message }]));
+    this.view.dispatch({ effects: EditorView.scrollIntoView(from, { y: 'nearest' }) });
+  }
+
+  clearError() {
+    if (this.hasDiagnostics) {
+      this.hasDiagnostics = false;
+      this.view.dispatch(setDiagnostics(this.view.state, []));
+    }
+  }
+
+  private runCurrent(): boolean {
+    this.options.onRun(this.getRunnableSql());
+    return true;
+  }
+
+  private reconfigureLanguage() {
+    this.view.dispatch({ effects: this.language.reconfigure(this.buildLanguage()) });
+  }
+
+  private buildLanguage() {
+    const dialect = SQLDialect.define({
+      ...PostgreSQL.spec,
+      keywords: `${PostgreSQL.spec.keywords ?? ''} ${DUCKDB_KEYWORDS}`,
+      types: `${PostgreSQL.spec.types ?? ''} ${DUCKDB_TYPES}`,
+      builtin: this.functions.join(' '),
+      caseInsensitiveIdentifiers: true,
+    });
+    const functionCompletions = completeFromList(this.functions.map((name) => ({ label: name, type: 'function' })));
+    return [
+      sql({ dialect, schema: this.namespace, upperCaseKeywords: true }),
+      dialect.language.data.of({ autocomplete: functionCompletions }),
+    ];
+  }
+}
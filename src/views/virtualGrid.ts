@@ -0,0 +1,227 @@
+import { Table, Vector } from 'apache-arrow';
+import { SortDirection } from '../utils/filterSql';
+
+export interface GridSortKey {
+  columnIndex: number;
+  direction: SortDirection;
+}
+
+export interface VirtualGridOptions {
+  formatCell: (value: any) => string;
+  onHeaderClick: (columnIndex: number, event: MouseEvent) => void;
+  onFilterInput: (columnIndex: number, value: string) => void;
+  // Adds classes or a tooltip to a rendered cell, e.g. to highlight differences.
+  decorateCell?: (cell: HTMLElement, rowIndex: number, columnIndex: number) => void;
+}
+
+const ROW_HEIGHT = 32;
+const OVERSCAN_ROWS = 8;
+// Browsers stop honouring element heights somewhere above 30M px, so very long
+// results scroll through a capped spacer and map the position proportionally.
+const MAX_SCROLL_HEIGHT = 8_000_000;
+// Rows sampled when estimating column widths.
+const WIDTH_SAMPLE_ROWS = 200;
+const MIN_COLUMN_WIDTH = 80;
+const MAX_COLUMN_WIDTH = 360;
+
+// Renders an Arrow table as a grid that only creates DOM for the rows in view.
+// The table stays the source of truth; cells are read from its column vectors on demand.
+export class VirtualGrid {
+  private table: Table | null = null;
+  private vectors: Array<Vector | null> = [];
+  private readonly header: HTMLDivElement;
+  private readonly body: HTMLDivElement;
+  private readonly rowsLayer: HTMLDivElement;
+  private readonly resizeObserver: ResizeObserver;
+  private renderHandle: number | null = null;
+
+  constructor(private readonly container: HTMLElement, private readonly options: VirtualGridOptions) {
+    this.header = document.createElement('div');
+    this.header.className = 'vgrid-header';
+    this.body = document.createElement('div');
+    this.body.className = 'vgrid-body';
+    this.rowsLayer = document.createElement('div');
+    this.rowsLayer.className = 'vgrid-rows';
+    this.body.appendChild(this.rowsLayer);
+
+    this.container.addEventListener('scroll', this.scheduleRender);
+    this.resizeObserver = new ResizeObserver(this.scheduleRender);
+    this.resizeObserver.observe(this.container);
+  }
+
+  get rowCount(): number {
+    return this.table ? this.table.numRows : 0;
+  }
+
+  get columnNames(): string[] {
+    return this.table ? this.table.schema.fields.map((field) => field.name) : [];
+  }
+
+  // Replaces the data and rebuilds the header; filter inputs start from `filterValues`.
+  setTable(table: Table, filterValues: string[] = []) {
+    this.table = table;
+    this.vectors = table.schema.fields.map((_, index) => table.getChildAt(index));
+    this.buildHeader(filterValues);
+
+    this.container.innerHTML = '';
+    this.container.classList.add('vgrid');
+    this.container.append(this.header, this.body);
+    this.container.scrollTop = 0;
+    this.render();
+  }
+
+  // Swaps in new rows with the same columns, keeping the header (and any focused filter input).
+  // Appending pages keeps the scroll position; a new result starts at the top.
+  setRows(table: Table, resetScroll = true) {
+    this.table = table;
+    this.vectors = table.schema.fields.map((_, index) => table.getChildAt(index));
+    if (resetScroll) {
+      this.container.scrollTop = 0;
+    }
+    this.render();
+  }
+
+  setSortIndicators(sortKeys: GridSortKey[]) {
+    const buttons = Array.from(this.header.querySelectorAll<HTMLButtonElement>('.header-button'));
+    buttons.forEach((button, index) => {
+      const position = sortKeys.findIndex((key) => key.columnIndex === index);
+      if (position >= 0) {
+        button.dataset.sort = sortKeys[position].direction;
+        button.dataset.sortOrder = sortKeys.length > 1 ? String(position + 1) : '';
+      } else {
+        delete button.dataset.sort;
+        delete button.dataset.sortOrder;
+      }
+    });
+  }
+
+  getValue(rowIndex: number, columnIndex: number): any {
+    return this.vectors[columnIndex]?.get(rowIndex);
+  }
+
+  dispose() {
+    this.container.removeEventListener('scroll', this.scheduleRender);
+    this.resizeObserver.disconnect();
+    if (this.renderHandle !== null) {
+      window.cancelAnimationFrame(this.renderHandle);
+    }
+    this.container.classList.remove('vgrid');
+  }
+
+  private readonly scheduleRender = () => {
+    if (this.renderHandle !== null) {
+      return;
+    }
+    this.renderHandle = window.requestAnimationFrame(() => {
+      this.renderHandle = null;
+      this.render();
+    });
+  };
+
+  private buildHeader(filterValues: string[]) {
+    if (!this.table) {
+      return;
+    }
+    const fields = this.table.schema.fields;
+    const template = this.estimateColumnWidths().map((width) => `${width}px`).join(' ');
+    this.container.style.setProperty('--vgrid-columns', template);
+
+    const columnRow = document.createElement('div');
+    columnRow.className = 'vgrid-row column-row';
+    const filterRow = document.createElement('div');
+    filterRow.className = 'vgrid-row filter-row';
+
+    fields.forEach((field, index) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'header-button';
+      button.title = `${field.name} (${String(field.type)})\nClick to sort, Shift+Click to sort by several columns`;
+
+      const label = document.createElement('span');
+      label.className = 'header-label';
+      label.textContent = field.name;
+      const indicator = document.createElement('span');
+      indicator.className = 'sort-indicator';
+
+      button.append(label, indicator);
+      button.addEventListener('click', (event) => this.options.onHeaderClick(index, event));
+      columnRow.appendChild(button);
+
+      const input = document.createElement('input');
+      input.type = 'search';
+      input.placeholder = 'Filter';
+      input.title = 'Text to search for, or =, !=, >, >=, <, <=, a..b, null, not null, like, ilike, ~regex';
+      input.value = filterValues[index] ?? '';
+      input.setAttribute('aria-label', `Filter column ${field.name}`);
+      input.addEventListener('input', () => this.options.onFilterInput(index, input.value));
+      filterRow.appendChild(input);
+    });
+
+    this.header.innerHTML = '';
+    this.header.append(columnRow, filterRow);
+  }
+
+  private estimateColumnWidths(): number[] {
+    if (!this.table) {
+      return [];
+    }
+    const sampleSize = Math.min(this.table.numRows, WIDTH_SAMPLE_ROWS);
+    return this.table.schema.fields.map((field, columnIndex) => {
+      let longest = field.name.length + 2;
+      const vector = this.vectors[columnIndex];
+      for (let row = 0; row < sampleSize && vector; row++) {
+        longest = Math.max(longest, this.options.formatCell(vector.get(row)).length);
+      }
+      return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest * 8 + 28));
+    });
+  }
+
+  private render() {
+    if (!this.table) {
+      return;
+    }
+    const rowCount = this.rowCount;
+    const virtualHeight = rowCount * ROW_HEIGHT;
+    const scrollHeight = Math.min(virtualHeight, MAX_SCROLL_HEIGHT);
+    this.body.style.height = `${Math.max(scrollHeight, ROW_HEIGHT)}px`;
+
+    if (rowCount === 0) {
+      this.rowsLayer.style.transform = 'translateY(0px)';
+      this.rowsLayer.innerHTML = '';
+      const empty = document.createElement('div');
+      empty.className = 'empty-row';
+      empty.textContent = 'No rows match the current filters.';
+      this.rowsLayer.appendChild(empty);
+      return;
+    }
+
+    const viewportHeight = Math.max(0, this.container.clientHeight - this.header.offsetHeight);
+    const scrollTop = Math.min(this.container.scrollTop, Math.max(0, scrollHeight - viewportHeight));
+    const scale = scrollHeight > viewportHeight
+      ? Math.max(1, (virtualHeight - viewportHeight) / (scrollHeight - viewportHeight))
+      : 1;
+    const virtualTop = scrollTop * scale;
+
+    const firstRow = Math.floor(virtualTop / ROW_HEIGHT);
+    const start = Math.max(0, firstRow - OVERSCAN_ROWS);
+    const end = Math.min(rowCount, firstRow + Math.ceil(viewportHeight / ROW_HEIGHT) + OVERSCAN_ROWS + 1);
+    const offset = scrollTop - (virtualTop - start * ROW_HEIGHT);
+
+    const fragment = document.createDocumentFragment();
+    for (let rowIndex = start; rowIndex < end; rowIndex++) {
+      const row = document.createElement('div');
+      row.className = rowIndex % 2 === 1 ? 'vgrid-row data-row odd' : 'vgrid-row data-row';
+      for (let column = 0; column < this.vectors.length; column++) {
+        const cell = document.createElement('div');
+        cell.className = 'vgrid-cell';
+        cell.textContent = this.options.formatCell(this.getValue(rowIndex, column));
+        this.options.decorateCell?.(cell, rowIndex, column);
+        row.appendChild(cell);
+      }
+      fragment.appendChild(row);
+    }
+
+    this.rowsLayer.style.transform = `translateY(${offset}px)`;
+    this.rowsLayer.replaceChildren(fragment);
+  }
+}
@@ -1,10 +1,67 @@
 import * as duckdb from '@duckdb/duckdb-wasm';
-import { Table, tableToIPC } from 'apache-arrow';
-import { csvLoader } from './loaders/csvLoader';
+import { DataType, Schema, Table } from 'apache-arrow';
+import { createCsvView, csvLoader } from './loaders/csvLoader';
+import { CsvImportOptions, sniffCsv } from './loaders/csvOptions';
+import { detectFormat, withCompressionSuffix } from './loaders/detectFormat';
 import { arrowLoader } from './loaders/arrowLoader';
 import { parquetLoader } from './loaders/parquetLoader';
-import { DataLoader } from './loaders/types';
-import { buildDefaultQuery } from './utils/sqlHelpers';
+import { sqliteLoader } from './loaders/sqliteLoader';
+import { jsonLoader } from './loaders/jsonLoader';
+import { duckdbLoader } from './loaders/duckdbLoader';
+import { DataLoader, LoadedRelation, LoadResult } from './loaders/types';
+import { buildDefaultQuery, deriveRelationName, ensureUniqueRelationName, formatIdentifierForSql, normalizeSqlForEmbedding } from './utils/sqlHelpers';
+import { buildFilteredQuery, FilterColumn } from './utils/filterSql';
+import {
+  closeResultPager,
+  countResultRows,
+  fetchNextPage,
+  openResultPager,
+  pagerTable,
+  queryInterruptibly,
+  readAllBatches,
+  ResultPager,
+  ScriptStatementError,
+} from './utils/resultPager';
+import { GridSortKey, VirtualGrid } from './views/virtualGrid';
+import { profileColumns } from './utils/columnProfile';
+import { renderColumnProfiles } from './views/profileView';
+import { buildChartData, canChartLocally, ChartData, chartColumnKind, ChartSpec, ChartType, queryChartData } from './utils/chartData';
+import { rasterizeChart, readChartTheme, renderChart, serializeChart } from './views/chartView';
+import { renderSchemaTree } from './views/schemaTree';
+import { renderCsvOptionsForm } from './views/csvOptionsForm';
+import { SqlEditor } from './views/sqlEditor';
+import { locateSqlError } from './utils/sqlErrors';
+import { ExportCancelledError, ExportTransfer, handleExportReply, streamArrowFile } from './utils/exportTransfer';
+import {
+  buildCopyOptions,
+  buildTextExportQuery,
+  createTextExporter,
+  EXPORT_FORMATS,
+  ExportFormat,
+  ExportOptions,
+  exportExtension,
+  isCopyExportFormat,
+  isTextExportFormat,
+} from './utils/exportFormats';
+import { renderExportOptionsForm } from './views/exportOptionsForm';
+import { describeColumns } from './loaders/describe';
+import {
+  BEFORE_COLUMN,
+  buildComparisonCountsSql,
+  buildComparisonSql,
+  buildKeyCandidatesSql,
+  ChangeKind,
+  CHANGE_COLUMN,
+  commonColumns,
+  ComparisonPlan,
+  compareSchemas,
+  suggestKeyColumns,
+  uniqueColumns,
+} from './utils/compareSql';
+import { ComparisonSummary, renderComparisonSummary, renderKeyColumnChoices } from './views/comparisonView';
+import { formatByteSize } from './utils/byteSize';
+import { ParquetFileInfo, readParquetFileInfo } from './utils/parquetMetadata';
+import { renderParquetFileInfo } from './views/parquetInfoView';
 
 declare const acquireVsCodeApi: any;
 const vscode = acquireVsCodeApi();
@@ -13,7 +70,10 @@ const vscode = acquireVsCodeApi();
 const status = document.getElementById('status');
 const controls = document.getElementById('controls');
 const resultsContainer = document.getElementById('results-container');
-const sqlInput = document.getElementById('sql-input') as HTMLTextAreaElement;
+const sqlInput = new SqlEditor(document.getElementById('sql-input') as HTMLElement, {
+  placeholder: 'Write SQL to query and transform your data.',
+  onRun: ({ sql, offset }) => runQueryWithUiFeedback(sql, offset),
+});
 const runButton = document.getElementById('run-query') as HTMLButtonElement;
 const copySqlButton = document.getElementById('copy-sql') as HTMLButtonElement;
 const statusWrapper = document.getElementById('status-wrapper');
@@ -22,7 +82,12 @@ const rowCountLabel = document.getElementById('row-count');
 const resetButton = document.getElementById('reset-query') as HTMLButtonElement | null;
 const sqlErrorContainer = document.getElementById('sql-error');
 const historyList = document.getElementById('history-list');
-const exportButtons = Array.from(document.querySelectorAll<HTMLButtonElement>('[data-export-format]'));
+const exportButton = document.getElementById('export-button') as HTMLButtonElement | null;
+const exportDialog = document.getElementById('export-dialog');
+const exportFormatSelect = document.getElementById('export-format') as HTMLSelectElement | null;
+const exportOptionsContainer = document.getElementById('export-options');
+const exportConfirmButton = document.getElementById('export-confirm') as HTMLButtonElement | null;
+const exportDialogCancel = document.getElementById('export-dialog-cancel');
 const fileDiscoveryHeader = document.getElementById('file-discovery-header');
 const fileDiscoveryArrow = document.getElementById('file-discovery-arrow');
 const fileListContainer = document.getElementById('file-list-container');
@@ -31,88 +96,313 @@ const fileDiscoveryCount = document.getElementById('file-discovery-count');
 const historyButton = document.getElementById('history-button');
 const historyModal = document.getElementById('history-modal');
 const closeHistoryModal = document.getElementById('close-history-modal');
-
-type SortDirection = 'asc' | 'desc' | null;
-
-interface TableRow {
-  raw: any[];
-  display: string[];
-}
-
-interface TableData {
-  columns: string[];
-  rows: TableRow[];
-}
+const historySearchInput = document.getElementById('history-search') as HTMLInputElement | null;
+const historyFileFilter = document.getElementById('history-file-filter') as HTMLSelectElement | null;
+const historyStatusFilter = document.getElementById('history-status-filter') as HTMLSelectElement | null;
+const clearHistoryButton = document.getElementById('clear-history');
+const savedQueryList = document.getElementById('saved-query-list');
+const saveQueryButton = document.getElementById('save-query');
+const historyTabs = Array.from(document.querySelectorAll<HTMLButtonElement>('[data-history-tab]'));
+const relationPicker = document.getElementById('relation-picker');
+const relationList = document.getElementById('relation-list');
+const relationCount = document.getElementById('relation-count');
+const relationPickerTitle = document.getElementById('relation-picker-title');
+const schemaPanel = document.getElementById('schema-panel');
+const schemaPanelHeader = document.getElementById('schema-panel-header');
+const schemaTree = document.getElementById('schema-tree');
+const schemaCount = document.getElementById('schema-count');
+const csvOptionsPanel = document.getElementById('csv-options-panel');
+const csvOptionsHeader = document.getElementById('csv-options-header');
+const csvOptionsFile = document.getElementById('csv-options-file');
+const csvOptionsBody = document.getElementById('csv-options-body');
+const csvOptionsError = document.getElementById('csv-options-error');
+const formatChooser = document.getElementById('format-chooser');
+const formatChooserTitle = document.getElementById('format-chooser-title');
+const formatChooserList = document.getElementById('format-chooser-list');
+const formatChooserCancel = document.getElementById('format-chooser-cancel');
+const sessionPanel = document.getElementById('session-panel');
+const sessionList = document.getElementById('session-list');
+const sessionCount = document.getElementById('session-count');
+const addSessionFileButton = document.getElementById('add-session-file');
+const compareButton = document.getElementById('compare-button');
+const compareDialog = document.getElementById('compare-dialog');
+const compareLeftSelect = document.getElementById('compare-left') as HTMLSelectElement | null;
+const compareRightSelect = document.getElementById('compare-right') as HTMLSelectElement | null;
+const compareKeysContainer = document.getElementById('compare-keys');
+const compareKeyNote = document.getElementById('compare-key-note');
+const compareConfirmButton = document.getElementById('compare-confirm') as HTMLButtonElement | null;
+const compareDialogCancel = document.getElementById('compare-dialog-cancel');
+const compareSummary = document.getElementById('compare-summary');
+const generatedSqlBar = document.getElementById('generated-sql');
+const generatedSqlText = document.getElementById('generated-sql-text');
+const useGeneratedSqlButton = document.getElementById('use-generated-sql');
+const loadMoreButton = document.getElementById('load-more') as HTMLButtonElement | null;
+const previewNotice = document.getElementById('preview-notice');
+const reloadIndicator = document.getElementById('reload-indicator');
+const autoReloadToggle = document.getElementById('auto-reload-toggle') as HTMLButtonElement | null;
+const cancelButton = document.getElementById('cancel-query') as HTMLButtonElement | null;
+const profileContainer = document.getElementById('profile-container');
+const resultsTabs = Array.from(document.querySelectorAll<HTMLButtonElement>('[data-results-view]'));
+const chartPanel = document.getElementById('chart-panel');
+const fileInfoTab = document.querySelector<HTMLButtonElement>('[data-results-view="fileInfo"]');
+const fileInfoPanel = document.getElementById('file-info-panel');
+const fileInfoSelect = document.getElementById('file-info-file') as HTMLSelectElement | null;
+const fileInfoBody = document.getElementById('file-info-body');
+const chartTypeSelect = document.getElementById('chart-type') as HTMLSelectElement | null;
+const chartXSelect = document.getElementById('chart-x') as HTMLSelectElement | null;
+const chartYList = document.getElementById('chart-y');
+const chartSeriesSelect = document.getElementById('chart-series') as HTMLSelectElement | null;
+const chartNote = document.getElementById('chart-note');
+const chartCanvas = document.getElementById('chart-canvas');
+const chartExportPngButton = document.getElementById('chart-export-png');
+const chartExportSvgButton = document.getElementById('chart-export-svg');
+
+type QueryStatus = 'success' | 'error' | 'cancelled' | 'timedOut';
 
 interface QueryHistoryEntry {
-  id: number;
+  id: string;
   sql: string;
   timestamp: number;
   durationMs: number;
   rowCount: number;
+  status: QueryStatus;
   error?: string;
+  // Set by the extension: the workspace-relative file the query ran against.
+  file?: string;
+  pinned?: boolean;
+  chart?: ChartSpec;
+}
+
+interface SavedQuery {
+  uri: string;
+  name: string;
+  sql: string;
+  dataset?: string;
 }
 
-type ExportFormat = 'csv' | 'parquet' | 'arrow';
+type CancelReason = 'user' | 'timeout';
+
+// Raised when Cancel or the query timeout interrupts a running statement.
+class QueryInterruptedError extends Error {
+  constructor(readonly reason: CancelReason, timeoutMs: number) {
+    super(reason === 'timeout'
+      ? `Query timed out after ${Math.round(timeoutMs / 1000).toLocaleString()} s.`
+      : 'Query cancelled.');
+  }
+
+  get status(): QueryStatus {
+    return this.reason === 'timeout' ? 'timedOut' : 'cancelled';
+  }
+}
+
+type ChartImageFormat = 'png' | 'svg';
+type ResultsView = 'grid' | 'profile' | 'chart' | 'fileInfo';
+
+interface ViewerSettings {
+  pageSize?: number;
+  queryTimeoutSeconds?: number;
+  previewThresholdMB?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 10000;
+const DEFAULT_QUERY_TIMEOUT_MS = 300_000;
+const DEFAULT_PREVIEW_THRESHOLD_MB = 512;
+// Rows the default query of a file opened in preview mode reads.
+const PREVIEW_ROW_LIMIT = 1000;
+// Fully loaded results up to this size are charted from memory; larger ones are aggregated in DuckDB.
+const LOCAL_CHART_ROW_LIMIT = 50_000;
+
+// A file registered on the shared connection, under the relation (or catalog) name it reserved.
+interface SessionEntry {
+  name: string;
+  fileName: string;
+  registeredName: string;
+  loaderId: string;
+  relations: LoadedRelation[];
+  // The file in the workspace, used to remember its import options.
+  fileUri?: string;
+  csvOptions?: CsvImportOptions;
+  // Large files open with a limited default query.
+  preview?: boolean;
+}
+
+// What the host sends along with file bytes. Large local files come as a URL
+// DuckDB reads byte ranges from, with their size and first bytes instead.
+interface FileSource {
+  fileUri?: string;
+  csvOptions?: CsvImportOptions;
+  fileUrl?: string;
+  fileSize?: number;
+  fileHead?: any;
+}
 
 let db: duckdb.AsyncDuckDB | null = null;
 let connection: duckdb.AsyncDuckDBConnection | null = null;
+// Second connection for side queries (row counts, profiles) that must not disturb the main result stream.
+let countConnection: duckdb.AsyncDuckDBConnection | null = null;
 let duckdbInitializationPromise: Promise<void> | null = null;
-let currentTableData: TableData | null = null;
+let resultGrid: VirtualGrid | null = null;
 let columnFilters: string[] = [];
 let globalFilter = '';
-let sortState: { columnIndex: number; direction: SortDirection } = { columnIndex: -1, direction: null };
-let tableBodyElement: HTMLTableSectionElement | null = null;
+let sortKeys: GridSortKey[] = [];
+// The query the user ran; grid filters and sorting wrap it and re-run in DuckDB.
+let baseQuerySql: string | null = null;
+let baseTotalRows: number | null = null;
+let activePager: ResultPager | null = null;
+let pageSize = DEFAULT_PAGE_SIZE;
+let queryRunning = false;
+let cancelReason: CancelReason | null = null;
+let queryTimeoutMs = DEFAULT_QUERY_TIMEOUT_MS;
+let previewThresholdBytes = DEFAULT_PREVIEW_THRESHOLD_MB * 1024 * 1024;
+let countingRows = false;
+// Background queries on the second connection: row counts, profiles, charts and comparisons.
+let sideQueries = 0;
+let sideCancelReason: CancelReason | null = null;
+// How far the row count has read a streamed file, e.g. "45%".
+let countProgress: string | null = null;
+let filterColumns: FilterColumn[] = [];
+let tableStateSequence = 0;
+let generatedSql: string | null = null;
+let filterTimeoutHandle: number | null = null;
 let copyTimeoutHandle: number | null = null;
-const DATA_LOADERS: DataLoader[] = [arrowLoader, parquetLoader, csvLoader];
+// Binary formats come first, and JSON before delimited text, which almost any text could be.
+const DATA_LOADERS: DataLoader[] = [arrowLoader, parquetLoader, duckdbLoader, sqliteLoader, jsonLoader, csvLoader];
+const FORMAT_LABELS: Record<string, string> = {
+  csv: 'Delimited text (CSV, TSV, …)',
+  json: 'JSON',
+  parquet: 'Parquet',
+  arrow: 'Arrow IPC',
+  duckdb: 'DuckDB database',
+  sqlite: 'SQLite database',
+};
 let defaultQueryText: string | null = null;
+let loadedRelations: LoadedRelation[] = [];
+let activeRelationIdentifier: string | null = null;
+let sessionEntries: SessionEntry[] = [];
+// Session entry of the CSV file whose import options are shown.
+let csvOptionsEntryName: string | null = null;
+// History is persisted by the extension; this is its latest copy.
 let queryHistory: QueryHistoryEntry[] = [];
-let nextHistoryId = 1;
+let savedQueries: SavedQuery[] = [];
 let lastArrowResult: Table | null = null;
+let resultsView: ResultsView = 'grid';
+// SQL of the profile on screen (or being computed), so switching tabs does not redo it.
+let profiledSql: string | null = null;
+// Parquet footers read for the File info view, by registered file name; a reload registers a new name.
+const parquetFileInfo = new Map<string, Promise<ParquetFileInfo>>();
+let chartSpec: ChartSpec | null = null;
+let chartData: ChartData | null = null;
+// SQL and spec of the chart on screen, like profiledSql.
+let chartedKey: string | null = null;
+// Last export format and options, offered again for the next export.
+let exportFormat: ExportFormat = 'csv';
+let exportOptions: ExportOptions = {};
+// The last successful run, so the chart drawn for it can be saved with it.
+let currentHistoryEntry: QueryHistoryEntry | null = null;
+// The comparison whose summary is shown; results with its columns are highlighted.
+let activeComparison: (ComparisonSummary & { view: string; orderColumns: string[] }) | null = null;
+// Key columns picked in the compare dialog; none matches rows on all their values.
+let compareKeyColumns: string[] = [];
+let compareKeySequence = 0;
+// Files that change on disk are reloaded unless the user paused it.
+let autoReloadPaused = false;
+// Each reload registers the file under a new name, since DuckDB caches what it read of the old one.
+let reloadGeneration = 0;
+// Reloads run one after the other, so two quick changes do not load the same file twice at once.
+let reloadQueue: Promise<void> = Promise.resolve();
 
 // --- Event Listeners (Moved to top) ---
-async function runQueryWithUiFeedback(sql: string) {
+// `editorOffset` is where `sql` starts in the editor, so errors can be underlined there.
+async function runQueryWithUiFeedback(sql: string, editorOffset = 0) {
   clearSqlError();
   try {
     await runQuery(sql);
   } catch (error) {
     showSqlError(error);
+    const message = error instanceof Error ? error.message : String(error);
+    const position = locateScriptError(error, message, sql.trim());
+    if (position !== null) {
+      sqlInput.showError(editorOffset + position, message);
+    }
+  }
+}
+
+// Errors from a script run statement by statement point into that statement.
+function locateScriptError(error: unknown, message: string, script: string): number | null {
+  if (!(error instanceof ScriptStatementError)) {
+    return locateSqlError(message, script);
   }
+  const position = locateSqlError(message, error.statement.text);
+  return position === null ? null : error.statement.start + position;
 }
 
 // Listen for messages from the extension
 window.addEventListener('message', (event: any) => {
   const message = event.data;
+  if (handleExportReply(message)) {
+    return;
+  }
   if (message.command === 'init') {
+    applySettings(message.settings);
     ensureDuckDBInitialized(message.bundles).catch(reportError);
+  } else if (message.command === 'settings') {
+    applySettings(message.settings);
   } else if (message.command === 'loadFile') {
-    handleFileLoad(message.fileName, message.fileData).catch(reportError);
+    handleFileLoad(message.fileName, message.fileData, message, message.query).catch(reportError);
+  } else if (message.command === 'addFile') {
+    handleSessionAdd(message.fileName, message.fileData, message)
+      .then((loadResult) => {
+        if (message.compareWith) {
+          offerComparison(message.compareWith, loadResult);
+        }
+      })
+      .catch(reportError);
+  } else if (message.command === 'reloadFile') {
+    reloadQueue = reloadQueue
+      .then(() => handleFileReload(message.fileName, message.fileData, message))
+      .catch(reportError);
+  } else if (message.command === 'reloadPending') {
+    showReloadIndicator(`${message.fileName} changed on disk; resume auto-reload to see it`, true);
+  } else if (message.command === 'fileProgress') {
+    showFileProgress(message.fileName, message.position, message.size);
   } else if (message.command === 'error') {
     reportError(message.message);
   } else if (message.command === 'fileList') {
     populateFileList(message.files);
+  } else if (message.command === 'history') {
+    queryHistory = message.entries ?? [];
+    renderQueryHistory();
+  } else if (message.command === 'savedQueries') {
+    savedQueries = message.queries ?? [];
+    renderSavedQueries();
+  } else if (message.command === 'runQuery') {
+    sqlInput.value = message.sql;
+    runQueryWithUiFeedback(message.sql);
+  } else if (message.command === 'runSql') {
+    runSqlFromEditor(message.sql, message.files ?? []).catch(reportError);
   }
 });
 
-// Listen for the "Run" button click
+// Listen for the "Run" button click; like Cmd/Ctrl + Enter it runs just the selection if there is one
 runButton.addEventListener('click', () => {
-  runQueryWithUiFeedback(sqlInput.value);
+  const { sql, offset } = sqlInput.getRunnableSql();
+  runQueryWithUiFeedback(sql, offset);
 });
 
-// Allow Cmd/Ctrl + Enter to run the query
-sqlInput.addEventListener('keydown', (event: KeyboardEvent) => {
-  const isSubmitShortcut = event.key === 'Enter' && (event.metaKey || event.ctrlKey);
-  if (isSubmitShortcut) {
-    event.preventDefault();
-    runQueryWithUiFeedback(sqlInput.value);
-  }
+autoReloadToggle?.addEventListener('click', () => {
+  autoReloadPaused = !autoReloadPaused;
+  autoReloadToggle.textContent = autoReloadPaused ? 'Resume auto-reload' : 'Pause auto-reload';
+  autoReloadToggle.title = autoReloadPaused
+    ? 'Reload files again when they change on disk'
+    : 'Stop reloading when the file changes on disk';
+  vscode.postMessage({ command: 'setAutoReload', paused: autoReloadPaused });
 });
 
 // Global search box to filter visible rows
 if (globalSearchInput) {
   globalSearchInput.addEventListener('input', () => {
     globalFilter = globalSearchInput.value;
-    applyTableState();
+    scheduleTableState();
   });
 }
 
@@ -134,6 +424,27 @@ if (copySqlButton) {
   });
 }
 
+if (loadMoreButton) {
+  loadMoreButton.addEventListener('click', () => {
+    loadMoreRows().catch(reportError);
+  });
+}
+
+if (cancelButton) {
+  cancelButton.addEventListener('click', () => {
+    requestCancel('user').catch(reportError);
+  });
+}
+
+if (useGeneratedSqlButton) {
+  useGeneratedSqlButton.addEventListener('click', () => {
+    if (generatedSql) {
+      sqlInput.value = generatedSql;
+      sqlInput.focus();
+    }
+  });
+}
+
 if (resetButton) {
   resetButton.addEventListener('click', () => {
     if (!defaultQueryText) {
@@ -144,13 +455,32 @@ if (resetButton) {
   });
 }
 
-exportButtons.forEach((button) => {
-  button.addEventListener('click', () => {
-    const format = button.dataset.exportFormat as ExportFormat | undefined;
-    if (format) {
-      exportResult(format).catch(reportError);
-    }
+// Export dialog: pick a format and its options, then where to save
+if (exportFormatSelect) {
+  exportFormatSelect.innerHTML = EXPORT_FORMATS
+    .map((format) => `<option value="${format.id}">${escapeHtml(format.label)}</option>`)
+    .join('');
+  exportFormatSelect.addEventListener('change', () => {
+    exportFormat = exportFormatSelect.value as ExportFormat;
+    renderExportOptions();
   });
+}
+
+exportButton?.addEventListener('click', () => {
+  if (exportFormatSelect) {
+    exportFormatSelect.value = exportFormat;
+  }
+  renderExportOptions();
+  exportDialog?.classList.add('visible');
+});
+
+exportDialogCancel?.addEventListener('click', () => {
+  exportDialog?.classList.remove('visible');
+});
+
+exportConfirmButton?.addEventListener('click', () => {
+  exportDialog?.classList.remove('visible');
+  exportResult(exportFormat, exportOptions).catch(reportError);
 });
 
 // History modal controls
@@ -174,10 +504,92 @@ if (historyModal) {
   });
 }
 
+resultsTabs.forEach((tab) => {
+  tab.addEventListener('click', () => showResultsView((tab.dataset.resultsView as ResultsView | undefined) ?? 'grid'));
+});
+
+[chartTypeSelect, chartXSelect, chartSeriesSelect, chartYList].forEach((control) => {
+  control?.addEventListener('change', () => {
+    chartSpec = readChartControls();
+    refreshChart().catch(reportError);
+  });
+});
+
+chartExportPngButton?.addEventListener('click', () => {
+  exportChart('png').catch(reportError);
+});
+
+chartExportSvgButton?.addEventListener('click', () => {
+  exportChart('svg').catch(reportError);
+});
+
+if (chartCanvas) {
+  new ResizeObserver(() => drawChart()).observe(chartCanvas);
+}
+
+historyTabs.forEach((tab) => {
+  tab.addEventListener('click', () => showHistoryTab(tab.dataset.historyTab ?? 'history'));
+});
+
+[historySearchInput, historyFileFilter, historyStatusFilter].forEach((control) => {
+  control?.addEventListener('input', () => renderQueryHistory());
+});
+
+if (clearHistoryButton) {
+  clearHistoryButton.addEventListener('click', () => {
+    vscode.postMessage({ command: 'clearHistory' });
+  });
+}
+
+if (saveQueryButton) {
+  saveQueryButton.addEventListener('click', () => {
+    vscode.postMessage({ command: 'saveQuery', sql: sqlInput.value.trim() });
+  });
+}
+
 renderQueryHistory();
 updateResetButtonState();
 
+if (addSessionFileButton) {
+  addSessionFileButton.addEventListener('click', () => {
+    vscode.postMessage({ command: 'pickSessionFiles' });
+  });
+}
+
+// Compare dialog: two relations of the session and the columns their rows are matched on
+compareButton?.addEventListener('click', () => openCompareDialog());
+
+fileInfoSelect?.addEventListener('change', () => {
+  refreshFileInfo().catch(reportError);
+});
+
+[compareLeftSelect, compareRightSelect].forEach((select) => {
+  select?.addEventListener('change', () => {
+    refreshCompareKeys().catch(reportError);
+  });
+});
+
+compareDialogCancel?.addEventListener('click', () => {
+  compareDialog?.classList.remove('visible');
+});
+
+compareConfirmButton?.addEventListener('click', () => {
+  runComparison().catch(reportError);
+});
+
 // File discovery toggle
+if (schemaPanelHeader) {
+  schemaPanelHeader.addEventListener('click', () => {
+    schemaPanel?.classList.toggle('collapsed');
+  });
+}
+
+if (csvOptionsHeader) {
+  csvOptionsHeader.addEventListener('click', () => {
+    csvOptionsPanel?.classList.toggle('collapsed');
+  });
+}
+
 if (fileDiscoveryHeader) {
   fileDiscoveryHeader.addEventListener('click', () => {
     const isExpanded = fileListContainer?.classList.contains('expanded');
@@ -250,10 +662,12 @@ async function bootstrapDuckDB(bundles: duckdb.DuckDBBundles) {
 
     updateStatus('Connecting to DuckDB...');
     connection = await db.connect();
+    countConnection = await db.connect();
 
     updateStatus('Installing extensions...');
     await connection.query("INSTALL parquet; LOAD parquet;");
     await connection.query("INSTALL sqlite; LOAD sqlite;");
+    loadFunctionCompletions().catch((error) => console.warn('[Webview] Could not list DuckDB functions', error));
 
     updateStatus('DuckDB ready. Waiting for file data…');
     vscode.postMessage({ command: 'duckdb-ready' });
@@ -263,353 +677,1447 @@ async function bootstrapDuckDB(bundles: duckdb.DuckDBBundles) {
   }
 }
 
-async function handleFileLoad(fileName: string, fileData: any) {
+// Offers DuckDB's scalar, aggregate and table functions as completions in the SQL editor.
+async function loadFunctionCompletions() {
+  if (!countConnection) {
+    return;
+  }
+  const result = await countConnection.query(
+    "SELECT DISTINCT function_name FROM duckdb_functions() WHERE regexp_full_match(function_name, '[a-z_][a-z0-9_]*') ORDER BY 1"
+  );
+  sqlInput.setFunctions(result.toArray().map((row: any) => String(row.function_name)));
+}
+
+// `query` is run instead of the default preview, e.g. when opening a saved query.
+async function handleFileLoad(fileName: string, fileData: any, source: FileSource, query?: string) {
+  const loadResult = await loadIntoSession(fileName, fileData, false, source);
+
+  loadedRelations = loadResult.relations?.length ? loadResult.relations : [loadResult];
+  renderRelationPicker();
+
+  if (controls) {
+    controls.style.display = 'flex';
+  }
+  if (resultsContainer) {
+    resultsContainer.style.display = 'block';
+  }
+
+  await openRelation(loadedRelations[0]);
+  if (query) {
+    sqlInput.value = query;
+    await runQueryWithUiFeedback(query);
+  }
+}
+
+async function openRelation(relation: LoadedRelation) {
+  const entry = sessionEntries.find((candidate) => candidate.relations.some((entryRelation) => entryRelation.relationIdentifier === relation.relationIdentifier));
+  const preview = Boolean(entry?.preview);
+  const defaultQuery = buildDefaultQuery(relation.columns, relation.relationIdentifier, preview ? PREVIEW_ROW_LIMIT : undefined);
+  if (previewNotice) {
+    previewNotice.textContent = entry && preview
+      ? `${entry.fileName} is large, so it opened in preview mode: the default query reads the first ${PREVIEW_ROW_LIMIT.toLocaleString()} rows. Remove the LIMIT to query the whole file.`
+      : '';
+    previewNotice.classList.toggle('hidden', !preview);
+  }
+  sqlInput.value = defaultQuery;
+  sqlInput.setPlaceholder(`Example: ${defaultQuery}`);
+  defaultQueryText = defaultQuery;
+  activeRelationIdentifier = relation.relationIdentifier;
+  updateResetButtonState();
+  refreshActiveRelation();
+
+  await runQueryWithUiFeedback(defaultQuery);
+}
+
+// Databases expose several relations; list them so the user can pick one.
+function renderRelationPicker() {
+  if (!relationPicker || !relationList) {
+    return;
+  }
+  const isCatalog = loadedRelations.some((relation) => relation.schemaName !== undefined);
+  if (loadedRelations.length <= 1 && !isCatalog) {
+    relationPicker.classList.add('hidden');
+    relationList.innerHTML = '';
+    return;
+  }
+
+  relationPicker.classList.remove('hidden');
+  if (relationPickerTitle) {
+    relationPickerTitle.textContent = isCatalog ? 'Catalog' : 'Tables';
+  }
+  if (relationCount) {
+    relationCount.textContent = `(${loadedRelations.length})`;
+  }
+
+  // Database catalogs report a schema per relation; group the list by it.
+  let currentSchema: string | undefined;
+  relationList.innerHTML = loadedRelations
+    .map((relation, index) => {
+      const schemaSummary = relation.schema.map((column) => `${column.name} ${column.type}`).join('\n');
+      const columnLabel = `${relation.columns.length} column${relation.columns.length === 1 ? '' : 's'}`;
+      let groupHeading = '';
+      if (relation.schemaName !== undefined && relation.schemaName !== currentSchema) {
+        currentSchema = relation.schemaName;
+        groupHeading = `<div class="relation-group">${escapeHtml(relation.schemaName)}</div>`;
+      }
+      return `
+        ${groupHeading}
+        <div class="relation-item" data-relation-index="${index}" title="${escapeHtml(schemaSummary)}">
+          <span class="file-type-badge">${relation.kind ?? 'table'}</span>
+          <span class="relation-name">${escapeHtml(relation.relationName)}</span>
+          <span class="relation-meta">${columnLabel}</span>
+        </div>
+      `;
+    })
+    .join('');
+
+  relationList.querySelectorAll<HTMLElement>('.relation-item').forEach((item) => {
+    item.addEventListener('click', () => {
+      const relation = loadedRelations[Number(item.dataset.relationIndex)];
+      if (relation) {
+        openRelation(relation).catch(reportError);
+      }
+    });
+  });
+}
+
+function refreshActiveRelation() {
+  if (!relationList) {
+    return;
+  }
+  relationList.querySelectorAll<HTMLElement>('.relation-item').forEach((item) => {
+    const relation = loadedRelations[Number(item.dataset.relationIndex)];
+    item.classList.toggle('active', relation?.relationIdentifier === activeRelationIdentifier);
+  });
+}
+
+// Adds a file next to the relations already loaded so they can be joined.
+async function handleSessionAdd(fileName: string, fileData: any, source: FileSource): Promise<LoadResult> {
+  const loadResult = await loadIntoSession(fileName, fileData, true, source);
+  const names = (loadResult.relations ?? [loadResult]).map((relation) => relation.relationIdentifier);
+  updateStatus(`Added ${fileName} to the session as ${names.join(', ')}.`);
+  if (controls) {
+    controls.style.display = 'flex';
+  }
+  return loadResult;
+}
+
+// A file added to be compared with another: open the compare dialog with both.
+function offerComparison(baseFileUri: string, added: LoadResult) {
+  const base = sessionEntries.find((entry) => entry.fileUri === baseFileUri);
+  const addedRelation = (added.relations ?? [added])[0];
+  openCompareDialog(base?.relations[0]?.relationIdentifier, addedRelation?.relationIdentifier);
+}
+
+function openCompareDialog(left?: string, right?: string) {
+  const relations = sessionEntries.flatMap((entry) => entry.relations);
+  if (relations.length < 2 || !compareLeftSelect || !compareRightSelect) {
+    return;
+  }
+  const options = relations
+    .map((relation) => `<option value="${escapeHtml(relation.relationIdentifier)}">${escapeHtml(relation.relationIdentifier)}</option>`)
+    .join('');
+  compareLeftSelect.innerHTML = options;
+  compareRightSelect.innerHTML = options;
+  compareLeftSelect.value = left ?? relations[0].relationIdentifier;
+  compareRightSelect.value = right
+    ?? relations.find((relation) => relation.relationIdentifier !== compareLeftSelect.value)?.relationIdentifier
+    ?? '';
+  compareDialog?.classList.add('visible');
+  refreshCompareKeys().catch(reportError);
+}
+
+function findSessionRelation(relationIdentifier: string | undefined): LoadedRelation | undefined {
+  return sessionEntries
+    .flatMap((entry) => entry.relations)
+    .find((relation) => relation.relationIdentifier === relationIdentifier);
+}
+
+// Lists the columns both relations have and suggests a key: one without NULLs or
+// duplicates on either side, preferably named like an id.
+async function refreshCompareKeys() {
+  const left = findSessionRelation(compareLeftSelect?.value);
+  const right = findSessionRelation(compareRightSelect?.value);
+  if (!left || !right || !compareKeysContainer || !compareKeyNote) {
+    return;
+  }
+  const sequence = ++compareKeySequence;
+  const columns = commonColumns(left.schema, right.schema);
+  const onChange = (keyColumns: string[]) => {
+    compareKeyColumns = keyColumns;
+    updateCompareKeyNote(false);
+  };
+  compareKeyColumns = [];
+  renderKeyColumnChoices(compareKeysContainer, columns.map((name) => ({ name, unique: false })), [], onChange);
+  if (compareConfirmButton) {
+    compareConfirmButton.disabled = columns.length === 0 || left === right;
+  }
+  if (left === right) {
+    compareKeyNote.textContent = 'Pick two different relations.';
+    return;
+  }
+  if (columns.length === 0) {
+    compareKeyNote.textContent = 'These relations have no column in common.';
+    return;
+  }
+  compareKeyNote.textContent = 'Looking for key columns…';
+
+  let unique: string[] = [];
+  const counter = countConnection;
+  if (counter) {
+    // Counting distinct values reads every row, so only so many columns are tried.
+    const candidates = columns.slice(0, 64);
+    try {
+      const counts = await runSideQuery(async () => {
+        const found: Array<Record<string, unknown>> = [];
+        for (const relation of [left, right]) {
+          const result = await queryInterruptibly(counter, buildKeyCandidatesSql(relation.relationIdentifier, candidates));
+          found.push(result.toArray()[0]?.toJSON() ?? {});
+        }
+        return found;
+      });
+      const uniqueRight = new Set(uniqueColumns(candidates, counts[1]));
+      unique = uniqueColumns(candidates, counts[0]).filter((column) => uniqueRight.has(column));
+    } catch (error) {
+      console.warn('[Webview] Could not look for key columns', error);
+    }
+  }
+  if (sequence !== compareKeySequence) {
+    return;
+  }
+  compareKeyColumns = suggestKeyColumns(unique);
+  renderKeyColumnChoices(
+    compareKeysContainer,
+    columns.map((name) => ({ name, unique: unique.includes(name) })),
+    compareKeyColumns,
+    onChange
+  );
+  updateCompareKeyNote(compareKeyColumns.length > 0);
+}
+
+function updateCompareKeyNote(suggested: boolean) {
+  if (!compareKeyNote) {
+    return;
+  }
+  if (compareKeyColumns.length === 0) {
+    compareKeyNote.textContent = 'No key: rows are matched on all their values, so a changed row shows as one removed and one added row.';
+  } else {
+    const keys = compareKeyColumns.join(', ');
+    compareKeyNote.textContent = suggested
+      ? `Rows are matched on ${keys}, which is unique and never empty in both. Change the key below if needed.`
+      : `Rows are matched on ${keys}.`;
+  }
+}
+
+// Creates the comparison as a view, counts each kind of change, then shows all differences.
+async function runComparison() {
+  const left = findSessionRelation(compareLeftSelect?.value);
+  const right = findSessionRelation(compareRightSelect?.value);
+  if (!left || !right || left === right || !connection || !countConnection) {
+    return;
+  }
+  compareDialog?.classList.remove('visible');
+  const plan: ComparisonPlan = {
+    left: left.relationIdentifier,
+    right: right.relationIdentifier,
+    leftSchema: left.schema,
+    rightSchema: right.schema,
+    keyColumns: compareKeyColumns,
+  };
+  const comparisonSql = buildComparisonSql(plan);
+  const viewName = ensureUniqueRelationName('comparison', sessionEntries.map((entry) => entry.name));
+
+  updateStatus(`Comparing ${left.relationIdentifier} with ${right.relationIdentifier}…`);
+  // Creating the view runs on the main connection, which ends any result still being paged.
+  await closeActivePager();
+  await connection.query(
+    `CREATE OR REPLACE VIEW ${formatIdentifierForSql(viewName)} AS SELECT * FROM (${comparisonSql}) WHERE ${CHANGE_COLUMN} <> 'unchanged';`
+  );
+  const counter = countConnection;
+  const countsResult = await runSideQuery(
+    () => queryInterruptibly(counter, buildComparisonCountsSql(plan, `(${comparisonSql})`))
+  );
+  const counts: Partial<Record<ChangeKind, number>> = {};
+  countsResult.toArray().forEach((row: any) => {
+    counts[row[CHANGE_COLUMN] as ChangeKind] = Number(row.row_count);
+  });
+
+  activeComparison = {
+    view: viewName,
+    leftLabel: left.relationIdentifier,
+    rightLabel: right.relationIdentifier,
+    keyColumns: plan.keyColumns,
+    counts,
+    schemaDifferences: compareSchemas(left.schema, right.schema),
+    orderColumns: plan.keyColumns.length > 0 ? plan.keyColumns : commonColumns(left.schema, right.schema),
+  };
+  renderComparison();
+  await showComparisonRows(null);
+}
+
+function renderComparison() {
+  if (!compareSummary) {
+    return;
+  }
+  compareSummary.classList.toggle('hidden', !activeComparison);
+  if (!activeComparison) {
+    compareSummary.replaceChildren();
+    return;
+  }
+  renderComparisonSummary(
+    compareSummary,
+    activeComparison,
+    (kind) => {
+      showComparisonRows(kind).catch(reportError);
+    },
+    () => {
+      activeComparison = null;
+      renderComparison();
+      if (lastArrowResult) {
+        resultGrid?.setRows(lastArrowResult, false);
+      }
+    }
+  );
+}
+
+// Puts the query for one kind of change (or all of them) in the editor and runs it.
+async function showComparisonRows(kind: ChangeKind | null) {
+  if (!activeComparison) {
+    return;
+  }
+  const where = kind ? `\nWHERE ${CHANGE_COLUMN} = '${kind}'` : '';
+  const order = [...activeComparison.orderColumns.map(formatIdentifierForSql), CHANGE_COLUMN].join(', ');
+  const sql = `SELECT *\nFROM ${formatIdentifierForSql(activeComparison.view)}${where}\nORDER BY ${order};`;
+  sqlInput.value = sql;
+  // Errors are located in the trimmed SQL, which starts after the leading whitespace.
+  await runQueryWithUiFeedback(sql, sql.length - sql.trimStart().length);
+}
+
+// Colours added and removed rows of a comparison result, and marks changed cells
+// with their previous value.
+function decorateComparisonCell(cell: HTMLElement, rowIndex: number, columnIndex: number) {
+  if (!activeComparison || !resultGrid) {
+    return;
+  }
+  const names = resultGrid.columnNames;
+  const changeIndex = names.indexOf(CHANGE_COLUMN);
+  const beforeIndex = names.indexOf(BEFORE_COLUMN);
+  if (changeIndex < 0 || beforeIndex < 0) {
+    return;
+  }
+  const change = resultGrid.getValue(rowIndex, changeIndex);
+  if (change === 'added' || change === 'removed') {
+    cell.classList.add(`diff-${change}`);
+    return;
+  }
+  if (change !== 'changed') {
+    return;
+  }
+  const before = resultGrid.getValue(rowIndex, beforeIndex)?.toJSON?.() as Record<string, string | null> | undefined;
+  const name = names[columnIndex];
+  if (before && Object.prototype.hasOwnProperty.call(before, name)) {
+    cell.classList.add('diff-changed-cell');
+    cell.title = `Before: ${before[name] ?? 'NULL'}`;
+  }
+}
+
+async function loadIntoSession(
+  fileName: string,
+  fileData: any,
+  keepExisting: boolean,
+  source: FileSource
+): Promise<LoadResult> {
   if (!db || !connection) {
     throw new Error('DuckDB is not initialized.');
   }
 
-  const fileBytes = extractFileBytes(fileData);
-  if (fileBytes.length === 0) {
+  // A streamed file's head is enough to tell its format; DuckDB reads the rest as needed.
+  const fileUrl = source.fileUrl;
+  const fileBytes = extractFileBytes(fileUrl ? source.fileHead : fileData);
+  const fileSize = source.fileSize ?? fileBytes.length;
+  if (fileSize === 0) {
     throw new Error('File is empty (0 bytes).');
   }
 
-  const loader = selectLoader(fileName);
+  // Loaders query the main connection, which ends any result still being paged.
+  await closeActivePager();
+
+  // Opening a file replaces a relation of the same name; adding one never does.
+  const derivedName = deriveRelationName(fileName);
+  const relationName = keepExisting
+    ? ensureUniqueRelationName(derivedName, sessionEntries.map((entry) => entry.name))
+    : derivedName;
+  const detection = await detectFormat(DATA_LOADERS, fileName, fileBytes);
+  const loader = detection.loader ?? await chooseLoader(fileName, detection.candidates);
+  const sourceName = withCompressionSuffix(fileName, detection.compression);
+  const registeredName = keepExisting && sessionEntries.some((entry) => entry.registeredName === sourceName)
+    ? `${relationName}/${sourceName}`
+    : sourceName;
+
   updateStatus(`Preparing ${loader.id.toUpperCase()} data for ${fileName}…`);
-  const loadResult = await loader.load(fileName, fileBytes, {
+  const context = createLoaderContext(fileName, fileBytes, fileUrl, relationName);
+  let csvOptions = source.csvOptions;
+  let loadResult: LoadResult;
+  try {
+    loadResult = await loader.load(registeredName, fileBytes, { ...context, csvOptions });
+  } catch (error) {
+    if (!csvOptions) {
+      throw error;
+    }
+    // Remembered import options may no longer fit the file; fall back to the defaults.
+    console.warn(`[Webview] Could not read ${fileName} with its saved import options`, error);
+    csvOptions = undefined;
+    loadResult = await loader.load(registeredName, fileBytes, context);
+  }
+
+  sessionEntries = [
+    ...sessionEntries.filter((entry) => entry.name.toLowerCase() !== relationName.toLowerCase()),
+    {
+      name: relationName,
+      fileName,
+      registeredName,
+      loaderId: loader.id,
+      relations: loadResult.relations?.length ? loadResult.relations : [loadResult],
+      fileUri: source.fileUri,
+      csvOptions,
+      preview: previewThresholdBytes > 0 && fileSize >= previewThresholdBytes,
+    },
+  ];
+  renderSessionPanel();
+  renderSchemaPanel();
+  if (loader.id === csvLoader.id) {
+    csvOptionsEntryName = relationName;
+    csvOptionsPanel?.classList.remove('collapsed');
+  }
+  renderCsvOptionsPanel().catch(reportError);
+  autoReloadToggle?.classList.toggle('hidden', !sessionEntries.some((entry) => entry.fileUri));
+
+  return loadResult;
+}
+
+// SQL sent from a .sql editor. The files it reads by path are registered under those
+// paths first, so read_parquet('data/x.parquet') finds them; the host only sends files
+// that are new or changed since the last run.
+async function runSqlFromEditor(sql: string, files: Array<FileSource & { name: string; fileData?: any }>) {
+  if (!db) {
+    throw new Error('DuckDB is not initialized.');
+  }
+  const database = db;
+  // A name the session already uses belongs to a loaded file, which the SQL then reads.
+  const newFiles = files.filter((file) => !sessionEntries.some((entry) => entry.registeredName === file.name));
+  if (newFiles.length > 0) {
+    await closeActivePager();
+    for (const file of newFiles) {
+      await database.dropFile(file.name).catch(() => undefined);
+      if (file.fileUrl) {
+        await database.registerFileURL(file.name, file.fileUrl, duckdb.DuckDBDataProtocol.HTTP, false);
+      } else {
+        await database.registerFileBuffer(file.name, extractFileBytes(file.fileData));
+      }
+    }
+  }
+  sqlInput.value = sql;
+  // Errors are located in the trimmed SQL, which starts after the leading whitespace.
+  await runQueryWithUiFeedback(sql, sql.length - sql.trimStart().length);
+}
+
+// Streamed files are registered by URL; the others from the bytes the host sent.
+function createLoaderContext(fileName: string, fileBytes: Uint8Array, fileUrl: string | undefined, relationName: string) {
+  if (!db || !connection) {
+    throw new Error('DuckDB is not initialized.');
+  }
+  const database = db;
+  return {
     db,
     connection,
     updateStatus,
+    relationName,
+    registerFile: (name: string) => (fileUrl
+      ? database.registerFileURL(name, fileUrl, duckdb.DuckDBDataProtocol.HTTP, false)
+      : database.registerFileBuffer(name, fileBytes)),
+    readFile: async () => (fileUrl ? fetchFileBytes(fileName, fileUrl) : fileBytes),
+  };
+}
+
+// Loads the new contents of a file that changed on disk into every session entry read
+// from it, keeping relation names and import options, then re-runs what is on screen.
+async function handleFileReload(fileName: string, fileData: any, source: FileSource) {
+  const entries = sessionEntries.filter((entry) => entry.fileUri && entry.fileUri === source.fileUri);
+  if (entries.length === 0 || !db) {
+    return;
+  }
+  const fileUrl = source.fileUrl;
+  const fileBytes = extractFileBytes(fileUrl ? source.fileHead : fileData);
+  await closeActivePager();
+
+  for (const entry of entries) {
+    const loader = DATA_LOADERS.find((candidate) => candidate.id === entry.loaderId);
+    if (!loader) {
+      continue;
+    }
+    reloadGeneration += 1;
+    const registeredName = `reload-${reloadGeneration}/${entry.registeredName.replace(/^reload-\d+\//, '')}`;
+    const context = createLoaderContext(fileName, fileBytes, fileUrl, entry.name);
+    let loadResult: LoadResult;
+    try {
+      loadResult = await loader.load(registeredName, fileBytes, { ...context, csvOptions: entry.csvOptions });
+    } catch (error) {
+      // A file caught halfway through being written may not parse; the next change reloads it.
+      await db.dropFile(registeredName).catch(() => undefined);
+      showReloadIndicator(`Could not reload ${fileName}: ${error instanceof Error ? error.message : String(error)}`, true);
+      if (statusWrapper) {
+        statusWrapper.style.display = 'none';
+      }
+      return;
+    }
+    await db.dropFile(entry.registeredName).catch(() => undefined);
+
+    const relations = loadResult.relations?.length ? loadResult.relations : [loadResult];
+    sessionEntries = sessionEntries.map((candidate) => (
+      candidate === entry ? { ...entry, registeredName, relations } : candidate
+    ));
+    loadedRelations = loadedRelations.map((relation) => (
+      relations.find((candidate) => candidate.relationIdentifier === relation.relationIdentifier) ?? relation
+    ));
+  }
+  renderSessionPanel();
+  renderSchemaPanel();
+  renderRelationPicker();
+  refreshActiveRelation();
+  renderCsvOptionsPanel().catch(reportError);
+  if (statusWrapper) {
+    statusWrapper.style.display = 'none';
+  }
+
+  await rerunAfterReload();
+  showReloadIndicator(`Reloaded ${fileName} at ${formatClockTime(new Date())}`, false);
+}
+
+// Runs the query on screen again, keeping the grid's filters, sort and scroll position
+// unless the reloaded data came back with other columns.
+async function rerunAfterReload() {
+  if (!baseQuerySql) {
+    return;
+  }
+  if (resultGrid && await applyTableState(true)) {
+    if (activePager && activePager.sql !== baseQuerySql && countConnection) {
+      // The unfiltered total changed along with the file.
+      const baseSql = baseQuerySql;
+      baseTotalRows = null;
+      const counter = countConnection;
+      runSideQuery(() => countResultRows(counter, baseSql))
+        .then((total) => {
+          if (baseQuerySql === baseSql) {
+            baseTotalRows = total;
+            updateRowCount();
+          }
+        })
+        .catch(() => undefined);
+    }
+    return;
+  }
+  await runQueryWithUiFeedback(baseQuerySql);
+}
+
+function showReloadIndicator(text: string, pending: boolean) {
+  if (!reloadIndicator) {
+    return;
+  }
+  reloadIndicator.textContent = text;
+  reloadIndicator.classList.toggle('pending', pending);
+  reloadIndicator.classList.remove('hidden');
+}
+
+function formatClockTime(date: Date): string {
+  return [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+}
+
+function renderSessionPanel() {
+  if (!sessionPanel || !sessionList) {
+    return;
+  }
+  sessionPanel.classList.toggle('hidden', sessionEntries.length === 0);
+  const relationTotal = sessionEntries.reduce((total, entry) => total + entry.relations.length, 0);
+  if (sessionCount) {
+    sessionCount.textContent = `(${relationTotal})`;
+  }
+  compareButton?.classList.toggle('hidden', relationTotal < 2);
+  renderFileInfoChoices();
+
+  sessionList.innerHTML = sessionEntries
+    .flatMap((entry) => entry.relations.map((relation) => {
+      const schemaLine = relation.schema.map((column) => `${column.name} ${column.type}`).join(', ');
+      return `
+        <div class="session-item" data-relation="${escapeHtml(relation.relationIdentifier)}" title="Insert ${escapeHtml(relation.relationIdentifier)} into the SQL editor">
+          <div class="session-item-heading">
+            <span class="file-type-badge">${entry.loaderId}</span>
+            <span class="session-relation">${escapeHtml(relation.relationIdentifier)}</span>
+            <span class="relation-meta">${escapeHtml(entry.fileName)}</span>
+          </div>
+          <div class="session-schema">${escapeHtml(schemaLine)}</div>
+        </div>
+      `;
+    }))
+    .join('');
+
+  sessionList.querySelectorAll<HTMLElement>('.session-item').forEach((item) => {
+    item.addEventListener('click', () => {
+      const relationIdentifier = item.dataset.relation;
+      if (relationIdentifier) {
+        insertIntoSqlInput(relationIdentifier);
+      }
+    });
   });
+}
 
-  const defaultQuery = buildDefaultQuery(loadResult.columns, loadResult.relationIdentifier);
-  sqlInput.value = defaultQuery;
-  sqlInput.placeholder = `Example: ${defaultQuery}`;
-  defaultQueryText = defaultQuery;
-  updateResetButtonState();
+function renderSchemaPanel() {
+  const relations = sessionEntries.flatMap((entry) => entry.relations);
+  sqlInput.setRelations(relations);
+  if (!schemaPanel || !schemaTree) {
+    return;
+  }
+  schemaPanel.classList.toggle('hidden', relations.length === 0);
+  if (schemaCount) {
+    schemaCount.textContent = `(${relations.length})`;
+  }
+  renderSchemaTree(schemaTree, relations, insertIntoSqlInput);
+}
 
-  if (controls) {
-    controls.style.display = 'flex';
+async function renderCsvOptionsPanel() {
+  const entry = sessionEntries.find((candidate) => candidate.name === csvOptionsEntryName);
+  csvOptionsPanel?.classList.toggle('hidden', !entry);
+  if (!entry || !csvOptionsBody || !countConnection) {
+    return;
   }
-  if (resultsContainer) {
-    resultsContainer.style.display = 'block';
+  if (csvOptionsFile) {
+    csvOptionsFile.textContent = entry.fileName;
+  }
+  const options = entry.csvOptions ?? {};
+  // The sniffer reads the file on the side connection so a streaming result is left alone.
+  const detected = await sniffCsv(countConnection, entry.registeredName, options).catch(() => null);
+  renderCsvOptionsForm(csvOptionsBody, options, detected, entry.relations[0]?.schema ?? [], (next) => {
+    applyCsvOptions(entry.name, next).catch(reportError);
+  });
+}
+
+// Recreates the CSV view with new options and re-runs what was on screen.
+async function applyCsvOptions(entryName: string, options: CsvImportOptions) {
+  const entry = sessionEntries.find((candidate) => candidate.name === entryName);
+  if (!entry || !connection) {
+    return;
+  }
+  if (csvOptionsError) {
+    csvOptionsError.textContent = '';
+  }
+  await closeActivePager();
+  let relation: LoadedRelation;
+  try {
+    relation = await createCsvView(connection, entry.registeredName, entry.name, options, updateStatus);
+  } catch (error) {
+    // The previous view is still in place; keep showing it.
+    if (csvOptionsError) {
+      csvOptionsError.textContent = error instanceof Error ? error.message : String(error);
+    }
+    updateStatus(`Could not read ${entry.fileName} with these options.`);
+    return;
+  }
+
+  sessionEntries = sessionEntries.map((candidate) => (
+    candidate === entry ? { ...entry, relations: [relation], csvOptions: options } : candidate
+  ));
+  if (entry.fileUri) {
+    vscode.postMessage({ command: 'saveCsvOptions', fileUri: entry.fileUri, options });
+  }
+  loadedRelations = loadedRelations.map((candidate) => (
+    candidate.relationIdentifier === relation.relationIdentifier ? relation : candidate
+  ));
+  renderSessionPanel();
+  renderSchemaPanel();
+  renderRelationPicker();
+  await renderCsvOptionsPanel();
+
+  // The default preview follows the new columns; a query the user wrote is re-run as is.
+  const editedQuery = sqlInput.value.trim() !== (defaultQueryText ?? '').trim();
+  if (activeRelationIdentifier === relation.relationIdentifier && !editedQuery) {
+    await openRelation(relation);
+  } else if (baseQuerySql) {
+    await runQueryWithUiFeedback(baseQuerySql);
+  }
+}
+
+function insertIntoSqlInput(text: string) {
+  sqlInput.insertText(text);
+}
+
+function applySettings(settings: ViewerSettings | undefined) {
+  if (settings?.pageSize && settings.pageSize > 0) {
+    pageSize = Math.floor(settings.pageSize);
+  }
+  if (typeof settings?.queryTimeoutSeconds === 'number' && settings.queryTimeoutSeconds >= 0) {
+    queryTimeoutMs = settings.queryTimeoutSeconds * 1000;
+  }
+  if (typeof settings?.previewThresholdMB === 'number' && settings.previewThresholdMB >= 0) {
+    previewThresholdBytes = settings.previewThresholdMB * 1024 * 1024;
+  }
+}
+
+// Reports how far a scan of a streamed file got: in the status bar while a query
+// runs, next to the row count while it is being counted.
+function showFileProgress(fileName: string, position: number, size: number) {
+  const percent = size > 0 ? Math.min(100, Math.floor((position / size) * 100)) : 100;
+  if (queryRunning) {
+    updateStatus(`Reading ${fileName}… ${percent}% (${formatByteSize(position)} of ${formatByteSize(size)})`);
+  } else if (countingRows) {
+    countProgress = `${percent}%`;
+    updateRowCount();
+  }
+}
+
+// The whole of a streamed file, for loaders that cannot read it in parts.
+async function fetchFileBytes(fileName: string, fileUrl: string): Promise<Uint8Array> {
+  updateStatus(`Reading ${fileName}…`);
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to read ${fileName}: ${response.status} ${response.statusText}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Asks which format to read a file as when neither its content nor its name says.
+function chooseLoader(fileName: string, candidates: DataLoader[]): Promise<DataLoader> {
+  return new Promise((resolve, reject) => {
+    if (!formatChooser || !formatChooserList) {
+      reject(new Error(`Could not tell the format of ${fileName}.`));
+      return;
+    }
+    if (formatChooserTitle) {
+      formatChooserTitle.textContent = `Open ${fileName} as…`;
+    }
+    formatChooserList.innerHTML = '';
+    const close = () => {
+      formatChooser.classList.remove('visible');
+      formatChooserCancel?.removeEventListener('click', cancel);
+    };
+    const cancel = () => {
+      close();
+      reject(new Error(`Opening ${fileName} was cancelled.`));
+    };
+    candidates.forEach((loader) => {
+      const button = document.createElement('button');
+      button.className = 'secondary format-choice';
+      button.textContent = FORMAT_LABELS[loader.id] ?? loader.id.toUpperCase();
+      button.addEventListener('click', () => {
+        close();
+        resolve(loader);
+      });
+      formatChooserList.appendChild(button);
+    });
+    formatChooserCancel?.addEventListener('click', cancel);
+    formatChooser.classList.add('visible');
+    updateStatus(`Could not tell the format of ${fileName}. Choose how to open it.`);
+  });
+}
+
+function extractFileBytes(fileData: any): Uint8Array {
+  if (fileData instanceof Uint8Array) {
+    return fileData;
+  }
+  if (fileData?.data instanceof ArrayBuffer) {
+    return new Uint8Array(fileData.data);
+  }
+  if (Array.isArray(fileData?.data)) {
+    return new Uint8Array(fileData.data);
+  }
+  if (fileData instanceof ArrayBuffer) {
+    return new Uint8Array(fileData);
+  }
+  if (fileData?.buffer instanceof ArrayBuffer) {
+    return new Uint8Array(fileData.buffer);
+  }
+  throw new Error('Unable to read file bytes from message.');
+}
+
+async function runQuery(sql: string) {
+  if (!connection) {
+    throw new Error('No database connection.');
+  }
+
+  const normalizedSql = sql.trim();
+  if (!normalizedSql) {
+    showSqlError('Enter a SQL query to run.');
+    return;
+  }
+
+  const start = performance.now();
+  const entryBase: QueryHistoryEntry = {
+    id: crypto.randomUUID(),
+    sql: normalizedSql,
+    timestamp: Date.now(),
+    durationMs: 0,
+    rowCount: 0,
+    status: 'success',
+  };
+
+  setQueryRunning(true);
+  try {
+    const pager = await runInterruptible(() => fetchFirstPage(normalizedSql));
+    baseQuerySql = normalizedSql;
+    baseTotalRows = pager.totalRows;
+    renderResults(pager.rowCount > 0 ? pagerTable(pager) : null);
+
+    // An interruption while paging keeps the rows fetched so far.
+    const interruption = cancelReason ? new QueryInterruptedError(cancelReason, queryTimeoutMs) : null;
+    if (interruption) {
+      updateStatus(`${interruption.message} Showing the rows fetched so far.`);
+    } else if (statusWrapper) {
+      statusWrapper.style.display = 'none';
+    }
+    currentHistoryEntry = {
+      ...entryBase,
+      durationMs: performance.now() - start,
+      rowCount: pager.rowCount,
+      status: interruption?.status ?? 'success',
+      error: interruption?.message,
+    };
+    recordQueryHistory(currentHistoryEntry);
+    refreshTotalRowCount(pager);
+    refreshProfile().catch(reportError);
+    refreshChart().catch(reportError);
+  } catch (e) {
+    recordQueryHistory({
+      ...entryBase,
+      durationMs: performance.now() - start,
+      status: e instanceof QueryInterruptedError ? e.status : 'error',
+      error: e instanceof Error ? e.message : String(e),
+    });
+    throw e;
+  } finally {
+    setQueryRunning(false);
+  }
+}
+
+// Streams a query on the main connection, replacing the previous result stream.
+async function fetchFirstPage(sql: string): Promise<ResultPager> {
+  if (!connection) {
+    throw new Error('No database connection.');
+  }
+  await closeActivePager();
+  const pager = await openResultPager(connection, sql);
+  activePager = pager;
+  await fetchNextPage(pager, pageSize, () => cancelReason !== null);
+  return pager;
+}
+
+// Runs a statement under the configured timeout; the timeout and the Cancel button
+// both interrupt it through the connection, which stays usable afterwards.
+async function runInterruptible<T>(task: () => Promise<T>): Promise<T> {
+  cancelReason = null;
+  const timeoutHandle = queryTimeoutMs > 0
+    ? window.setTimeout(() => {
+      requestCancel('timeout').catch(reportError);
+    }, queryTimeoutMs)
+    : null;
+  try {
+    return await task();
+  } catch (error) {
+    if (cancelReason) {
+      throw new QueryInterruptedError(cancelReason, queryTimeoutMs);
+    }
+    throw error;
+  } finally {
+    if (timeoutHandle !== null) {
+      window.clearTimeout(timeoutHandle);
+    }
+  }
+}
+
+async function closeActivePager() {
+  if (activePager) {
+    await closeResultPager(activePager);
+    updateRowCount();
+  }
+}
+
+async function loadMoreRows() {
+  const pager = activePager;
+  if (!pager?.reader || !resultGrid || queryRunning) {
+    return;
+  }
+  setQueryRunning(true);
+  try {
+    await runInterruptible(() => fetchNextPage(pager, pageSize, () => cancelReason !== null));
+    if (pager !== activePager) {
+      return;
+    }
+    lastArrowResult = pagerTable(pager);
+    resultGrid.setRows(lastArrowResult, false);
+    updateRowCount();
+  } catch (error) {
+    showSqlError(error);
+  } finally {
+    setQueryRunning(false);
+  }
+}
+
+async function requestCancel(reason: CancelReason) {
+  if (reason === 'user') {
+    await cancelSideQueries('user');
+  }
+  if (!connection || !queryRunning || cancelReason) {
+    return;
+  }
+  cancelReason = reason;
+  updateStatus(reason === 'timeout' ? 'Query timed out. Cancelling…' : 'Cancelling query…');
+  // Interrupts a statement that is still executing; a stream being paged stops at the next batch.
+  await connection.cancelSent().catch(() => false);
+}
+
+// Runs a background query under the same timeout as the main query; Cancel stops it too.
+async function runSideQuery<T>(task: () => Promise<T>): Promise<T> {
+  sideQueries++;
+  updateCancelButton();
+  const timeoutHandle = queryTimeoutMs > 0
+    ? window.setTimeout(() => {
+      cancelSideQueries('timeout').catch(reportError);
+    }, queryTimeoutMs)
+    : null;
+  try {
+    const result = await task();
+    throwIfSideQueryCancelled();
+    return result;
+  } catch (error) {
+    throwIfSideQueryCancelled();
+    throw error;
+  } finally {
+    if (timeoutHandle !== null) {
+      window.clearTimeout(timeoutHandle);
+    }
+    sideQueries--;
+    if (sideQueries === 0) {
+      sideCancelReason = null;
+    }
+    updateCancelButton();
+  }
+}
+
+function throwIfSideQueryCancelled() {
+  if (sideCancelReason) {
+    throw new QueryInterruptedError(sideCancelReason, queryTimeoutMs);
+  }
+}
+
+// Stops every background query: they share one connection, so one statement is interrupted
+// and the rest see the reason before they start their next one.
+async function cancelSideQueries(reason: CancelReason) {
+  if (!countConnection || sideQueries === 0 || sideCancelReason) {
+    return;
+  }
+  sideCancelReason = reason;
+  await countConnection.cancelSent().catch(() => false);
+}
+
+// Counts the whole result in the background when the first page did not exhaust it.
+function refreshTotalRowCount(pager: ResultPager) {
+  if (pager.totalRows !== null || !countConnection) {
+    updateRowCount();
+    return;
   }
+  countingRows = true;
+  countProgress = null;
+  updateRowCount();
+  const counter = countConnection;
+  runSideQuery(() => countResultRows(counter, pager.sql))
+    .then((total) => {
+      pager.totalRows = pager.totalRows ?? total;
+      if (pager.sql === baseQuerySql) {
+        baseTotalRows = pager.totalRows;
+      }
+    })
+    .catch(() => undefined)
+    .finally(() => {
+      if (pager === activePager) {
+        countingRows = false;
+        countProgress = null;
+        updateRowCount();
+      }
+    });
+}
 
-  await runQueryWithUiFeedback(defaultQuery);
+function showResultsView(view: ResultsView) {
+  resultsView = view;
+  resultsTabs.forEach((tab) => tab.classList.toggle('active', tab.dataset.resultsView === view));
+  resultsContainer?.classList.toggle('hidden', view !== 'grid');
+  profileContainer?.classList.toggle('hidden', view !== 'profile');
+  chartPanel?.classList.toggle('hidden', view !== 'chart');
+  fileInfoPanel?.classList.toggle('hidden', view !== 'fileInfo');
+  refreshProfile().catch(reportError);
+  refreshChart().catch(reportError);
+  refreshFileInfo().catch(reportError);
 }
 
-function selectLoader(fileName: string): DataLoader {
-  return DATA_LOADERS.find((loader) => loader.canLoad(fileName)) ?? csvLoader;
+// The File info tab is offered while the session has a Parquet file, with a picker when it has several.
+function renderFileInfoChoices() {
+  const entries = sessionEntries.filter((entry) => entry.loaderId === parquetLoader.id);
+  fileInfoTab?.classList.toggle('hidden', entries.length === 0);
+  if (entries.length === 0 && resultsView === 'fileInfo') {
+    showResultsView('grid');
+    return;
+  }
+  if (fileInfoSelect) {
+    const selected = fileInfoSelect.value;
+    fileInfoSelect.innerHTML = entries
+      .map((entry) => `<option value="${escapeHtml(entry.name)}">${escapeHtml(entry.fileName)}</option>`)
+      .join('');
+    if (entries.some((entry) => entry.name === selected)) {
+      fileInfoSelect.value = selected;
+    }
+    fileInfoSelect.closest('label')?.classList.toggle('hidden', entries.length < 2);
+  }
+  refreshFileInfo().catch(reportError);
 }
 
-function extractFileBytes(fileData: any): Uint8Array {
-  if (fileData instanceof Uint8Array) {
-    return fileData;
+// Shows the row groups, column chunks, schema and key/value metadata of the picked Parquet file.
+async function refreshFileInfo() {
+  if (resultsView !== 'fileInfo' || !fileInfoBody || !countConnection) {
+    return;
   }
-  if (fileData?.data instanceof ArrayBuffer) {
-    return new Uint8Array(fileData.data);
+  const entry = sessionEntries.find((candidate) => candidate.name === fileInfoSelect?.value)
+    ?? sessionEntries.find((candidate) => candidate.loaderId === parquetLoader.id);
+  if (!entry) {
+    fileInfoBody.innerHTML = '<div class="empty-state">Load a Parquet file to see its layout.</div>';
+    return;
   }
-  if (Array.isArray(fileData?.data)) {
-    return new Uint8Array(fileData.data);
+  const { registeredName } = entry;
+  if (fileInfoBody.dataset.file === registeredName) {
+    return;
   }
-  if (fileData instanceof ArrayBuffer) {
-    return new Uint8Array(fileData);
+  fileInfoBody.dataset.file = registeredName;
+  let info = parquetFileInfo.get(registeredName);
+  if (!info) {
+    info = readParquetFileInfo(countConnection, registeredName);
+    parquetFileInfo.set(registeredName, info);
   }
-  if (fileData?.buffer instanceof ArrayBuffer) {
-    return new Uint8Array(fileData.buffer);
+  fileInfoBody.innerHTML = '<div class="empty-state">Reading the file footer…</div>';
+  try {
+    const loaded = await info;
+    if (fileInfoBody.dataset.file === registeredName) {
+      renderParquetFileInfo(fileInfoBody, loaded);
+    }
+  } catch (error) {
+    parquetFileInfo.delete(registeredName);
+    if (fileInfoBody.dataset.file === registeredName) {
+      delete fileInfoBody.dataset.file;
+      const message = error instanceof Error ? error.message : String(error);
+      fileInfoBody.innerHTML = `<div class="empty-state">Could not read the Parquet metadata: ${escapeHtml(message)}</div>`;
+    }
   }
-  throw new Error('Unable to read file bytes from message.');
 }
 
-async function runQuery(sql: string) {
-  if (!connection) {
-    throw new Error('No database connection.');
+// Profiles the rows behind the grid (filters included) while the Profile view is open.
+async function refreshProfile() {
+  if (resultsView !== 'profile' || !profileContainer || !countConnection) {
+    return;
   }
-
-  const normalizedSql = sql.trim();
-  if (!normalizedSql) {
-    showSqlError('Enter a SQL query to run.');
+  const sql = activePager?.sql ?? null;
+  if (!sql) {
+    profileContainer.innerHTML = '<div class="empty-state">Run a query to profile its result.</div>';
     return;
   }
-
-  runButton.disabled = true;
-
-  const start = performance.now();
-  const entryBase: QueryHistoryEntry = {
-    id: nextHistoryId++,
-    sql: normalizedSql,
-    timestamp: Date.now(),
-    durationMs: 0,
-    rowCount: 0,
-  };
-
+  if (sql === profiledSql) {
+    return;
+  }
+  profiledSql = sql;
+  // The loader's column types are exact for the relation preview; other queries use SUMMARIZE's.
+  const relation = loadedRelations.find((candidate) => candidate.relationIdentifier === activeRelationIdentifier);
+  const schema = baseQuerySql === defaultQueryText ? relation?.schema : undefined;
+  profileContainer.innerHTML = '<div class="empty-state">Profiling columns…</div>';
   try {
-    const result = await connection.query(normalizedSql);
-    renderResults(result);
-    if (statusWrapper) {
-      statusWrapper.style.display = 'none';
+    const counter = countConnection;
+    const profiles = await runSideQuery(() => profileColumns(counter, sql, schema, (profiled, total) => {
+      if (sql === profiledSql && profiled < total) {
+        profileContainer.innerHTML = `<div class="empty-state">Profiling column ${profiled + 1} of ${total}…</div>`;
+      }
+    }, () => sideCancelReason !== null));
+    if (sql === profiledSql) {
+      renderColumnProfiles(profileContainer, profiles);
+    }
+  } catch (error) {
+    if (sql === profiledSql) {
+      profiledSql = null;
+      const message = error instanceof Error ? error.message : String(error);
+      profileContainer.innerHTML = `<div class="empty-state">Could not profile this result: ${escapeHtml(message)}</div>`;
     }
-    recordQueryHistory({
-      ...entryBase,
-      durationMs: performance.now() - start,
-      rowCount: result ? result.numRows : 0,
-    });
-  } catch (e) {
-    recordQueryHistory({
-      ...entryBase,
-      durationMs: performance.now() - start,
-      error: e instanceof Error ? e.message : String(e),
-    });
-    throw e;
-  } finally {
-    runButton.disabled = false;
   }
 }
 
-function renderResults(table: Table | null) {
-  if (!resultsContainer) {
+// Fills the chart pickers for a new result, keeping the current spec when its columns still exist.
+function populateChartControls(schema: Schema | null) {
+  if (!chartXSelect || !chartYList || !chartSeriesSelect) {
     return;
   }
+  const fields = schema?.fields ?? [];
+  const numericFields = fields.filter((field) => chartColumnKind(field.type) === 'numeric');
+  const categoricalFields = fields.filter((field) => chartColumnKind(field.type) === 'categorical');
+  chartXSelect.innerHTML = fields
+    .map((field) => `<option value="${escapeHtml(field.name)}">${escapeHtml(field.name)}</option>`)
+    .join('');
+  chartYList.innerHTML = numericFields.length > 0
+    ? numericFields
+      .map((field) => `<label><input type="checkbox" value="${escapeHtml(field.name)}" /> ${escapeHtml(field.name)}</label>`)
+      .join('')
+    : '<span>No numeric columns; bars count rows</span>';
+  chartSeriesSelect.innerHTML = '<option value="">None</option>' + categoricalFields
+    .map((field) => `<option value="${escapeHtml(field.name)}">${escapeHtml(field.name)}</option>`)
+    .join('');
 
-  if (!table || table.numRows === 0) {
-    resultsContainer.innerHTML = '<div class="empty-state">Query completed. No rows returned.</div>';
-    currentTableData = null;
-    tableBodyElement = null;
-    updateRowCount(0, 0);
-    lastArrowResult = table;
+  const names = new Set(fields.map((field) => field.name));
+  const fits = chartSpec !== null
+    && names.has(chartSpec.x)
+    && chartSpec.y.every((name) => numericFields.some((field) => field.name === name))
+    && (!chartSpec.series || names.has(chartSpec.series));
+  chartSpec = fits ? chartSpec : defaultChartSpec(schema);
+  if (!chartSpec) {
     return;
   }
+  if (chartTypeSelect) {
+    chartTypeSelect.value = chartSpec.type;
+  }
+  chartXSelect.value = chartSpec.x;
+  const selectedY = new Set(chartSpec.y);
+  chartYList.querySelectorAll<HTMLInputElement>('input[type="checkbox"]').forEach((input) => {
+    input.checked = selectedY.has(input.value);
+  });
+  chartSeriesSelect.value = chartSpec.series ?? '';
+}
 
-  lastArrowResult = table;
-  const rows: TableRow[] = [];
-  const columns = table.schema.fields.map((field) => field.name);
+// Dates plot as lines, categories as bars and numbers against numbers as scatter plots.
+function defaultChartSpec(schema: Schema | null): ChartSpec | null {
+  const fields = schema?.fields ?? [];
+  if (fields.length === 0) {
+    return null;
+  }
+  const x = fields.find((field) => chartColumnKind(field.type) === 'temporal')
+    ?? fields.find((field) => chartColumnKind(field.type) === 'categorical')
+    ?? fields[0];
+  const y = fields.find((field) => field !== x && chartColumnKind(field.type) === 'numeric');
+  const xKind = chartColumnKind(x.type);
+  const type: ChartType = xKind === 'temporal' ? 'line' : xKind === 'categorical' ? 'bar' : y ? 'scatter' : 'histogram';
+  return { type, x: x.name, y: y ? [y.name] : [] };
+}
 
-  for (let i = 0; i < table.numRows; i++) {
-    const row = table.get(i);
-    if (!row) {
-      continue;
-    }
+function readChartControls(): ChartSpec | null {
+  if (!chartTypeSelect || !chartXSelect || !chartXSelect.value) {
+    return null;
+  }
+  const y = Array.from(chartYList?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked') ?? [])
+    .map((input) => input.value);
+  return {
+    type: chartTypeSelect.value as ChartType,
+    x: chartXSelect.value,
+    y,
+    series: chartSeriesSelect?.value || undefined,
+  };
+}
+
+// Charts the rows behind the grid while the Chart view is open.
+async function refreshChart() {
+  if (resultsView !== 'chart' || !chartCanvas) {
+    return;
+  }
+  const pager = activePager;
+  const spec = chartSpec;
+  if (!pager || !lastArrowResult || !spec) {
+    chartData = null;
+    chartedKey = null;
+    setChartMessage('Run a query that returns rows to chart it.');
+    return;
+  }
+  const key = JSON.stringify([pager.sql, spec]);
+  if (key === chartedKey) {
+    drawChart();
+    return;
+  }
+  chartedKey = key;
 
-    const raw: any[] = [];
-    const display: string[] = [];
-    for (const field of table.schema.fields) {
-      const value = row[field.name];
-      raw.push(value);
-      display.push(formatCell(value));
+  const local = !pager.reader
+    && lastArrowResult.numRows <= LOCAL_CHART_ROW_LIMIT
+    && canChartLocally(lastArrowResult, spec);
+  let data: ChartData;
+  try {
+    if (local) {
+      data = buildChartData(lastArrowResult, spec);
+    } else {
+      if (!countConnection) {
+        throw new Error('DuckDB is not ready.');
+      }
+      setChartMessage('Aggregating in DuckDB…');
+      const counter = countConnection;
+      data = await runSideQuery(() => queryChartData(counter, pager.sql, pager.schema, spec));
+    }
+  } catch (error) {
+    if (key === chartedKey) {
+      chartData = null;
+      chartedKey = null;
+      setChartMessage(`Could not chart this result: ${error instanceof Error ? error.message : String(error)}`);
     }
-    rows.push({ raw, display });
+    return;
+  }
+  if (key !== chartedKey) {
+    return;
   }
 
-  currentTableData = { columns, rows };
-  columnFilters = columns.map(() => '');
-  globalFilter = '';
-  sortState = { columnIndex: -1, direction: null };
-  if (globalSearchInput) {
-    globalSearchInput.value = '';
+  chartData = data;
+  if (chartNote) {
+    const source = local
+      ? `Charted from all ${lastArrowResult.numRows.toLocaleString()} rows.`
+      : 'Aggregated in DuckDB over the full result.';
+    const detail = !data.truncated
+      ? ''
+      : spec.type === 'scatter' ? ' Showing a random sample of the rows.' : ' Showing the first X values only.';
+    chartNote.textContent = source + detail;
   }
+  drawChart();
+  saveChartWithHistory(spec);
+}
 
-  buildTableSkeleton(columns);
-  applyTableState();
+function drawChart() {
+  if (!chartCanvas || !chartData || !chartSpec || resultsView !== 'chart') {
+    return;
+  }
+  const width = chartCanvas.clientWidth;
+  const height = chartCanvas.clientHeight;
+  if (width === 0 || height === 0) {
+    return;
+  }
+  chartCanvas.replaceChildren(renderChart(chartData, chartSpec, width, height, readChartTheme()));
+}
 
-  resultsContainer.style.display = 'block';
-  resultsContainer.scrollTop = 0;
+function setChartMessage(message: string) {
+  if (chartCanvas) {
+    chartCanvas.innerHTML = `<div class="empty-state">${escapeHtml(message)}</div>`;
+  }
+  if (chartNote) {
+    chartNote.textContent = '';
+  }
 }
 
-function buildTableSkeleton(columns: string[]) {
-  if (!resultsContainer) {
+// Records the chart with the query it was drawn for; the extension replaces the stored entry.
+function saveChartWithHistory(spec: ChartSpec) {
+  if (!currentHistoryEntry || currentHistoryEntry.sql !== baseQuerySql) {
+    return;
+  }
+  if (JSON.stringify(currentHistoryEntry.chart) === JSON.stringify(spec)) {
     return;
   }
+  currentHistoryEntry = { ...currentHistoryEntry, chart: spec };
+  vscode.postMessage({ command: 'recordHistory', entry: currentHistoryEntry });
+}
 
-  const table = document.createElement('table');
-  const thead = document.createElement('thead');
-  const headerRow = document.createElement('tr');
-  headerRow.className = 'column-row';
-
-  columns.forEach((column, index) => {
-    const th = document.createElement('th');
-    const button = document.createElement('button');
-    button.type = 'button';
-    button.className = 'header-button';
-
-    const label = document.createElement('span');
-    label.textContent = column;
-    const indicator = document.createElement('span');
-    indicator.className = 'sort-indicator';
-
-    button.append(label, indicator);
-    button.addEventListener('click', () => toggleSort(index));
-    th.appendChild(button);
-    headerRow.appendChild(th);
-  });
-  thead.appendChild(headerRow);
-
-  const filterRow = document.createElement('tr');
-  filterRow.className = 'filter-row';
-  columns.forEach((column, index) => {
-    const th = document.createElement('th');
-    const input = document.createElement('input');
-    input.type = 'search';
-    input.placeholder = 'Filter';
-    input.value = columnFilters[index] ?? '';
-    input.setAttribute('aria-label', `Filter column ${column}`);
-    input.addEventListener('input', () => {
-      columnFilters[index] = input.value;
-      applyTableState();
-    });
-    th.appendChild(input);
-    filterRow.appendChild(th);
+async function exportChart(format: ChartImageFormat) {
+  if (!chartCanvas || !chartData || !chartSpec) {
+    updateStatus('Draw a chart to export first.');
+    return;
+  }
+  const svg = renderChart(chartData, chartSpec, chartCanvas.clientWidth || 960, chartCanvas.clientHeight || 540, readChartTheme());
+  const bytes = format === 'svg'
+    ? new TextEncoder().encode(serializeChart(svg))
+    : await rasterizeChart(svg);
+  await runExport(`duckdb_chart.${format}`, format, async (transfer) => {
+    await transfer.write(bytes);
   });
-  thead.appendChild(filterRow);
+}
 
-  const tbody = document.createElement('tbody');
-  table.appendChild(thead);
-  table.appendChild(tbody);
+function setQueryRunning(running: boolean) {
+  queryRunning = running;
+  runButton.disabled = running;
+  updateCancelButton();
+  if (loadMoreButton) {
+    loadMoreButton.disabled = running;
+  }
+}
 
-  resultsContainer.innerHTML = '';
-  resultsContainer.appendChild(table);
-  tableBodyElement = tbody;
-  syncColumnHeaderHeight(headerRow);
+function updateCancelButton() {
+  cancelButton?.classList.toggle('hidden', !queryRunning && sideQueries === 0);
 }
 
-function applyTableState() {
-  if (!currentTableData || !tableBodyElement) {
+function renderResults(table: Table | null) {
+  if (!resultsContainer) {
     return;
   }
-  const tbody = tableBodyElement;
 
-  const normalizedGlobal = globalFilter.trim().toLowerCase();
-  const normalizedFilters = columnFilters.map((value) => value.trim().toLowerCase());
+  lastArrowResult = table;
+  profiledSql = null;
+  chartedKey = null;
+  populateChartControls(table?.schema ?? null);
+  tableStateSequence++;
+  filterColumns = table
+    ? table.schema.fields.map((field) => ({
+      name: field.name,
+      numeric: DataType.isInt(field.type) || DataType.isFloat(field.type) || DataType.isDecimal(field.type),
+    }))
+    : [];
+  columnFilters = filterColumns.map(() => '');
+  globalFilter = '';
+  sortKeys = [];
+  showGeneratedSql(null);
+  if (globalSearchInput) {
+    globalSearchInput.value = '';
+  }
 
-  let visibleRows = currentTableData.rows.filter((row) => {
-    if (normalizedGlobal) {
-      const hasMatch = row.display.some((cell) => cell.toLowerCase().includes(normalizedGlobal));
-      if (!hasMatch) {
-        return false;
-      }
-    }
-    return normalizedFilters.every((filter, idx) => {
-      if (!filter) {
-        return true;
-      }
-      return (row.display[idx] ?? '').toLowerCase().includes(filter);
-    });
-  });
+  if (!table || table.numRows === 0) {
+    resultGrid?.dispose();
+    resultGrid = null;
+    resultsContainer.innerHTML = '<div class="empty-state">Query completed. No rows returned.</div>';
+    updateRowCount();
+    return;
+  }
 
-  if (sortState.direction && sortState.columnIndex >= 0) {
-    const directionMultiplier = sortState.direction === 'asc' ? 1 : -1;
-    const sortIndex = sortState.columnIndex;
-    visibleRows = [...visibleRows].sort((a, b) => {
-      const comparison = compareValues(
-        a.raw[sortIndex],
-        b.raw[sortIndex],
-        a.display[sortIndex],
-        b.display[sortIndex]
-      );
-      return comparison * directionMultiplier;
+  if (!resultGrid) {
+    resultGrid = new VirtualGrid(resultsContainer, {
+      formatCell,
+      onHeaderClick: (columnIndex, event) => toggleSort(columnIndex, event.shiftKey),
+      onFilterInput: (columnIndex, value) => {
+        columnFilters[columnIndex] = value;
+        scheduleTableState();
+      },
+      decorateCell: decorateComparisonCell,
     });
-  } else {
-    visibleRows = [...visibleRows];
   }
+  resultGrid.setTable(table, columnFilters);
+  updateRowCount();
 
-  tbody.innerHTML = '';
+  resultsContainer.style.display = 'block';
+}
 
-  if (visibleRows.length === 0) {
-    const emptyRow = document.createElement('tr');
-    const cell = document.createElement('td');
-    cell.colSpan = currentTableData.columns.length || 1;
-    cell.textContent = 'No rows match the current filters.';
-    cell.className = 'empty-row';
-    emptyRow.appendChild(cell);
-    tbody.appendChild(emptyRow);
-  } else {
-    visibleRows.forEach((row) => {
-      const tr = document.createElement('tr');
-      row.display.forEach((value) => {
-        const td = document.createElement('td');
-        td.textContent = value;
-        tr.appendChild(td);
-      });
-      tbody.appendChild(tr);
-    });
+function scheduleTableState() {
+  if (filterTimeoutHandle) {
+    window.clearTimeout(filterTimeoutHandle);
   }
+  filterTimeoutHandle = window.setTimeout(() => {
+    filterTimeoutHandle = null;
+    applyTableState().catch(showSqlError);
+  }, 250);
+}
 
-  updateRowCount(visibleRows.length, currentTableData.rows.length);
+// Re-runs the base query in DuckDB with the grid's filters and sort applied. Resolves
+// to false when that could not be done with the columns on screen.
+async function applyTableState(keepScroll = false): Promise<boolean> {
+  if (!connection || !baseQuerySql || !resultGrid) {
+    return false;
+  }
+  const sequence = ++tableStateSequence;
   refreshSortIndicators();
-}
 
-function syncColumnHeaderHeight(headerRow: HTMLTableRowElement) {
-  window.requestAnimationFrame(() => {
-    const height = headerRow.getBoundingClientRect().height;
-    if (height > 0) {
-      document.documentElement.style.setProperty('--column-header-height', `${height}px`);
+  const hasFilters = Boolean(globalFilter.trim()) || columnFilters.some((value) => value.trim());
+  const sql = hasFilters || sortKeys.length > 0
+    ? buildFilteredQuery(baseQuerySql, {
+      columns: filterColumns,
+      columnFilters,
+      globalFilter,
+      sortKeys: sortKeys.map((key) => ({ column: filterColumns[key.columnIndex].name, direction: key.direction })),
+    })
+    : baseQuerySql;
+  showGeneratedSql(sql === baseQuerySql ? null : sql);
+
+  setQueryRunning(true);
+  try {
+    const pager = await runInterruptible(() => fetchFirstPage(sql));
+    if (sequence !== tableStateSequence) {
+      return true;
     }
-  });
+    const fieldNames = pager.schema.fields.map((field) => field.name);
+    if (fieldNames.length !== filterColumns.length || fieldNames.some((name, index) => name !== filterColumns[index].name)) {
+      await clearTableRows();
+      return false;
+    }
+    clearSqlError();
+    lastArrowResult = pagerTable(pager);
+    resultGrid.setRows(lastArrowResult, !keepScroll);
+    refreshTotalRowCount(pager);
+    refreshProfile().catch(reportError);
+    refreshChart().catch(reportError);
+    return true;
+  } catch (error) {
+    if (sequence === tableStateSequence) {
+      showSqlError(error);
+      await clearTableRows();
+    }
+    return false;
+  } finally {
+    setQueryRunning(false);
+  }
+}
+
+// After a failed re-query the rows on screen no longer match the filters and sort, and
+// their stream is closed: show no rows, with the same columns, until the next run.
+async function clearTableRows() {
+  await closeActivePager();
+  activePager = null;
+  if (resultGrid && lastArrowResult) {
+    lastArrowResult = new Table(lastArrowResult.schema, []);
+    resultGrid.setRows(lastArrowResult);
+  }
+  updateRowCount();
 }
 
-function toggleSort(columnIndex: number) {
-  if (sortState.columnIndex === columnIndex) {
-    if (sortState.direction === 'asc') {
-      sortState.direction = 'desc';
-    } else if (sortState.direction === 'desc') {
-      sortState = { columnIndex: -1, direction: null };
+// Plain click sorts by one column (asc → desc → off); Shift+Click adds or cycles a secondary key.
+function toggleSort(columnIndex: number, additive: boolean) {
+  const existing = sortKeys.find((key) => key.columnIndex === columnIndex);
+  if (additive) {
+    if (!existing) {
+      sortKeys = [...sortKeys, { columnIndex, direction: 'asc' }];
+    } else if (existing.direction === 'asc') {
+      sortKeys = sortKeys.map((key) => (key === existing ? { columnIndex, direction: 'desc' } : key));
     } else {
-      sortState.direction = 'asc';
+      sortKeys = sortKeys.filter((key) => key !== existing);
     }
+  } else if (existing && sortKeys.length === 1) {
+    sortKeys = existing.direction === 'asc' ? [{ columnIndex, direction: 'desc' }] : [];
   } else {
-    sortState = { columnIndex, direction: 'asc' };
+    sortKeys = [{ columnIndex, direction: 'asc' }];
   }
-  applyTableState();
+  applyTableState().catch(showSqlError);
 }
 
 function refreshSortIndicators() {
-  if (!resultsContainer) {
-    return;
-  }
+  resultGrid?.setSortIndicators(sortKeys);
+}
 
-  const headerButtons = Array.from(resultsContainer.querySelectorAll<HTMLButtonElement>('.header-button'));
-  headerButtons.forEach((button, index) => {
-    if (sortState.columnIndex === index && sortState.direction) {
-      button.dataset.sort = sortState.direction;
-    } else {
-      delete button.dataset.sort;
-    }
-  });
+function showGeneratedSql(sql: string | null) {
+  generatedSql = sql;
+  if (generatedSqlText) {
+    generatedSqlText.textContent = sql ?? '';
+  }
+  generatedSqlBar?.classList.toggle('hidden', !sql);
 }
 
-function updateRowCount(visible: number, total: number) {
+function updateRowCount() {
   if (!rowCountLabel) {
     return;
   }
-  if (total === 0) {
+  const pager = activePager;
+  loadMoreButton?.classList.toggle('hidden', !pager?.reader);
+  if (!pager || (pager.rowCount === 0 && !pager.reader)) {
     rowCountLabel.textContent = 'No rows to display';
     return;
   }
-  const visibleLabel = visible.toLocaleString();
-  const totalLabel = total.toLocaleString();
-  rowCountLabel.textContent = visible === total
-    ? `${visibleLabel} rows`
-    : `${visibleLabel} of ${totalLabel} rows`;
-}
-
-function compareValues(a: any, b: any, aDisplay: string, bDisplay: string): number {
-  if (a === b) {
-    return 0;
-  }
 
-  const aIsNumber = typeof a === 'number' && Number.isFinite(a);
-  const bIsNumber = typeof b === 'number' && Number.isFinite(b);
-  if (aIsNumber && bIsNumber) {
-    return a < b ? -1 : 1;
+  const loadedLabel = pager.rowCount.toLocaleString();
+  let text: string;
+  if (pager.totalRows === pager.rowCount) {
+    text = `${loadedLabel} rows`;
+  } else if (pager.totalRows !== null) {
+    text = `${loadedLabel} of ${pager.totalRows.toLocaleString()} rows loaded`;
+  } else {
+    const counting = countProgress ? `counting… ${countProgress}` : 'counting…';
+    text = `${loadedLabel} rows loaded${countingRows ? ` (${counting})` : ''}`;
   }
-
-  const aIsDate = a instanceof Date;
-  const bIsDate = b instanceof Date;
-  if (aIsDate && bIsDate) {
-    return a.getTime() - b.getTime();
+  if (pager.sql !== baseQuerySql && baseTotalRows !== null) {
+    text += ` • filtered from ${baseTotalRows.toLocaleString()}`;
   }
-
-  const textA = (aDisplay ?? '').toLowerCase();
-  const textB = (bDisplay ?? '').toLowerCase();
-  return textA.localeCompare(textB, undefined, { numeric: true, sensitivity: 'base' });
+  rowCountLabel.textContent = text;
 }
 
 function formatCell(value: any): string {
@@ -632,37 +2140,68 @@ function formatCell(value: any): string {
   return String(value);
 }
 
+// The extension stores the entry and sends the updated history back to every viewer.
 function recordQueryHistory(entry: QueryHistoryEntry) {
-  queryHistory = [entry, ...queryHistory].slice(0, 25);
+  queryHistory = [entry, ...queryHistory];
   renderQueryHistory();
+  vscode.postMessage({ command: 'recordHistory', entry });
 }
 
 function renderQueryHistory() {
   if (!historyList) {
     return;
   }
+  renderHistoryFileOptions();
   if (queryHistory.length === 0) {
     historyList.innerHTML = '<div class="history-empty">No queries executed yet. Run a query to see it here.</div>';
     return;
   }
 
-  const items = queryHistory
+  const search = historySearchInput?.value.trim().toLowerCase() ?? '';
+  const file = historyFileFilter?.value ?? '';
+  const outcome = historyStatusFilter?.value ?? '';
+  const visible = queryHistory
+    .filter((entry) => !search || entry.sql.toLowerCase().includes(search))
+    .filter((entry) => !file || entry.file === file)
+    .filter((entry) => !outcome || (outcome === 'success' ? entry.status === 'success' : entry.status !== 'success'))
+    // Pinned entries stay on top; the sort is stable so each group keeps newest first.
+    .sort((a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)));
+  if (visible.length === 0) {
+    historyList.innerHTML = '<div class="history-empty">No queries match these filters.</div>';
+    return;
+  }
+
+  const items = visible
     .map((entry) => {
       const metaParts = [
         `${entry.rowCount.toLocaleString()} row${entry.rowCount === 1 ? '' : 's'}`,
         `${Math.max(1, Math.round(entry.durationMs)).toLocaleString()} ms`,
-        new Date(entry.timestamp).toLocaleTimeString(),
+        new Date(entry.timestamp).toLocaleString(),
       ];
+      if (entry.status === 'cancelled' || entry.status === 'timedOut') {
+        metaParts.unshift(entry.status === 'cancelled' ? 'Cancelled' : 'Timed out');
+      }
+      if (entry.file) {
+        metaParts.push(entry.file);
+      }
       const meta = metaParts.join(' • ');
       const classes = ['history-item'];
-      if (entry.error) {
+      if (entry.status === 'error') {
         classes.push('error');
+      } else if (entry.status !== 'success') {
+        classes.push('interrupted');
+      }
+      if (entry.pinned) {
+        classes.push('pinned');
       }
       return `
-        <article class="${classes.join(' ')}" data-history-id="${entry.id}">
+        <article class="${classes.join(' ')}" data-history-id="${escapeHtml(entry.id)}">
           <div class="history-body">
             <div class="history-sql">${escapeHtml(entry.sql)}</div>
-            <div class="history-meta">${entry.error ? escapeHtml(entry.error) + ' • ' : ''}${meta}</div>
+            <div class="history-meta">${entry.error ? escapeHtml(entry.error) + ' • ' : ''}${escapeHtml(meta)}</div>
+          </div>
+          <div class="history-actions">
+            <button class="history-action pin-history${entry.pinned ? ' active' : ''}" title="${entry.pinned ? 'Unpin' : 'Pin'}">${entry.pinned ? '★' : '☆'}</button>
           </div>
         </article>
       `;
@@ -671,18 +2210,83 @@ function renderQueryHistory() {
 
   historyList.innerHTML = items;
   historyList.querySelectorAll<HTMLElement>('.history-item').forEach((item) => {
+    const entry = queryHistory.find((e) => e.id === item.dataset.historyId);
+    if (!entry) {
+      return;
+    }
+    item.querySelector('.pin-history')?.addEventListener('click', (event) => {
+      event.stopPropagation();
+      vscode.postMessage({ command: 'pinHistory', id: entry.id, pinned: !entry.pinned });
+    });
     item.addEventListener('click', () => {
-      const id = Number(item.dataset.historyId);
-      const entry = queryHistory.find((e) => e.id === id);
-      if (entry) {
-        sqlInput.value = entry.sql;
-        closeHistoryModalWindow();
-        runQueryWithUiFeedback(entry.sql);
-      }
+      sqlInput.value = entry.sql;
+      closeHistoryModalWindow();
+      // Bring back the chart that was drawn for this query, if any.
+      chartSpec = entry.chart ?? chartSpec;
+      runQueryWithUiFeedback(entry.sql).then(() => {
+        if (entry.chart) {
+          showResultsView('chart');
+        }
+      });
+    });
+  });
+}
+
+function renderHistoryFileOptions() {
+  if (!historyFileFilter) {
+    return;
+  }
+  const files = Array.from(new Set(queryHistory.map((entry) => entry.file).filter((file): file is string => !!file))).sort();
+  const selected = historyFileFilter.value;
+  historyFileFilter.innerHTML = '<option value="">All files</option>' + files
+    .map((file) => `<option value="${escapeHtml(file)}">${escapeHtml(file)}</option>`)
+    .join('');
+  historyFileFilter.value = files.includes(selected) ? selected : '';
+}
+
+function renderSavedQueries() {
+  if (!savedQueryList) {
+    return;
+  }
+  if (savedQueries.length === 0) {
+    savedQueryList.innerHTML = '<div class="history-empty">No saved queries. Use Save Query in the SQL editor to add one.</div>';
+    return;
+  }
+
+  savedQueryList.innerHTML = savedQueries
+    .map((query, index) => `
+      <article class="history-item" data-saved-index="${index}">
+        <div class="history-body">
+          <div class="saved-query-name">${escapeHtml(query.name)}</div>
+          <div class="history-sql">${escapeHtml(query.sql)}</div>
+          <div class="history-meta">${query.dataset ? escapeHtml(query.dataset) : 'Runs against the open file'}</div>
+        </div>
+        <div class="history-actions">
+          <button class="history-action delete-saved-query" title="Delete">×</button>
+        </div>
+      </article>
+    `)
+    .join('');
+  savedQueryList.querySelectorAll<HTMLElement>('.history-item').forEach((item) => {
+    const query = savedQueries[Number(item.dataset.savedIndex)];
+    item.querySelector('.delete-saved-query')?.addEventListener('click', (event) => {
+      event.stopPropagation();
+      vscode.postMessage({ command: 'deleteSavedQuery', uri: query.uri });
+    });
+    item.addEventListener('click', () => {
+      closeHistoryModalWindow();
+      vscode.postMessage({ command: 'openSavedQuery', uri: query.uri });
     });
   });
 }
 
+function showHistoryTab(tab: string) {
+  historyTabs.forEach((button) => button.classList.toggle('active', button.dataset.historyTab === tab));
+  document.querySelectorAll<HTMLElement>('[data-history-panel]').forEach((panel) => {
+    panel.classList.toggle('hidden', panel.dataset.historyPanel !== tab);
+  });
+}
+
 function openHistoryModal() {
   if (historyModal) {
     historyModal.classList.add('visible');
@@ -701,56 +2305,122 @@ function updateResetButtonState() {
   }
 }
 
-async function exportResult(format: ExportFormat) {
+function renderExportOptions() {
+  if (!exportOptionsContainer) {
+    return;
+  }
+  renderExportOptionsForm(exportOptionsContainer, exportFormat, exportOptions, (next) => {
+    exportOptions = next;
+  });
+}
+
+async function exportResult(format: ExportFormat, options: ExportOptions) {
   if (!connection || !db) {
     throw new Error('DuckDB is not ready for export.');
   }
+  const database = db;
+  const exportConnection = connection;
   const baseName = 'duckdb_result';
   const normalizedQuery = sqlInput.value.trim();
   if (!normalizedQuery) {
     updateStatus('Write a SQL query to export first.');
     return;
   }
-
-  if (format === 'arrow') {
-    if (!lastArrowResult) {
-      await runQuery(normalizedQuery);
-    }
-    if (!lastArrowResult) {
-      updateStatus('Run the query before exporting to Arrow.');
+  const extension = exportExtension(format, options);
+
+  await runExport(`${baseName}.${extension}`, extension, async (transfer) => {
+    // The export statements below end any result still being paged on the main connection.
+    await closeActivePager();
+    transfer.onCancel = () => {
+      exportConnection.cancelSent().catch(() => false);
+    };
+    const wrappedQuery = normalizeSqlForEmbedding(normalizedQuery);
+
+    if (format === 'arrow') {
+      // Export the full result, not only the pages fetched into the grid, a batch at a time.
+      updateStatus('Exporting Arrow data…');
+      const pager = await openResultPager(exportConnection, normalizedQuery);
+      try {
+        await streamArrowFile(pager, transfer);
+      } finally {
+        await closeResultPager(pager);
+      }
       return;
     }
-    const arrowBuffer = asSerializableBuffer(tableToIPC(lastArrowResult, 'file'));
-    await requestFileSave(`${baseName}.arrow`, arrowBuffer, format);
-    return;
-  }
-
-  const exportPath = `memory://duckdb-viewer/${Date.now()}.${format}`;
-  const wrappedQuery = normalizeSqlForEmbedding(normalizedQuery);
-  const copyStatement = format === 'csv'
-    ? `COPY (${wrappedQuery}) TO '${exportPath}' (FORMAT CSV, HEADER true);`
-    : `COPY (${wrappedQuery}) TO '${exportPath}' (FORMAT PARQUET);`;
 
-  await connection.query(copyStatement);
-  const buffer = await db.copyFileToBuffer(exportPath);
-  await db.dropFile(exportPath);
+    if (isTextExportFormat(format)) {
+      // Rows are formatted a batch at a time as DuckDB streams them as text.
+      updateStatus('Exporting rows…');
+      const { schema } = await describeColumns(exportConnection, `DESCRIBE ${wrappedQuery};`);
+      const exporter = createTextExporter(format, schema, options);
+      const encoder = new TextEncoder();
+      await transfer.write(encoder.encode(exporter.header()));
+      const pager = await openResultPager(exportConnection, buildTextExportQuery(format, wrappedQuery, schema));
+      try {
+        for await (const batch of readAllBatches(pager)) {
+          const columns = batch.schema.fields.map((_, index) => batch.getChildAt(index));
+          const rows = Array.from({ length: batch.numRows }, (_, row) => (
+            columns.map((column) => (column?.get(row) ?? null) as string | null)
+          ));
+          await transfer.write(encoder.encode(exporter.rows(rows)));
+        }
+      } finally {
+        await closeResultPager(pager);
+      }
+      await transfer.write(encoder.encode(exporter.footer()));
+      return;
+    }
 
-  const extension = format === 'csv' ? 'csv' : 'parquet';
-  await requestFileSave(`${baseName}.${extension}`, asSerializableBuffer(buffer), format);
-}
+    if (!isCopyExportFormat(format)) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+    if (format === 'xlsx') {
+      updateStatus('Loading the Excel extension…');
+      await exportConnection.query('INSTALL excel; LOAD excel;');
+    }
+    const exportPath = `memory://duckdb-viewer/${Date.now()}.${extension}`;
+    const copyStatement = `COPY (${wrappedQuery}) TO '${exportPath}' (${buildCopyOptions(format, options)});`;
 
-async function requestFileSave(fileName: string, buffer: ArrayBuffer, format: ExportFormat) {
-  const serializable = Array.from(new Uint8Array(buffer));
-  vscode.postMessage({
-    command: 'export-data',
-    fileName,
-    format,
-    buffer: serializable,
+    updateStatus(`Exporting ${extension.toUpperCase()} data…`);
+    // These files are only valid once finished, so DuckDB writes them whole in memory and they go
+    // to disk in chunks from there. The COPY runs as a pending query so that Cancel stops it.
+    let buffer: Uint8Array;
+    try {
+      await queryInterruptibly(exportConnection, copyStatement);
+      buffer = await database.copyFileToBuffer(exportPath);
+    } finally {
+      // Frees DuckDB's copy before the bytes are sent.
+      await database.dropFile(exportPath).catch(() => null);
+    }
+    await transfer.write(buffer);
   });
 }
 
-function normalizeSqlForEmbedding(sql: string): string {
-  return sql.replace(/;\s*$/g, '').trim();
+// Asks the extension where to save, then lets `produce` send the bytes. Cancelling
+// from the progress notification interrupts whatever `produce` is waiting on.
+async function runExport(
+  fileName: string,
+  format: string,
+  produce: (transfer: ExportTransfer) => Promise<void>
+) {
+  const transfer = await ExportTransfer.begin((message) => vscode.postMessage(message), fileName, format);
+  if (!transfer) {
+    return;
+  }
+  try {
+    await produce(transfer);
+    await transfer.finish();
+    if (statusWrapper) {
+      statusWrapper.style.display = 'none';
+    }
+  } catch (error) {
+    transfer.abort();
+    if (transfer.cancelled || error instanceof ExportCancelledError) {
+      updateStatus('Export cancelled.');
+      return;
+    }
+    throw error;
+  }
 }
 
 function escapeHtml(value: string): string {
@@ -764,16 +2434,15 @@ function escapeHtml(value: string): string {
   return value.replace(/[&<>"']/g, (char) => map[char]);
 }
 
-function asSerializableBuffer(view: Uint8Array): ArrayBuffer {
-  const copy = new Uint8Array(view.length);
-  copy.set(view);
-  return copy.buffer;
-}
-
 function showSqlError(error: any) {
   if (!sqlErrorContainer) {
     return;
   }
+  if (error instanceof QueryInterruptedError) {
+    sqlErrorContainer.textContent = error.message;
+    sqlErrorContainer.classList.add('visible');
+    return;
+  }
   const message = typeof error === 'string'
     ? error
     : error instanceof Error
@@ -784,6 +2453,7 @@ function showSqlError(error: any) {
 }
 
 function clearSqlError() {
+  sqlInput.clearError();
   if (!sqlErrorContainer) {
     return;
   }
@@ -855,6 +2525,8 @@ function populateFileList(files: Array<{ path: string; relativePath: string; typ
       <div class="file-item" data-file-path="${escapedPath}" title="${escapedRelativePath}">
         <span class="file-type-badge">${file.type}</span>
         <span class="file-path">${escapedRelativePath}</span>
+        <button type="button" class="file-add-button file-compare-button secondary" title="Compare the open file with this one">Compare</button>
+        <button type="button" class="file-add-button secondary" title="Add to session">+ Add</button>
       </div>
     `;
   }).join('');
@@ -864,6 +2536,26 @@ function populateFileList(files: Array<{ path: string; relativePath: string; typ
   // Add click handlers to all file items
   const fileItems = fileList.querySelectorAll('.file-item');
   fileItems.forEach(item => {
+    item.querySelector('.file-compare-button')?.addEventListener('click', (event) => {
+      event.stopPropagation();
+      const filePath = item.getAttribute('data-file-path');
+      if (filePath) {
+        vscode.postMessage({
+          command: 'compareFileFromList',
+          filePath: filePath
+        });
+      }
+    });
+    item.querySelector('.file-add-button:not(.file-compare-button)')?.addEventListener('click', (event) => {
+      event.stopPropagation();
+      const filePath = item.getAttribute('data-file-path');
+      if (filePath) {
+        vscode.postMessage({
+          command: 'addFileFromList',
+          filePath: filePath
+        });
+      }
+    });
     item.addEventListener('click', () => {
       const filePath = item.getAttribute('data-file-path');
       if (filePath) {
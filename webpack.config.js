@@ -70,6 +70,7 @@ const webviewConfig = {
   target: 'web', // <-- This is for the webview
   entry: {
     webview: './src/webview.ts',
+    csvEditor: './src/csvEditor.ts',
   },
   output: {
     path: path.resolve(__dirname, 'dist'),